@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getPeople } from "@/lib/people-data";
+import { cooccurrence, rankRareCombos } from "@/lib/rare-combos";
+
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 500;
+
+/** The trait co-occurrence matrix over every person, with the `limit` rarest combinations. */
+export function GET(request: NextRequest) {
+  const raw = request.nextUrl.searchParams.get("limit");
+  const limit = raw === null ? DEFAULT_LIMIT : Number(raw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    return NextResponse.json({ error: `limit must be an integer between 1 and ${MAX_LIMIT}` }, { status: 400 });
+  }
+  const people = getPeople();
+  const matrix = cooccurrence(people);
+  return NextResponse.json({ matrix, combos: rankRareCombos(people, matrix, limit) });
+}
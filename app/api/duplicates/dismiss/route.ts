@@ -0,0 +1,17 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { dismissPair } from "@/lib/duplicates-data";
+import { badRequest } from "@/lib/api-errors";
+
+const DismissRequestSchema = z.object({
+  ids: z.tuple([z.number().int(), z.number().int()]),
+  author: z.string().trim().default(""),
+});
+
+/** Mark two people as different so the pair leaves the review queue. */
+export async function POST(request: NextRequest) {
+  const body = DismissRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  await dismissPair(body.data.ids, body.data.author);
+  return NextResponse.json({ dismissed: true });
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { MergeError } from "@/lib/duplicates";
+import { mergePeople } from "@/lib/duplicates-data";
+import { IMPORT_FIELDS } from "@/lib/person-import";
+import { badRequest } from "@/lib/api-errors";
+
+const MergeRequestSchema = z.object({
+  keepId: z.number().int(),
+  dropId: z.number().int(),
+  picks: z.partialRecord(z.enum(IMPORT_FIELDS), z.union([z.number().int(), z.literal("both")])).default({}),
+  author: z.string().trim().default(""),
+});
+
+/** Merge `dropId` into `keepId`, taking each field from the record `picks` names. */
+export async function POST(request: NextRequest) {
+  const body = MergeRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { keepId, dropId, picks, author } = body.data;
+  try {
+    return NextResponse.json(await mergePeople(keepId, dropId, picks, author));
+  } catch (err) {
+    if (err instanceof MergeError) return badRequest(err.message);
+    throw err;
+  }
+}
@@ -0,0 +1,7 @@
+import { NextResponse } from "next/server";
+import { getDuplicateQueue, getMergeLog } from "@/lib/duplicates-data";
+
+/** The review queue of likely duplicate people, with past merges newest first. */
+export function GET() {
+  return NextResponse.json({ candidates: getDuplicateQueue(), merges: [...getMergeLog().merges].reverse() });
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import { getInvestorDirectory } from "@/lib/investor-directory";
+import type { InvestorSummary } from "@/lib/investors";
+
+export function GET() {
+  const summaries: InvestorSummary[] = getInvestorDirectory().map((i) => ({
+    slug: i.slug,
+    name: i.name,
+    people: i.people.length,
+    companies: i.companies.length,
+  }));
+  return NextResponse.json(summaries);
+}
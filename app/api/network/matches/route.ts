@@ -0,0 +1,9 @@
+import { NextResponse } from "next/server";
+import { getPeople } from "@/lib/people-data";
+import { graphData } from "@/lib/network-data";
+import { poolMatches } from "@/lib/network-join";
+
+/** People pool records for the Twitter recommendations, keyed by lower-case username. */
+export function GET() {
+  return NextResponse.json(poolMatches(getPeople(), graphData.recommendations));
+}
@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { CommentError, addComment, deleteComment, getThread, saveNote } from "@/lib/notes-data";
+import { SUBJECT_KEY_MESSAGE, SUBJECT_KEY_RE } from "@/lib/subjects";
+import { badRequest } from "@/lib/api-errors";
+
+const subjectKey = z.string().regex(SUBJECT_KEY_RE, SUBJECT_KEY_MESSAGE);
+const author = z.string().trim().min(1, "Add your name");
+
+const NoteUpdateSchema = z.object({ key: subjectKey, body: z.string(), author });
+const NewCommentSchema = z.object({
+  key: subjectKey,
+  body: z.string().trim().min(1, "Comment is empty"),
+  author,
+  parentId: z.string().nullable().default(null),
+});
+
+/** The note, comments and mentionable teammates for `?key=`. */
+export function GET(request: NextRequest) {
+  const key = subjectKey.safeParse(request.nextUrl.searchParams.get("key"));
+  if (!key.success) return badRequest(key.error);
+  return NextResponse.json(getThread(key.data));
+}
+
+/** Replace the note for a subject; an empty body deletes it. */
+export async function PUT(request: NextRequest) {
+  const body = NoteUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  return NextResponse.json({ note: await saveNote(body.data.key, body.data.body, body.data.author) });
+}
+
+/** Add a comment, or a reply when `parentId` is set. */
+export async function POST(request: NextRequest) {
+  const body = NewCommentSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { key, author, parentId } = body.data;
+  try {
+    return NextResponse.json({ comment: await addComment(key, body.data.body, author, parentId) });
+  } catch (err) {
+    if (err instanceof CommentError) return badRequest(err.message);
+    throw err;
+  }
+}
+
+/** Delete `?id=` and its replies. */
+export async function DELETE(request: NextRequest) {
+  try {
+    await deleteComment(request.nextUrl.searchParams.get("id") ?? "");
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    if (err instanceof CommentError) return badRequest(err.message);
+    throw err;
+  }
+}
@@ -0,0 +1,58 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getPeople, getPeopleIndex } from "@/lib/people-data";
+import { getInvestor } from "@/lib/investor-directory";
+import { getPipeline } from "@/lib/pipeline-data";
+import { getWatchlists } from "@/lib/watchlists-data";
+import { recommendationsByUsername } from "@/lib/network-data";
+import { matchPeople, parsePeopleQuery, PeopleQueryError } from "@/lib/people-query";
+import {
+  EXPORT_COLUMNS,
+  EXPORT_CONTENT_TYPES,
+  EXPORT_FORMATS,
+  describeQuery,
+  exportFields,
+  renderExport,
+  type ExportFormat,
+} from "@/lib/people-export";
+
+/**
+ * Every person matching the `/api/people` filters, in its sort order, as a downloadable file.
+ * `format` is csv, json or md; `columns` lists table column ids in display order.
+ */
+export function GET(request: NextRequest) {
+  const params = request.nextUrl.searchParams;
+  const format = params.get("format") ?? "csv";
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    return NextResponse.json({ error: `format must be one of ${EXPORT_FORMATS.join(", ")}` }, { status: 400 });
+  }
+  const columns = params.get("columns")?.split(",").filter(Boolean) ?? EXPORT_COLUMNS;
+  try {
+    const query = parsePeopleQuery(params);
+    const pipeline = getPipeline();
+    const watchlists = getWatchlists();
+    const people = matchPeople(getPeople(), query, { index: getPeopleIndex(), pipeline, watchlists, network: recommendationsByUsername });
+    const now = new Date();
+    const body = renderExport(format as ExportFormat, people, exportFields(columns, query.scoring), pipeline, {
+      exportedAt: now.toISOString(),
+      rows: people.length,
+      filters: describeQuery(
+        query,
+        (slug) => getInvestor(slug)?.name ?? slug,
+        (id) => watchlists.find((w) => w.id === id)?.name ?? id
+      ),
+    });
+    // A single list's export is named after it
+    const name = query.lists.length === 1 ? `people-${query.lists[0]}` : "people";
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type": EXPORT_CONTENT_TYPES[format as ExportFormat],
+        "Content-Disposition": `attachment; filename="${name}-${now.toISOString().slice(0, 10)}.${format}"`,
+      },
+    });
+  } catch (err) {
+    if (err instanceof PeopleQueryError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+}
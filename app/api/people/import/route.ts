@@ -0,0 +1,36 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { takenPersonIds } from "@/lib/duplicates-data";
+import { getPeople, updatePeople } from "@/lib/people-data";
+import { IMPORT_FIELDS, ImportError, applyImport, planImport } from "@/lib/person-import";
+
+const ImportRequestSchema = z.object({
+  rows: z.array(z.record(z.string(), z.unknown())),
+  mapping: z.record(z.string(), z.enum(IMPORT_FIELDS)),
+  updateDuplicates: z.boolean().default(false),
+  /** Without it the route only previews */
+  write: z.boolean().default(false),
+});
+
+/** Preview an import batch, or apply it to `data/people.json` when `write` is set. */
+export async function POST(request: NextRequest) {
+  const body = ImportRequestSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) {
+    return NextResponse.json({ error: body.error.issues.map((i) => `${i.path.join(".")}: ${i.message}`).join("; ") }, { status: 400 });
+  }
+  const { rows, mapping, updateDuplicates, write } = body.data;
+  try {
+    const plan = write
+      ? await updatePeople((people) => {
+          const plan = planImport(rows, mapping, people, takenPersonIds());
+          return { next: applyImport(people, plan, updateDuplicates), result: plan };
+        })
+      : planImport(rows, mapping, getPeople(), takenPersonIds());
+    return NextResponse.json({ plan, written: write });
+  } catch (err) {
+    if (err instanceof ImportError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { getPeople, getPeopleIndex } from "@/lib/people-data";
+import { getPipeline } from "@/lib/pipeline-data";
+import { getWatchlists } from "@/lib/watchlists-data";
+import { recommendationsByUsername } from "@/lib/network-data";
+import { parsePeopleQuery, queryPeople, PeopleQueryError } from "@/lib/people-query";
+
+export function GET(request: NextRequest) {
+  try {
+    const query = parsePeopleQuery(request.nextUrl.searchParams);
+    return NextResponse.json(queryPeople(getPeople(), query, { index: getPeopleIndex(), pipeline: getPipeline(), watchlists: getWatchlists(), network: recommendationsByUsername }));
+  } catch (err) {
+    if (err instanceof PeopleQueryError) {
+      return NextResponse.json({ error: err.message }, { status: 400 });
+    }
+    throw err;
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { getPipeline, savePipelineRecord } from "@/lib/pipeline-data";
+import { PIPELINE_STAGES } from "@/lib/pipeline";
+import { SUBJECT_KEY_MESSAGE, SUBJECT_KEY_RE } from "@/lib/subjects";
+import { badRequest } from "@/lib/api-errors";
+
+const PipelineUpdateSchema = z.object({
+  key: z.string().regex(SUBJECT_KEY_RE, SUBJECT_KEY_MESSAGE),
+  /** null takes the person out of the pipeline */
+  stage: z.enum(PIPELINE_STAGES).nullable(),
+  owner: z.string().trim().default(""),
+});
+
+export function GET() {
+  return NextResponse.json(getPipeline());
+}
+
+/** Set a person's or recommendation's pipeline stage and owner. */
+export async function PUT(request: NextRequest) {
+  const body = PipelineUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { key, stage, owner } = body.data;
+  const record = await savePipelineRecord(key, stage && { stage, owner });
+  return NextResponse.json({ record });
+}
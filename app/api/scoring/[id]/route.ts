@@ -0,0 +1,16 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ScoringError } from "@/lib/scoring";
+import { deleteScoringProfile } from "@/lib/scoring-data";
+import { badRequest } from "@/lib/api-errors";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    await deleteScoringProfile((await params).id);
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    if (err instanceof ScoringError) return badRequest(err.message);
+    throw err;
+  }
+}
@@ -0,0 +1,32 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { getScoringProfiles, saveScoringProfile } from "@/lib/scoring-data";
+import { badRequest } from "@/lib/api-errors";
+
+const bonuses = z.record(z.string(), z.number()).default({});
+
+const NewProfileSchema = z.object({
+  name: z.string().trim().min(1, "Name the profile"),
+  owner: z.string().trim().min(1, "Add your name to save a profile"),
+  weights: z.object({
+    outlierScore: z.number().min(0),
+    startupLikelihood: z.number().min(0),
+    spikes: bonuses,
+    categories: bonuses,
+    stages: bonuses,
+    countries: bonuses,
+  }),
+});
+
+/** `?owner=<name>`: that teammate's profiles. */
+export function GET(request: NextRequest) {
+  return NextResponse.json(getScoringProfiles(request.nextUrl.searchParams.get("owner") ?? ""));
+}
+
+/** Save weights under a name, replacing the owner's profile with the same name. */
+export async function POST(request: NextRequest) {
+  const body = NewProfileSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { name, owner, weights } = body.data;
+  return NextResponse.json({ profile: await saveScoringProfile(name, owner, weights) });
+}
@@ -0,0 +1,15 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { ViewNotFoundError, deleteView } from "@/lib/views-data";
+import { notFound } from "@/lib/api-errors";
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    await deleteView((await params).id);
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    if (err instanceof ViewNotFoundError) return notFound(err.message);
+    throw err;
+  }
+}
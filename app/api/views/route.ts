@@ -0,0 +1,25 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { getViews, saveView } from "@/lib/views-data";
+import { VIEW_TABS } from "@/lib/views";
+import { badRequest } from "@/lib/api-errors";
+
+const NewViewSchema = z.object({
+  name: z.string().trim().min(1, "Name the view"),
+  tab: z.enum(VIEW_TABS),
+  /** The tab's URL parameters without `tab` */
+  query: z.string().transform((q) => new URLSearchParams(q.replace(/^\?/, "")).toString()),
+  author: z.string().trim().default(""),
+});
+
+export function GET() {
+  return NextResponse.json(getViews());
+}
+
+/** Save the current view under a name, replacing a view with the same name. */
+export async function POST(request: NextRequest) {
+  const body = NewViewSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { name, tab, query, author } = body.data;
+  return NextResponse.json({ view: await saveView(name, tab, query, author) });
+}
@@ -0,0 +1,28 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { WatchlistError, WatchlistNotFoundError, setWatchlistEntry } from "@/lib/watchlists-data";
+import { SUBJECT_KEY_MESSAGE, SUBJECT_KEY_RE } from "@/lib/subjects";
+import { badRequest, notFound } from "@/lib/api-errors";
+
+type Params = { params: Promise<{ id: string }> };
+
+const EntryUpdateSchema = z.object({
+  key: z.string().regex(SUBJECT_KEY_RE, SUBJECT_KEY_MESSAGE),
+  /** false takes the person off the list */
+  member: z.boolean(),
+  author: z.string().trim().default(""),
+});
+
+/** Put a person or recommendation on the list, or take them off. */
+export async function PUT(request: NextRequest, { params }: Params) {
+  const body = EntryUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { key, member, author } = body.data;
+  try {
+    return NextResponse.json({ watchlist: await setWatchlistEntry((await params).id, key, member, author) });
+  } catch (err) {
+    if (err instanceof WatchlistNotFoundError) return notFound(err.message);
+    if (err instanceof WatchlistError) return badRequest(err.message);
+    throw err;
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { WatchlistError, WatchlistNotFoundError, deleteWatchlist, updateWatchlist } from "@/lib/watchlists-data";
+import { badRequest, notFound } from "@/lib/api-errors";
+
+type Params = { params: Promise<{ id: string }> };
+
+const WatchlistUpdateSchema = z.object({
+  name: z.string().trim().min(1, "Name the list").optional(),
+  description: z.string().trim().optional(),
+});
+
+/** Rename a list or change its description. */
+export async function PATCH(request: NextRequest, { params }: Params) {
+  const body = WatchlistUpdateSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  try {
+    return NextResponse.json({ watchlist: await updateWatchlist((await params).id, body.data) });
+  } catch (err) {
+    if (err instanceof WatchlistNotFoundError) return notFound(err.message);
+    if (err instanceof WatchlistError) return badRequest(err.message);
+    throw err;
+  }
+}
+
+export async function DELETE(_request: NextRequest, { params }: Params) {
+  try {
+    await deleteWatchlist((await params).id);
+    return NextResponse.json({ deleted: true });
+  } catch (err) {
+    if (err instanceof WatchlistNotFoundError) return notFound(err.message);
+    if (err instanceof WatchlistError) return badRequest(err.message);
+    throw err;
+  }
+}
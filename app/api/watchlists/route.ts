@@ -0,0 +1,27 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { z } from "zod";
+import { WatchlistError, createWatchlist, getWatchlists } from "@/lib/watchlists-data";
+import { badRequest } from "@/lib/api-errors";
+
+const NewWatchlistSchema = z.object({
+  name: z.string().trim().min(1, "Name the list"),
+  description: z.string().trim().default(""),
+  author: z.string().trim().default(""),
+});
+
+export function GET() {
+  return NextResponse.json(getWatchlists());
+}
+
+/** Create an empty list. */
+export async function POST(request: NextRequest) {
+  const body = NewWatchlistSchema.safeParse(await request.json().catch(() => null));
+  if (!body.success) return badRequest(body.error);
+  const { name, description, author } = body.data;
+  try {
+    return NextResponse.json({ watchlist: await createWatchlist(name, description, author) });
+  } catch (err) {
+    if (err instanceof WatchlistError) return badRequest(err.message);
+    throw err;
+  }
+}
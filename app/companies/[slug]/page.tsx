@@ -0,0 +1,141 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getCompany } from "@/lib/company-directory";
+import { getPeople } from "@/lib/people-data";
+import { graphData } from "@/lib/network-data";
+import { companyRole } from "@/lib/companies";
+import { PersonAvatar, SpikeChips } from "@/components/person-chips";
+import { ScoreBadge } from "@/components/score-badge";
+import { StageBadge } from "@/components/stage-badge";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type Params = { params: Promise<{ slug: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const company = getCompany((await params).slug);
+  if (!company) return { title: "Company not found" };
+  return { title: `${company.name} — Outlier Scout`, description: company.description || undefined };
+}
+
+const label = "text-xs font-medium text-muted-foreground uppercase tracking-wide";
+
+export default async function CompanyPage({ params }: Params) {
+  const company = getCompany((await params).slug);
+  if (!company) notFound();
+
+  const ids = new Set(company.people);
+  const people = getPeople().filter((p) => ids.has(p.id)).sort((a, b) => b.outlierScore - a.outlierScore);
+  const usernames = new Set(company.recommendations);
+  const recs = graphData.recommendations.filter((r) => usernames.has(r.username)).sort((a, b) => b.hub_count - a.hub_count);
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <Link href="/companies" className="text-sm text-muted-foreground hover:text-foreground">&larr; All companies</Link>
+        <div className="flex items-center gap-2 mt-2">
+          <h1 className="text-xl md:text-2xl font-bold">{company.name}</h1>
+          {company.stageText && <StageBadge value={company.stageText} />}
+        </div>
+        <div className="flex flex-wrap items-center gap-3 text-sm mt-1">
+          {company.website && (
+            <a href={company.website} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{company.website}</a>
+          )}
+          {company.handles.map((h) => (
+            <a key={h} href={`https://x.com/${h}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">@{h}</a>
+          ))}
+        </div>
+        {company.description && <p className="text-muted-foreground text-sm mt-2">{company.description}</p>}
+      </div>
+
+      {company.investors.length > 0 && (
+        <section className="space-y-1">
+          <h2 className={label}>Investors</h2>
+          <div className="flex flex-wrap gap-1.5">
+            {company.investors.map((i) => (
+              <Link key={i.slug} href={`/investors/${i.slug}`} className="inline-flex px-2 py-0.5 rounded bg-muted text-xs font-medium hover:underline">{i.name}</Link>
+            ))}
+          </div>
+        </section>
+      )}
+
+      <section className="space-y-2">
+        <h2 className={label}>Outliers here</h2>
+        {people.length > 0 ? (
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Outlier</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead className="w-20">Role</TableHead>
+                  <TableHead>Spikes</TableHead>
+                  <TableHead>Current</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {people.map((p) => (
+                  <TableRow key={p.id}>
+                    <TableCell><ScoreBadge score={p.outlierScore} palette="blue" /></TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <PersonAvatar twitter={p.twitter} />
+                        <Link href={`/people/${p.id}`} className="text-sm font-medium text-blue-600 hover:underline">{p.name}</Link>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{companyRole(p)}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-1"><SpikeChips tags={parseSpikeTags(p.achievements || "").tags} /></div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-normal">{p.currentActivity}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground">Nobody in the people pool lists this company.</p>
+        )}
+      </section>
+
+      {recs.length > 0 && (
+        <section className="space-y-2">
+          <h2 className={label}>Mentioned by network recommendations</h2>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16 text-right">Mutual</TableHead>
+                  <TableHead className="w-48">Name</TableHead>
+                  <TableHead>Bio</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {recs.map((r) => (
+                  <TableRow key={r.id}>
+                    <TableCell className="text-right text-sm font-medium text-emerald-600">{r.hub_count}</TableCell>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <PersonAvatar twitter={r.username} />
+                        <a href={`https://x.com/${r.username}`} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline">{r.name || `@${r.username}`}</a>
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-normal">{r.description}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
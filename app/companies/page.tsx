@@ -0,0 +1,62 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { getCompanyDirectory } from "@/lib/company-directory";
+import { StageBadge } from "@/components/stage-badge";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const metadata: Metadata = {
+  title: "Companies — Outlier Scout",
+};
+
+// Rendered per request: imports and merges change the people behind the directory
+export const dynamic = "force-dynamic";
+
+export default function CompaniesPage() {
+  const companies = getCompanyDirectory();
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-4">
+      <div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">&larr; Back</Link>
+        <h1 className="text-xl md:text-2xl font-bold mt-2">Companies</h1>
+        <p className="text-muted-foreground text-sm">
+          {companies.length.toLocaleString()} companies where people in the pool work, or that the network follows, matched across both by website, handle and name
+        </p>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Company</TableHead>
+              <TableHead className="w-28">Stage</TableHead>
+              <TableHead className="text-right w-24">People</TableHead>
+              <TableHead className="text-right w-24">Mentions</TableHead>
+              <TableHead className="text-right w-24">Investors</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {companies.map((c) => (
+              <TableRow key={c.slug}>
+                <TableCell>
+                  <Link href={`/companies/${c.slug}`} className="text-sm font-medium text-blue-600 hover:underline">{c.name}</Link>
+                </TableCell>
+                <TableCell>{c.stageText && <StageBadge value={c.stageText} />}</TableCell>
+                <TableCell className="text-right font-mono text-sm">{c.people.length || ""}</TableCell>
+                <TableCell className="text-right font-mono text-sm">{c.recommendations.length || ""}</TableCell>
+                <TableCell className="text-right font-mono text-sm">{c.investors.length || ""}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </main>
+  );
+}
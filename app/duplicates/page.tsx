@@ -0,0 +1,237 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { IMPORT_FIELDS, type ImportField } from "@/lib/person-import";
+import { COMBINABLE_FIELDS, type DuplicateCandidate, type MergePicks, type MergeRecord } from "@/lib/duplicates";
+import type { Person } from "@/lib/types";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+const show = (v: unknown) => (Array.isArray(v) ? v.join(", ") : String(v));
+
+const isEmpty = (v: unknown) => (Array.isArray(v) ? v.length === 0 : v === "" || v === 0);
+
+/** Start from the kept record, filling its empty fields from the other one. */
+function defaultPicks(keep: Person, drop: Person): MergePicks {
+  const picks: MergePicks = {};
+  for (const field of IMPORT_FIELDS) picks[field] = isEmpty(keep[field]) && !isEmpty(drop[field]) ? drop.id : keep.id;
+  return picks;
+}
+
+/** Side-by-side records with a choice per field; the kept record's id survives. */
+function MergeForm({
+  candidate,
+  author,
+  onDone,
+}: {
+  candidate: DuplicateCandidate;
+  author: string;
+  onDone: () => void;
+}) {
+  const { a, b } = candidate;
+  const [keepId, setKeepId] = useState(a.id);
+  const [keep, drop] = keepId === a.id ? [a, b] : [b, a];
+  const [picks, setPicks] = useState<MergePicks>(() => defaultPicks(keep, drop));
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const run = async (update: () => Promise<void>) => {
+    setBusy(true);
+    setError(null);
+    try {
+      await update();
+      rememberTeammate(author);
+      onDone();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const merge = () =>
+    run(async () => {
+      await sendJson("POST", "/api/duplicates/merge", { keepId, dropId: drop.id, picks, author });
+    });
+  const dismiss = () =>
+    run(async () => {
+      await sendJson("POST", "/api/duplicates/dismiss", { ids: [a.id, b.id], author });
+    });
+
+  const choice = (field: ImportField, value: number | "both", text: string) => (
+    <label className="flex items-start gap-2 cursor-pointer">
+      <input
+        type="radio"
+        name={field}
+        checked={picks[field] === value}
+        onChange={() => setPicks({ ...picks, [field]: value })}
+        className="mt-1"
+      />
+      <span className={`min-w-0 break-words ${text ? "" : "text-muted-foreground/60"}`}>{text || "∅"}</span>
+    </label>
+  );
+
+  return (
+    <div className="rounded-lg border p-4 space-y-3">
+      <div className="text-sm text-muted-foreground">{candidate.reasons.join(" · ")}</div>
+      <table className="w-full text-sm table-fixed">
+        <thead>
+          <tr className="text-left text-xs text-muted-foreground">
+            <th className="w-32 font-medium pb-2">Field</th>
+            {[a, b].map((p) => (
+              <th key={p.id} className="font-medium pb-2">
+                <label className="flex items-center gap-2 cursor-pointer">
+                  <input
+                    type="radio"
+                    name="keep"
+                    checked={keepId === p.id}
+                    onChange={() => {
+                      setKeepId(p.id);
+                      setPicks(defaultPicks(p, p.id === a.id ? b : a));
+                    }}
+                  />
+                  <Link href={`/people/${p.id}`} className="text-blue-600 hover:underline" target="_blank">#{p.id}</Link>
+                  {keepId === p.id && <span className="text-green-700">keeps its id</span>}
+                </label>
+              </th>
+            ))}
+            <th className="w-28 font-medium pb-2">Both</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y">
+          {IMPORT_FIELDS.map((field) => {
+            const same = JSON.stringify(a[field]) === JSON.stringify(b[field]);
+            return (
+              <tr key={field} className={same ? "text-muted-foreground" : ""}>
+                <td className="py-1.5 pr-2 align-top font-mono text-xs">{field}</td>
+                <td className="py-1.5 pr-3 align-top">{choice(field, a.id, show(a[field]))}</td>
+                <td className="py-1.5 pr-3 align-top">{same ? <span className="text-xs">same</span> : choice(field, b.id, show(b[field]))}</td>
+                <td className="py-1.5 align-top">
+                  {!same && (COMBINABLE_FIELDS as readonly string[]).includes(field) && choice(field, "both", "Keep both")}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+      <div className="flex items-center gap-2">
+        <button
+          onClick={merge}
+          disabled={busy}
+          className="px-3 py-1.5 rounded-md text-sm bg-foreground text-background cursor-pointer disabled:opacity-40 disabled:cursor-default"
+        >
+          Merge #{drop.id} into #{keep.id}
+        </button>
+        <button
+          onClick={dismiss}
+          disabled={busy}
+          className="px-3 py-1.5 border rounded-md text-sm hover:bg-muted cursor-pointer disabled:opacity-40 disabled:cursor-default"
+        >
+          Not the same person
+        </button>
+        <span className="text-xs text-muted-foreground">Pipeline status, lists, notes and comments move to the kept record.</span>
+      </div>
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
+
+export default function DuplicatesPage() {
+  const [data, setData] = useState<{ candidates: DuplicateCandidate[]; merges: MergeRecord[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [selected, setSelected] = useState<string | null>(null);
+  const [version, setVersion] = useState(0);
+  const [author, setAuthor] = useState(() => (typeof window === "undefined" ? "" : currentTeammate()));
+  const [askName] = useState(() => !author);
+
+  useEffect(() => {
+    fetch("/api/duplicates")
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        setData(body);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [version]);
+
+  const label = "text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1";
+  const pairId = (c: DuplicateCandidate) => `${c.a.id}-${c.b.id}`;
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">&larr; Back</Link>
+        <h1 className="text-xl md:text-2xl font-bold mt-2">Duplicates</h1>
+        <p className="text-muted-foreground text-sm">
+          People who may appear twice in <code>data/people.json</code>, matched on Twitter handle, name, company and country. Merge a pair field by field, or mark them as different people.
+        </p>
+      </div>
+
+      {askName && (
+        <input
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="Your name, for the merge log"
+          className="w-64 px-2 py-1 rounded border bg-background text-sm"
+        />
+      )}
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      {!data && !error && <div className="text-sm text-muted-foreground">Looking for duplicates…</div>}
+
+      {data && (
+        <section>
+          <div className={label}>To review · {data.candidates.length}</div>
+          {data.candidates.length === 0 && <p className="text-sm text-muted-foreground">Nothing left to review.</p>}
+          <ul className="space-y-2">
+            {data.candidates.map((c) => (
+              <li key={pairId(c)}>
+                <button
+                  onClick={() => setSelected(selected === pairId(c) ? null : pairId(c))}
+                  className={`w-full flex items-center gap-3 px-3 py-2 rounded-md border text-left text-sm cursor-pointer hover:bg-muted/50 ${selected === pairId(c) ? "bg-muted/50" : ""}`}
+                >
+                  <span className="w-10 font-mono text-xs text-muted-foreground">{c.score}</span>
+                  <span className="font-medium">{c.a.name}</span>
+                  <span className="text-muted-foreground">#{c.a.id}</span>
+                  <span className="text-muted-foreground">&harr;</span>
+                  <span className="font-medium">{c.b.name}</span>
+                  <span className="text-muted-foreground">#{c.b.id}</span>
+                  <span className="ml-auto text-xs text-muted-foreground truncate">{c.reasons[0]}</span>
+                </button>
+                {selected === pairId(c) && (
+                  <div className="mt-2">
+                    <MergeForm
+                      key={pairId(c)}
+                      candidate={c}
+                      author={author}
+                      onDone={() => {
+                        setSelected(null);
+                        setVersion((v) => v + 1);
+                      }}
+                    />
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {data && data.merges.length > 0 && (
+        <section>
+          <div className={label}>Merged</div>
+          <ul className="space-y-0.5">
+            {data.merges.map((m) => (
+              <li key={m.mergedId} className="text-sm">
+                <span className="font-mono text-muted-foreground mr-2">#{m.mergedId} &rarr; <Link href={`/people/${m.keptId}`} className="text-blue-600 hover:underline">#{m.keptId}</Link></span>
+                <span className="font-medium">{m.merged.name}</span>
+                <span className="text-xs text-muted-foreground"> · {m.mergedBy || "someone"} · {new Date(m.mergedAt).toLocaleDateString()}</span>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+    </main>
+  );
+}
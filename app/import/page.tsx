@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  IMPORT_FIELDS,
+  ImportError,
+  guessMapping,
+  parseBatch,
+  type Batch,
+  type ColumnMapping,
+  type ImportField,
+  type ImportPlan,
+} from "@/lib/person-import";
+
+const PREVIEW_ROWS = 5;
+
+const show = (v: unknown) => (Array.isArray(v) ? v.join(", ") : String(v)) || "∅";
+
+export default function ImportPage() {
+  const [filename, setFilename] = useState("");
+  const [batch, setBatch] = useState<Batch | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [updateDuplicates, setUpdateDuplicates] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [status, setStatus] = useState<{ busy: boolean; error: string | null; written: boolean }>({ busy: false, error: null, written: false });
+
+  const onFile = async (file: File | undefined) => {
+    setPlan(null);
+    setStatus({ busy: false, error: null, written: false });
+    if (!file) return;
+    try {
+      const next = parseBatch(await file.text(), file.name);
+      setFilename(file.name);
+      setBatch(next);
+      setMapping(guessMapping(next.columns));
+    } catch (err) {
+      setBatch(null);
+      setStatus({ busy: false, error: err instanceof ImportError ? err.message : String(err), written: false });
+    }
+  };
+
+  const setColumn = (column: string, field: ImportField | "") => {
+    const next = { ...mapping };
+    // A field comes from one column at most
+    for (const [c, f] of Object.entries(next)) if (f === field) delete next[c];
+    if (field) next[column] = field;
+    else delete next[column];
+    setMapping(next);
+    setPlan(null);
+  };
+
+  const submit = async (write: boolean) => {
+    if (!batch) return;
+    setStatus({ busy: true, error: null, written: false });
+    try {
+      const res = await fetch("/api/people/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ rows: batch.rows, mapping, updateDuplicates, write }),
+      });
+      const body = await res.json();
+      if (!res.ok) throw new Error(body.error || res.statusText);
+      setPlan(body.plan as ImportPlan);
+      setStatus({ busy: false, error: null, written: body.written });
+    } catch (err) {
+      setStatus({ busy: false, error: (err as Error).message, written: false });
+    }
+  };
+
+  const changed = plan ? plan.duplicates.filter((d) => d.changes.length > 0) : [];
+  const label = "text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1";
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">&larr; Back</Link>
+        <h1 className="text-xl md:text-2xl font-bold mt-2">Import people</h1>
+        <p className="text-muted-foreground text-sm">
+          Upload a scout&apos;s CSV or JSON batch, check the column mapping and preview what changes before writing to <code>data/people.json</code>.
+        </p>
+      </div>
+
+      <input
+        type="file"
+        accept=".csv,.json,text/csv,application/json"
+        onChange={(e) => onFile(e.target.files?.[0])}
+        className="text-sm file:mr-3 file:px-3 file:py-1.5 file:rounded-md file:border file:bg-background file:text-sm file:cursor-pointer"
+      />
+
+      {batch && (
+        <section>
+          <div className={label}>Columns · {filename} · {batch.rows.length} rows</div>
+          <div className="border rounded-lg overflow-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-48">Column</TableHead>
+                  <TableHead className="w-48">Field</TableHead>
+                  <TableHead>Sample values</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {batch.columns.map((column) => (
+                  <TableRow key={column}>
+                    <TableCell className="text-sm font-medium">{column}</TableCell>
+                    <TableCell>
+                      <select
+                        value={mapping[column] ?? ""}
+                        onChange={(e) => setColumn(column, e.target.value as ImportField | "")}
+                        className="w-full px-2 py-1 rounded border bg-background text-sm"
+                      >
+                        <option value="">— ignore —</option>
+                        {IMPORT_FIELDS.map((f) => (
+                          <option key={f} value={f}>{f}</option>
+                        ))}
+                      </select>
+                    </TableCell>
+                    <TableCell className="text-xs text-muted-foreground truncate max-w-[360px]">
+                      {batch.rows.slice(0, PREVIEW_ROWS).map((r) => show(r[column] ?? "")).join(" · ")}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="flex items-center gap-3 mt-3">
+            <label className="flex items-center gap-2 text-sm">
+              <input type="checkbox" checked={updateDuplicates} onChange={(e) => setUpdateDuplicates(e.target.checked)} className="rounded" />
+              Update existing people with changed values
+            </label>
+            <button
+              onClick={() => submit(false)}
+              disabled={status.busy}
+              className="ml-auto px-3 py-1.5 border rounded-md text-sm hover:bg-muted cursor-pointer disabled:opacity-40 disabled:cursor-default"
+            >
+              Preview
+            </button>
+          </div>
+        </section>
+      )}
+
+      {status.error && <div className="text-sm text-red-600">{status.error}</div>}
+
+      {plan && (
+        <section className="space-y-4">
+          <div className="flex items-center gap-6 text-sm text-muted-foreground">
+            <span><strong className="text-foreground">{plan.added.length}</strong> new</span>
+            <span><strong className="text-foreground">{plan.duplicates.length}</strong> already in the dataset ({changed.length} with changes)</span>
+            <span><strong className="text-foreground">{plan.rejected.length}</strong> rejected</span>
+            {status.written ? (
+              <span className="ml-auto text-green-700">Written to data/people.json</span>
+            ) : (
+              <button
+                onClick={() => submit(true)}
+                disabled={status.busy || (plan.added.length === 0 && (!updateDuplicates || changed.length === 0))}
+                className="ml-auto px-3 py-1.5 rounded-md text-sm bg-foreground text-background cursor-pointer disabled:opacity-40 disabled:cursor-default"
+              >
+                Import {plan.added.length} new{updateDuplicates && changed.length > 0 ? `, update ${changed.length}` : ""}
+              </button>
+            )}
+          </div>
+
+          {plan.added.length > 0 && (
+            <div>
+              <div className={label}>New</div>
+              <ul className="space-y-0.5">
+                {plan.added.map(({ row, person, warnings }) => (
+                  <li key={row} className="text-sm">
+                    <span className="text-green-700 font-mono mr-2">+ #{person.id}</span>
+                    <span className="font-medium">{person.name}</span>
+                    {person.twitter && <span className="text-muted-foreground"> {person.twitter}</span>}
+                    {person.company && <span className="text-muted-foreground"> · {person.company}</span>}
+                    {warnings.map((w) => <div key={w} className="text-xs text-amber-700 ml-6">{w}</div>)}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.duplicates.length > 0 && (
+            <div>
+              <div className={label}>Already in the dataset</div>
+              <ul className="space-y-1">
+                {plan.duplicates.map((d) => (
+                  <li key={d.row} className="text-sm">
+                    <span className="text-muted-foreground font-mono mr-2">row {d.row} = #{d.existing.id}</span>
+                    <span className="font-medium">{d.existing.name}</span>
+                    <span className="text-xs text-muted-foreground"> · same {d.match}{d.changes.length === 0 ? " · no changes" : ""}</span>
+                    {d.changes.map((c) => (
+                      <div key={c.field} className="text-xs ml-6">
+                        <span className="text-muted-foreground">{c.field}:</span>{" "}
+                        <span className="line-through text-red-700/80">{show(c.from)}</span> &rarr; <span className="text-green-700">{show(c.to)}</span>
+                      </div>
+                    ))}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {plan.rejected.length > 0 && (
+            <div>
+              <div className={label}>Rejected</div>
+              <ul className="space-y-0.5">
+                {plan.rejected.map((r) => (
+                  <li key={r.row} className="text-sm text-red-700">row {r.row}: {r.messages.join("; ")}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,114 @@
+import Link from "next/link";
+import { notFound } from "next/navigation";
+import type { Metadata } from "next";
+import { getInvestor, networkCompanies } from "@/lib/investor-directory";
+import { getPeople } from "@/lib/people-data";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+type Params = { params: Promise<{ slug: string }> };
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const investor = getInvestor((await params).slug);
+  return { title: investor ? `${investor.name} — Outlier Scout` : "Investor not found" };
+}
+
+export default async function InvestorPage({ params }: Params) {
+  const investor = getInvestor((await params).slug);
+  if (!investor) notFound();
+
+  const ids = new Set(investor.people);
+  const backed = getPeople().filter((p) => ids.has(p.id)).sort((a, b) => b.outlierScore - a.outlierScore);
+  const companies = investor.companies.map((handle) => ({ handle, ...networkCompanies[handle] }));
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <Link href="/investors" className="text-sm text-muted-foreground hover:text-foreground">&larr; All investors</Link>
+        <h1 className="text-xl md:text-2xl font-bold mt-2">{investor.name}</h1>
+        <p className="text-muted-foreground text-sm">
+          Backs {backed.length} {backed.length === 1 ? "person" : "people"} in the pool and {companies.length} network {companies.length === 1 ? "company" : "companies"}
+        </p>
+      </div>
+
+      {backed.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">People</h2>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-16">Outlier</TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Current</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {backed.map((p) => {
+                  const handle = p.twitter.replace(/^@/, "");
+                  return (
+                    <TableRow key={p.id}>
+                      <TableCell className="font-mono text-xs font-semibold">{p.outlierScore}</TableCell>
+                      <TableCell>
+                        {handle ? (
+                          <a href={`https://x.com/${handle}`} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline">{p.name}</a>
+                        ) : (
+                          <span className="text-sm font-medium">{p.name}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        {p.companyUrl ? (
+                          <a href={p.companyUrl} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">{p.company}</a>
+                        ) : (
+                          p.company
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm text-muted-foreground">{p.fundingSeries}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground whitespace-normal">{p.currentActivity}</TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+
+      {companies.length > 0 && (
+        <section className="space-y-2">
+          <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Network companies</h2>
+          <div className="border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Company</TableHead>
+                  <TableHead>Stage</TableHead>
+                  <TableHead>Description</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {companies.map((co) => (
+                  <TableRow key={co.handle}>
+                    <TableCell>
+                      <a href={co.website || `https://x.com/${co.handle}`} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline">{co.name}</a>
+                    </TableCell>
+                    <TableCell className="text-sm text-muted-foreground">{co.stage}</TableCell>
+                    <TableCell className="text-sm text-muted-foreground whitespace-normal">{co.description}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        </section>
+      )}
+    </main>
+  );
+}
@@ -0,0 +1,57 @@
+import Link from "next/link";
+import type { Metadata } from "next";
+import { getInvestorDirectory } from "@/lib/investor-directory";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+
+export const metadata: Metadata = {
+  title: "Investors — Outlier Scout",
+};
+
+// Rendered per request: imports and merges change the people behind the directory
+export const dynamic = "force-dynamic";
+
+export default function InvestorsPage() {
+  const investors = getInvestorDirectory();
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-4">
+      <div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">&larr; Back</Link>
+        <h1 className="text-xl md:text-2xl font-bold mt-2">Investors</h1>
+        <p className="text-muted-foreground text-sm">
+          {investors.length.toLocaleString()} firms and angels backing people in the pool or companies in the network
+        </p>
+      </div>
+
+      <div className="border rounded-lg">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Investor</TableHead>
+              <TableHead className="text-right w-24">People</TableHead>
+              <TableHead className="text-right w-24">Companies</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {investors.map((i) => (
+              <TableRow key={i.slug}>
+                <TableCell>
+                  <Link href={`/investors/${i.slug}`} className="text-sm font-medium text-blue-600 hover:underline">{i.name}</Link>
+                </TableCell>
+                <TableCell className="text-right font-mono text-sm">{i.people.length || ""}</TableCell>
+                <TableCell className="text-right font-mono text-sm">{i.companies.length || ""}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </div>
+    </main>
+  );
+}
@@ -1,70 +1,17 @@
-"use client";
+import { Home } from "@/components/home";
+import { graphData, networkCompanies } from "@/lib/network-data";
 
-import { useState } from "react";
-import { DataTable } from "@/components/data-table";
-import { NetworkList } from "@/components/network-list";
-import type { Person } from "@/lib/types";
-import type { GraphData } from "@/lib/graph-types";
-import peopleData from "@/data/people.json";
-import graphData from "@/data/graph_data.json";
+type SearchParams = Record<string, string | string[] | undefined>;
 
-type Tab = "people" | "network";
-
-export default function Home() {
-  const [tab, setTab] = useState<Tab>("people");
-
-  return (
-    <main className="min-h-screen flex flex-col max-w-[1600px] mx-auto">
-      {/* Header + tabs */}
-      <div className="flex-none px-4 pt-4 pb-0 md:px-6 md:pt-6">
-        <div className="flex items-end justify-between mb-3 md:mb-4">
-          <div>
-            <h1 className="text-xl md:text-2xl font-bold">Find founders off your radar</h1>
-            <p className="text-muted-foreground text-sm">
-              Exceptional builders sourced from outlier signals and Twitter social graph
-            </p>
-          </div>
-        </div>
-
-        {/* Tab bar */}
-        <div className="flex items-center gap-1 border-b">
-          <button
-            onClick={() => setTab("people")}
-            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
-              tab === "people"
-                ? "border-gray-900 text-gray-900"
-                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-            }`}
-          >
-            Outliers
-          </button>
-          <button
-            onClick={() => setTab("network")}
-            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
-              tab === "network"
-                ? "border-gray-900 text-gray-900"
-                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
-            }`}
-          >
-            Twitter
-          </button>
-        </div>
-      </div>
+function toQueryString(searchParams: SearchParams): string {
+  const params = new URLSearchParams();
+  for (const [key, value] of Object.entries(searchParams)) {
+    for (const v of [value ?? []].flat()) params.append(key, v);
+  }
+  return params.toString();
+}
 
-      {/* Content */}
-      {tab === "people" ? (
-        <div className="flex-1 p-4 md:p-6">
-          <DataTable data={peopleData as Person[]} />
-        </div>
-      ) : (
-        <div className="flex-1 overflow-hidden p-4 md:p-6" style={{ height: "calc(100vh - 120px)" }}>
-          <NetworkList
-            data={graphData as GraphData}
-            selectedId={null}
-            onSelectNode={() => {}}
-          />
-        </div>
-      )}
-    </main>
-  );
+// The graph is checked here, on the server, so the validation layer stays out of the browser bundle
+export default async function Page({ searchParams }: { searchParams: Promise<SearchParams> }) {
+  return <Home query={toQueryString(await searchParams)} graphData={graphData} networkCompanies={networkCompanies} />;
 }
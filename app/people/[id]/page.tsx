@@ -0,0 +1,263 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import type { Metadata } from "next";
+import { getPeople } from "@/lib/people-data";
+import { getMergeLog } from "@/lib/duplicates-data";
+import { resolveMergedId } from "@/lib/duplicates";
+import { getInvestor } from "@/lib/investor-directory";
+import { getPersonCompany } from "@/lib/company-directory";
+import { getPipeline } from "@/lib/pipeline-data";
+import { getWatchlists } from "@/lib/watchlists-data";
+import { watchlistsWith } from "@/lib/watchlists";
+import { personKey } from "@/lib/subjects";
+import { resolveCountries } from "@/lib/countries";
+import { SPIKE_TAG_MAP, parseSpikeTags } from "@/lib/spike-tags";
+import { achievementTimeline } from "@/lib/achievements";
+import { similarPeople } from "@/lib/similar-people";
+import { personCategories } from "@/lib/categories";
+import { fundingSummary, parseFunding } from "@/lib/funding";
+import { parseStage } from "@/lib/stages";
+import { parseInvestors } from "@/lib/investors";
+import { CONFLICT_STATUS_META, describeConflict, evaluateConflicts } from "@/lib/conflicts";
+import { CategoryChips, CompanyChip, PersonAvatar } from "@/components/person-chips";
+import { PipelineBadge } from "@/components/pipeline-status";
+import { ScoreBadge } from "@/components/score-badge";
+import { StageBadge } from "@/components/stage-badge";
+import { SubjectNotes } from "@/components/subject-notes";
+
+type Params = { params: Promise<{ id: string }> };
+
+function findPerson(id: string) {
+  return /^\d+$/.test(id) ? getPeople().find((p) => p.id === Number(id)) : undefined;
+}
+
+export async function generateMetadata({ params }: Params): Promise<Metadata> {
+  const person = findPerson((await params).id);
+  if (!person) return { title: "Person not found" };
+  return { title: `${person.name} — Outlier Scout`, description: person.currentActivity || undefined };
+}
+
+const label = "text-xs font-medium text-muted-foreground uppercase tracking-wide";
+
+export default async function PersonPage({ params }: Params) {
+  const { id } = await params;
+  const person = findPerson(id);
+  if (!person) {
+    // Links to a record that was merged away lead to the record that absorbed it
+    const keptId = /^\d+$/.test(id) ? resolveMergedId(Number(id), getMergeLog().merges) : undefined;
+    if (keptId !== undefined && keptId !== Number(id)) redirect(`/people/${keptId}`);
+    notFound();
+  }
+
+  const handle = person.twitter.replace(/^@/, "");
+  const countries = resolveCountries(person.country);
+  const { tags } = parseSpikeTags(person.achievements || "");
+  const timeline = achievementTimeline(person.achievements || "");
+  const facts = parseFunding(person.fundingInfo);
+  const stage = parseStage(person.fundingSeries);
+  const investors = parseInvestors(person.investors);
+  const conflicts = evaluateConflicts(person.investors);
+  const record = getPipeline()[personKey(person.id)];
+  const lists = watchlistsWith(getWatchlists(), personKey(person.id));
+  const colleagues = person.company
+    ? getPeople().filter((p) => p.id !== person.id && p.company.toLowerCase() === person.company.toLowerCase())
+    : [];
+  const similar = similarPeople(person, getPeople());
+  const company = getPersonCompany(person.id);
+
+  return (
+    <main className="min-h-screen max-w-[1000px] mx-auto p-4 md:p-6 space-y-6">
+      <div>
+        <Link href="/" className="text-sm text-muted-foreground hover:text-foreground">&larr; All people</Link>
+        <div className="flex items-center gap-4 mt-2">
+          <PersonAvatar twitter={person.twitter} className="w-14 h-14" />
+          <div className="min-w-0">
+            <h1 className="text-xl md:text-2xl font-bold">{person.name}</h1>
+            <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-sm text-muted-foreground">
+              {handle && (
+                <a href={`https://x.com/${handle}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                  @{handle}
+                </a>
+              )}
+              {countries.length > 0 ? (
+                <span>
+                  {countries.map((c) => `${c.flag} ${c.name}`).join(" / ")}
+                  <span className="text-muted-foreground/60"> &middot; {[...new Set(countries.map((c) => c.subregion))].join(", ")}</span>
+                </span>
+              ) : (
+                person.country && <span>{person.country}</span>
+              )}
+              <CategoryChips categories={personCategories(person)} />
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <section className="flex flex-wrap gap-3">
+        {[
+          { title: "Outlier score", value: person.outlierScore },
+          { title: "Startup likelihood", value: person.startupLikelihood },
+          { title: "Combined score", value: Math.round(person.combinedScore * 10) / 10 },
+        ].map((s) => (
+          <div key={s.title} className="rounded-lg bg-muted p-3 inline-flex flex-col min-w-[130px]">
+            <div className="text-xs text-muted-foreground mb-1">{s.title}</div>
+            <div className="text-2xl font-bold">{s.value}</div>
+          </div>
+        ))}
+        <div className="rounded-lg border p-3 inline-flex flex-col gap-1 min-w-[160px]">
+          <div className="text-xs text-muted-foreground">Pipeline</div>
+          <PipelineBadge record={record} />
+          {record?.owner && <div className="text-xs text-muted-foreground">{record.owner} &middot; {new Date(record.updatedAt).toLocaleDateString()}</div>}
+        </div>
+        {lists.length > 0 && (
+          <div className="rounded-lg border p-3 inline-flex flex-col gap-1">
+            <div className="text-xs text-muted-foreground">Lists</div>
+            <div className="flex flex-wrap gap-1">
+              {lists.map((w) => (
+                <Link key={w.id} href={`/?list=${w.id}&sort=outlierScore&dir=desc`} className="px-2 py-0.5 rounded bg-amber-100 text-amber-800 text-xs font-medium hover:underline">
+                  ★ {w.name}
+                </Link>
+              ))}
+            </div>
+          </div>
+        )}
+      </section>
+
+      {person.currentActivity && (
+        <section className="space-y-1">
+          <h2 className={label}>Current activity</h2>
+          <p className="text-sm">{person.currentActivity}</p>
+        </section>
+      )}
+
+      <div className="grid md:grid-cols-2 gap-6">
+        <section className="space-y-2">
+          <h2 className={label}>Company</h2>
+          {person.company ? (
+            <div className="rounded-lg border p-3 space-y-2">
+              <div className="flex items-center gap-2">
+                <CompanyChip company={person.company} url={person.companyUrl} />
+                {person.fundingSeries && <StageBadge value={person.fundingSeries} />}
+                {stage && stage.status !== "private" && stage.round && <span className="text-xs text-muted-foreground">after {stage.round}</span>}
+                {company && <Link href={`/companies/${company.slug}`} className="ml-auto text-xs text-blue-600 hover:underline whitespace-nowrap">Company page &rarr;</Link>}
+              </div>
+              {person.companyUrl && <div className="text-xs text-muted-foreground truncate">{person.companyUrl}</div>}
+              {person.fundingInfo && <p className="text-sm">{person.fundingInfo}</p>}
+              {fundingSummary(facts).length > 0 && (
+                <div className="flex flex-wrap items-center gap-1">
+                  {fundingSummary(facts).map((s) => (
+                    <span key={s} className="inline-flex px-2 py-0.5 rounded bg-muted text-xs font-medium">{s}</span>
+                  ))}
+                  <span className="text-xs text-muted-foreground ml-1">{facts.confidence} confidence</span>
+                </div>
+              )}
+              {colleagues.length > 0 && (
+                <div className="text-sm">
+                  <span className="text-muted-foreground">Also at {person.company}: </span>
+                  {colleagues.map((p, i) => (
+                    <span key={p.id}>
+                      {i > 0 && ", "}
+                      <Link href={`/people/${p.id}`} className="text-blue-600 hover:underline">{p.name}</Link>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">No company on record.{person.fundingSeries && ` Stage: ${person.fundingSeries}.`}</p>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h2 className={label}>Investors</h2>
+          {investors.length > 0 ? (
+            <ul className="rounded-lg border divide-y">
+              {investors.map((i) => {
+                const backs = getInvestor(i.slug)?.people.length ?? 0;
+                return (
+                  <li key={i.slug} className="flex items-center justify-between px-3 py-1.5 text-sm">
+                    <Link href={`/investors/${i.slug}`} className="font-medium text-blue-600 hover:underline">{i.name}</Link>
+                    <span className="text-xs text-muted-foreground">backs {backs} {backs === 1 ? "person" : "people"} in the pool</span>
+                  </li>
+                );
+              })}
+            </ul>
+          ) : (
+            <p className="text-sm text-muted-foreground">{person.investors || "None on record."}</p>
+          )}
+          <div className="text-sm">
+            <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${CONFLICT_STATUS_META[conflicts.status].color}`}>
+              {CONFLICT_STATUS_META[conflicts.status].label}
+            </span>
+            {conflicts.matches.length > 0 && (
+              <ul className="mt-1 space-y-0.5">
+                {conflicts.matches.map((m) => (
+                  <li key={m.rule.id} className="text-muted-foreground">{describeConflict(m)}</li>
+                ))}
+              </ul>
+            )}
+          </div>
+        </section>
+      </div>
+
+      <section className="space-y-2">
+        <h2 className={label}>Achievements</h2>
+        {tags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {tags.map((tag) => (
+              <span key={tag} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700"}`}>
+                <span className="font-bold">{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>
+                {tag}
+              </span>
+            ))}
+          </div>
+        )}
+        {timeline.length > 0 ? (
+          <ol className="border-l-2 border-muted-foreground/20 ml-2 space-y-2">
+            {timeline.map((m, i) => (
+              <li key={i} className="relative pl-4 text-sm">
+                <span className="absolute -left-[5px] top-1.5 w-2 h-2 rounded-full bg-muted-foreground/40" />
+                <span className="inline-block w-12 font-mono text-xs text-muted-foreground">{m.year ?? ""}</span>
+                {m.text}
+              </li>
+            ))}
+          </ol>
+        ) : (
+          <p className="text-sm text-muted-foreground">No achievements on record.</p>
+        )}
+      </section>
+
+      {person.notes && (
+        <section className="space-y-1">
+          <h2 className={label}>Scout notes</h2>
+          <p className="text-sm whitespace-pre-line">{person.notes}</p>
+        </section>
+      )}
+
+      <section>
+        <SubjectNotes subjectKey={personKey(person.id)} />
+      </section>
+
+      {similar.length > 0 && (
+        <section className="space-y-2">
+          <h2 className={label}>Similar people</h2>
+          <ul className="rounded-lg border divide-y">
+            {similar.map(({ person: p, reasons }) => (
+              <li key={p.id} className="flex items-center gap-3 px-3 py-2">
+                <ScoreBadge score={p.outlierScore} palette="blue" />
+                <PersonAvatar twitter={p.twitter} />
+                <div className="min-w-0">
+                  <Link href={`/people/${p.id}`} className="text-sm font-medium text-blue-600 hover:underline">{p.name}</Link>
+                  {p.company && <span className="text-sm text-muted-foreground"> &middot; {p.company}</span>}
+                  <div className="text-xs text-muted-foreground truncate">{reasons.join(" · ")}</div>
+                </div>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      <p className="text-xs text-muted-foreground">Person #{person.id}</p>
+    </main>
+  );
+}
@@ -1,16 +1,13 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { createContext, useContext, useState, useEffect, useMemo } from "react";
+import Link from "next/link";
 import {
   useReactTable,
   getCoreRowModel,
-  getSortedRowModel,
-  getFilteredRowModel,
-  getPaginationRowModel,
   flexRender,
   type ColumnDef,
   type SortingState,
-  type ColumnFiltersState,
 } from "@tanstack/react-table";
 import {
   Table,
@@ -23,71 +20,110 @@ import {
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
 import type { Person } from "@/lib/types";
-import { countryFlag } from "@/lib/country-flags";
+import { countryByCode, resolveCountries, SUBREGIONS, UNKNOWN_COUNTRY } from "@/lib/countries";
+import { SPIKE_TAGS, SPIKE_TAG_MAP, parseSpikeTags } from "@/lib/spike-tags";
+import {
+  DEFAULT_PAGE_SIZE,
+  DEFAULT_PEOPLE_QUERY,
+  NETWORK_FILTERS,
+  NETWORK_FILTER_LABELS,
+  PEOPLE_METRIC_LABELS,
+  SCORE_METRICS,
+  parsePeopleQuery,
+  peopleQueryToParams,
+  type PeoplePage,
+  type PeopleQuery,
+  type PeopleSortKey,
+  type PeopleMetric,
+  type NumberRange,
+  type CategoryMode,
+} from "@/lib/people-query";
 import { MultiSelectDropdown } from "@/components/multi-select-dropdown";
+import { RangeFilter } from "@/components/range-filter";
+import type { ExportFormat } from "@/lib/people-export";
+import {
+  PIPELINE_FILTER_OPTIONS,
+  PipelineCell,
+  PipelineContext,
+  PipelineControls,
+  usePipeline,
+} from "@/components/pipeline-status";
+import { pipelineOwners } from "@/lib/pipeline";
+import { personKey } from "@/lib/subjects";
+import { SubjectNotes } from "@/components/subject-notes";
+import { useViewInUrl } from "@/lib/view-url";
+import { WatchlistButton, WatchlistContext, WatchlistHeader, WatchlistPicker, useWatchlists } from "@/components/watchlists";
+import { formatMoney, fundingSummary, parseFunding } from "@/lib/funding";
+import { parseStage, STAGES } from "@/lib/stages";
+import { StageBadge } from "@/components/stage-badge";
+import { ScoreBadge } from "@/components/score-badge";
+import { CategoryChips, CompanyChip, NetworkBadge, PersonAvatar, SpikeChips, hostOf } from "@/components/person-chips";
+import { categoryLabel, personCategories } from "@/lib/categories";
+import { personRecommendation, recommendationsByHandle } from "@/lib/network-join";
+import type { Recommendation } from "@/lib/graph-types";
+import { customScore, type ScoringWeights } from "@/lib/scoring";
+import { ScoringPanel } from "@/components/scoring-panel";
+import { Highlight, SearchTermsContext } from "@/components/highlight";
+import { Input } from "@/components/ui/input";
+import { queryTerms } from "@/lib/people-search";
+import { parseInvestors, type InvestorSummary } from "@/lib/investors";
+import {
+  CONFLICT_STATUSES,
+  CONFLICT_STATUS_META,
+  describeConflict,
+  evaluateConflicts,
+} from "@/lib/conflicts";
 
-const SPIKE_TAGS: { key: string; char: string; color: string }[] = [
-  { key: "Academic Research", char: "A", color: "bg-blue-100 text-blue-700" },
-  { key: "Technical Builder", char: "T", color: "bg-emerald-100 text-emerald-700" },
-  { key: "Operator/Exec", char: "O", color: "bg-amber-100 text-amber-700" },
-  { key: "Creative/Media", char: "M", color: "bg-purple-100 text-purple-700" },
-  { key: "Competition Winner", char: "W", color: "bg-rose-100 text-rose-700" },
-];
-const SPIKE_TAG_MAP = Object.fromEntries(SPIKE_TAGS.map((t) => [t.key, t]));
-
-function parseSpikeTags(text: string): { tags: string[]; rest: string } {
-  const tags: string[] = [];
-  let remaining = text;
-  const re = /^\s*\[([^\]]+)\]/;
-  let match;
-  while ((match = re.exec(remaining))) {
-    tags.push(match[1]);
-    remaining = remaining.slice(match[0].length);
-  }
-  return { tags, rest: remaining.trim() };
+/** Money column over a parsed `fundingInfo` field; guesses from vague prose are greyed out. */
+function fundingColumn(id: PeopleMetric, field: "totalRaised" | "lastRound" | "valuation"): ColumnDef<Person> {
+  return {
+    id,
+    // Sorting happens on the server; an accessor is what makes the header sortable
+    accessorFn: (p) => parseFunding(p.fundingInfo)[field],
+    header: PEOPLE_METRIC_LABELS[id],
+    size: 75,
+    sortDescFirst: true,
+    cell: ({ row }) => {
+      const facts = parseFunding(row.original.fundingInfo);
+      const value = facts[field];
+      if (value === null) return <span className="text-muted-foreground/40 text-sm">-</span>;
+      const vague = facts.confidence === "low";
+      return (
+        <span className={`text-sm font-mono ${vague ? "text-muted-foreground/60 italic" : ""}`} title={`${facts.confidence} confidence`}>
+          {formatMoney(value, facts.currency)}
+        </span>
+      );
+    },
+  };
 }
 
-
-function ScoreBadge({ score, palette = "green" }: { score: number; palette?: "green" | "blue" | "purple" }) {
-  const palettes = {
-    green: {
-      98: "bg-emerald-200 text-emerald-900",
-      95: "bg-green-200 text-green-900",
-      90: "bg-green-100 text-green-800",
-      80: "bg-lime-100 text-lime-800",
-      70: "bg-yellow-100 text-yellow-800",
-      50: "bg-orange-100 text-orange-700",
-      0: "bg-gray-100 text-gray-500",
-    },
-    blue: {
-      98: "bg-blue-200 text-blue-900",
-      95: "bg-blue-100 text-blue-800",
-      90: "bg-sky-100 text-sky-800",
-      80: "bg-cyan-100 text-cyan-800",
-      70: "bg-teal-100 text-teal-700",
-      50: "bg-slate-100 text-slate-600",
-      0: "bg-gray-100 text-gray-500",
-    },
-    purple: {
-      98: "bg-violet-200 text-violet-900",
-      95: "bg-purple-100 text-purple-800",
-      90: "bg-fuchsia-100 text-fuchsia-800",
-      80: "bg-pink-100 text-pink-800",
-      70: "bg-rose-100 text-rose-700",
-      50: "bg-slate-100 text-slate-600",
-      0: "bg-gray-100 text-gray-500",
-    },
+/** The custom score from the scoring panel, computed here with the same weights the server sorts by. */
+function customScoreColumn(weights: ScoringWeights): ColumnDef<Person> {
+  return {
+    id: "custom",
+    accessorFn: (p) => customScore(p, weights),
+    header: "Custom",
+    size: 60,
+    sortDescFirst: true,
+    cell: ({ row }) => <ScoreBadge score={customScore(row.original, weights)} palette="purple" />,
   };
-  const p = palettes[palette];
-  const style = score >= 98 ? p[98] : score >= 95 ? p[95] : score >= 90 ? p[90] : score >= 80 ? p[80] : score >= 70 ? p[70] : score >= 50 ? p[50] : p[0];
-  return (
-    <span className={`inline-flex items-center justify-center px-1.5 py-0.5 rounded text-xs font-semibold font-mono ${style}`}>
-      {score}
-    </span>
-  );
+}
+
+/** Twitter recommendations keyed by handle, for the cells of people the network recommends. */
+const NetworkContext = createContext<Map<string, Recommendation>>(new Map());
+
+function PersonNetworkBadge({ person }: { person: Person }) {
+  const rec = personRecommendation(person, useContext(NetworkContext));
+  return rec ? <NetworkBadge hubCount={rec.hub_count} /> : null;
 }
 
 const columns: ColumnDef<Person>[] = [
+  {
+    id: "lists",
+    header: "",
+    size: 32,
+    cell: ({ row }) => <WatchlistButton subjectKey={personKey(row.original.id)} />,
+  },
   {
     accessorKey: "outlierScore",
     header: "Outlier",
@@ -95,6 +131,20 @@ const columns: ColumnDef<Person>[] = [
     cell: ({ row }) => <ScoreBadge score={row.original.outlierScore} palette="blue" />,
     sortDescFirst: true,
   },
+  {
+    accessorKey: "startupLikelihood",
+    header: "Startup",
+    size: 60,
+    cell: ({ row }) => <ScoreBadge score={row.original.startupLikelihood} />,
+    sortDescFirst: true,
+  },
+  {
+    accessorKey: "combinedScore",
+    header: "Combined",
+    size: 70,
+    cell: ({ row }) => <ScoreBadge score={row.original.combinedScore} palette="purple" />,
+    sortDescFirst: true,
+  },
   {
     accessorKey: "name",
     header: "Name",
@@ -103,20 +153,9 @@ const columns: ColumnDef<Person>[] = [
       const handle = row.original.twitter;
       const name = row.original.name;
       const clean = handle ? handle.replace(/^@/, "") : "";
-      const avatarUrl = clean ? `https://unavatar.io/x/${clean}` : null;
       return (
         <div className="flex items-center gap-2 min-w-0">
-          {avatarUrl ? (
-            <img
-              src={avatarUrl}
-              alt=""
-              className="w-6 h-6 rounded-full flex-shrink-0 bg-muted"
-              loading="lazy"
-              onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
-            />
-          ) : (
-            <div className="w-6 h-6 rounded-full flex-shrink-0 bg-muted" />
-          )}
+          <PersonAvatar twitter={handle} />
           {clean ? (
             <a
               href={`https://x.com/${clean}`}
@@ -125,11 +164,12 @@ const columns: ColumnDef<Person>[] = [
               className="font-medium text-sm whitespace-nowrap truncate text-blue-600 hover:underline"
               onClick={(e) => e.stopPropagation()}
             >
-              {name}
+              <Highlight text={name} />
             </a>
           ) : (
-            <span className="font-medium text-sm whitespace-nowrap truncate">{name}</span>
+            <span className="font-medium text-sm whitespace-nowrap truncate"><Highlight text={name} /></span>
           )}
+          <PersonNetworkBadge person={row.original} />
         </div>
       );
     },
@@ -144,10 +184,8 @@ const columns: ColumnDef<Person>[] = [
       const { tags, rest } = parseSpikeTags(text);
       return (
         <div className="flex items-center gap-1 min-w-0">
-          {tags.map((tag) => (
-            <span key={tag} className={`shrink-0 inline-flex items-center justify-center w-5 h-5 rounded text-xs font-medium ${(SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700")}`} title={tag}>{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>
-          ))}
-          {rest && <span className="text-xs text-muted-foreground truncate">{rest}</span>}
+          <SpikeChips tags={tags} />
+          {rest && <span className="text-xs text-muted-foreground truncate"><Highlight text={rest} /></span>}
         </div>
       );
     },
@@ -158,43 +196,27 @@ const columns: ColumnDef<Person>[] = [
     size: 130,
     cell: ({ row }) => {
       const val = row.original.company;
-      const url = row.original.companyUrl;
       if (!val) return <span className="text-muted-foreground/40 text-sm">-</span>;
-      const domain = url ? new URL(url).hostname : null;
-      const favicon = domain ? `https://www.google.com/s2/favicons?sz=16&domain=${domain}` : null;
-      return (
-        <div className="flex items-center gap-1.5 min-w-0">
-          {favicon && <img src={favicon} alt="" width={16} height={16} className="shrink-0 rounded-sm" />}
-          {url ? (
-            <a href={url} target="_blank" rel="noopener noreferrer" className="text-sm font-medium truncate text-blue-600 hover:text-blue-800 hover:underline">{val}</a>
-          ) : (
-            <span className="text-sm font-medium truncate">{val}</span>
-          )}
-        </div>
-      );
+      return <CompanyChip company={val} url={row.original.companyUrl} />;
     },
   },
+  {
+    id: "categories",
+    header: "Categories",
+    size: 140,
+    enableSorting: false,
+    cell: ({ row }) => (
+      <div className="flex items-center gap-1 min-w-0 overflow-hidden">
+        <CategoryChips categories={personCategories(row.original)} max={2} />
+      </div>
+    ),
+  },
   {
     accessorKey: "fundingSeries",
     header: "Stage",
     size: 70,
-    cell: ({ row }) => {
-      const val = row.original.fundingSeries;
-      if (!val) return <span className="text-muted-foreground/40 text-sm">-</span>;
-      const colors: Record<string, string> = {
-        "Pre-Seed": "bg-gray-100 text-gray-700",
-        "Seed": "bg-amber-100 text-amber-800",
-        "Series A": "bg-blue-100 text-blue-800",
-        "Series B": "bg-indigo-100 text-indigo-800",
-        "Series C": "bg-violet-100 text-violet-800",
-        "Series D+": "bg-purple-100 text-purple-800",
-        "IPO": "bg-emerald-100 text-emerald-800",
-        "Acquired": "bg-pink-100 text-pink-800",
-        "Bootstrapped": "bg-orange-100 text-orange-700",
-      };
-      const style = colors[val] || "bg-gray-100 text-gray-700";
-      return <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${style}`}>{val}</span>;
-    },
+    sortDescFirst: false,
+    cell: ({ row }) => <StageBadge value={row.original.fundingSeries} />,
   },
   {
     accessorKey: "investors",
@@ -203,21 +225,32 @@ const columns: ColumnDef<Person>[] = [
     cell: ({ row }) => {
       const val = row.original.investors;
       if (!val) return <span className="text-muted-foreground/40 text-sm">-</span>;
-      return <div className="text-sm text-muted-foreground truncate">{val}</div>;
+      return <div className="text-sm text-muted-foreground truncate"><Highlight text={val} /></div>;
     },
   },
   {
-    id: "kv",
-    header: "KV",
-    size: 35,
+    id: "conflict",
+    header: "Conflict",
+    size: 80,
     cell: ({ row }) => {
-      const inv = row.original.investors || "";
-      const isKV = /khosla/i.test(inv);
-      return isKV
-        ? <span className="inline-flex px-1.5 py-0.5 rounded bg-green-100 text-green-700 text-xs font-medium">yes</span>
-        : <span className="inline-flex px-1.5 py-0.5 rounded bg-gray-100 text-gray-400 text-xs font-medium">no</span>;
+      const { status, matches, decisive } = evaluateConflicts(row.original.investors);
+      const meta = CONFLICT_STATUS_META[status];
+      return (
+        <span className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium truncate ${meta.color}`} title={matches.map(describeConflict).join("\n") || meta.label}>
+          {decisive.length > 0 ? decisive.map((m) => m.rule.label).join(", ") : "clear"}
+        </span>
+      );
     },
   },
+  {
+    id: "status",
+    header: "Status",
+    size: 95,
+    cell: ({ row }) => <PipelineCell recordKey={personKey(row.original.id)} />,
+  },
+  fundingColumn("raised", "totalRaised"),
+  fundingColumn("lastRound", "lastRound"),
+  fundingColumn("valuation", "valuation"),
   {
     accessorKey: "fundingInfo",
     header: "Funding",
@@ -235,359 +268,772 @@ const columns: ColumnDef<Person>[] = [
     cell: ({ row }) => {
       const val = row.original.currentActivity;
       if (!val) return <span className="text-muted-foreground/40 text-sm">-</span>;
-      return <div className="text-sm text-muted-foreground truncate">{val}</div>;
+      return <div className="text-sm text-muted-foreground truncate"><Highlight text={val} /></div>;
     },
   },
 ];
 
 
 
-const STAGES = ["Pre-Seed", "Seed", "Series A", "Series B", "Series C", "Series D+", "IPO", "Acquired", "Bootstrapped"];
+/** Dropdown options for a facet: values with matches (plus any still selected), labelled with their count. */
+function facetOptions(
+  counts: Record<string, number> | undefined,
+  selected: Set<string>,
+  label: (value: string) => string,
+  order?: string[]
+) {
+  const c = counts ?? {};
+  const values = new Set([...Object.keys(c), ...selected]);
+  const sorted = order
+    ? [...order, UNKNOWN_COUNTRY].filter((v) => values.has(v))
+    : [...values].sort((a, b) => (c[b] ?? 0) - (c[a] ?? 0));
+  return sorted.map((v) => ({ value: v, label: `${label(v)} (${(c[v] ?? 0).toLocaleString()})` }));
+}
+
+const countryLabel = (code: string) => {
+  if (code === UNKNOWN_COUNTRY) return "No country";
+  const country = countryByCode(code);
+  return country ? `${country.flag} ${country.name}` : code;
+};
+const regionLabel = (subregion: string) => (subregion === UNKNOWN_COUNTRY ? "No country" : subregion);
+
+// Hide people our own firm already backs unless asked
+const DEFAULT_CONFLICT_FILTERS = CONFLICT_STATUSES.filter((s) => s !== "portfolio");
+const DEFAULT_STAGE_FILTERS = ["Pre-Seed", "Seed", "Series A", "Series B", "Series C", "Bootstrapped"];
+
+/** What the table shows on a fresh visit. */
+const DEFAULT_VIEW: PeopleQuery = {
+  ...DEFAULT_PEOPLE_QUERY,
+  company: ["yes"],
+  conflicts: DEFAULT_CONFLICT_FILTERS,
+  stages: DEFAULT_STAGE_FILTERS,
+};
+
+/** The URL parameters for a query as the table links to it: no page size, and the page number when past the first. */
+function viewParams(query: PeopleQuery, page: number): URLSearchParams {
+  const params = peopleQueryToParams(query);
+  params.delete("limit");
+  if (page > 1) params.set("page", String(page));
+  return params;
+}
+
+const DEFAULT_VIEW_PARAMS = viewParams(DEFAULT_VIEW, 1).toString();
+
+/**
+ * Table state from a link. Links always carry `sort`, so without it this is a fresh visit; a link
+ * that doesn't parse also opens the default view.
+ */
+function readView(view: URLSearchParams | undefined): { query: PeopleQuery; page: number } {
+  if (!view?.has("sort")) return { query: DEFAULT_VIEW, page: 1 };
+  try {
+    const query = parsePeopleQuery(view);
+    const page = Number(view.get("page"));
+    return { query, page: query.cursor && Number.isInteger(page) && page > 1 ? page : 1 };
+  } catch {
+    return { query: DEFAULT_VIEW, page: 1 };
+  }
+}
+
+const FUNDING_RANGES: PeopleMetric[] = ["raised", "lastRound", "valuation"];
+
+const EXPORT_LINKS: { format: ExportFormat; label: string }[] = [
+  { format: "csv", label: "CSV" },
+  { format: "json", label: "JSON" },
+  { format: "md", label: "Markdown" },
+];
+
+/**
+ * Fetch one page from `/api/people`, keeping the previous page on screen until the next one lands.
+ * Bumping `version` refetches the same page.
+ */
+function usePeoplePage(query: PeopleQuery, version: number) {
+  const url = `/api/people?${peopleQueryToParams(query)}`;
+  const [result, setResult] = useState<{ url: string; page: PeoplePage | null; error: string | null } | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(url, { signal: controller.signal })
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        setResult({ url, page: body as PeoplePage, error: null });
+      })
+      .catch((err: Error) => {
+        if (!controller.signal.aborted) setResult({ url, page: null, error: err.message });
+      });
+    return () => controller.abort();
+  }, [url, version]);
+
+  return {
+    page: result?.page ?? null,
+    error: result?.url === url ? result.error : null,
+    loading: result?.url !== url,
+  };
+}
 
-export function DataTable({ data }: { data: Person[] }) {
-  const [sorting, setSorting] = useState<SortingState>([
-    { id: "outlierScore", desc: true },
-  ]);
-  const [columnFilters, setColumnFilters] = useState<ColumnFiltersState>([]);
-  const [companyFilter, setCompanyFilter] = useState<Set<string>>(new Set(["yes"]));
-  const [kvFilter, setKvFilter] = useState<Set<string>>(new Set(["no"]));
-  const [stageFilters, setStageFilters] = useState<Set<string>>(new Set(["Pre-Seed", "Seed", "Series A", "Series B", "Series C", "Bootstrapped"]));
-  const [spikeFilters, setSpikeFilters] = useState<Set<string>>(new Set());
+/** `initialView` is the page URL's query string minus `tab`; the table keeps the URL in step from then on. */
+export function DataTable({ initialView, recommendations }: { initialView?: URLSearchParams; recommendations: Recommendation[] }) {
+  const [initial] = useState(() => readView(initialView));
+  const [sorting, setSorting] = useState<SortingState>(
+    initial.query.sort === "relevance" ? [] : [{ id: initial.query.sort, desc: initial.query.desc }]
+  );
+  const [companyFilter, setCompanyFilter] = useState<Set<string>>(new Set(initial.query.company));
+  const [conflictFilters, setConflictFilters] = useState<Set<string>>(new Set(initial.query.conflicts));
+  const [stageFilters, setStageFilters] = useState<Set<string>>(new Set(initial.query.stages));
+  const [spikeFilters, setSpikeFilters] = useState<Set<string>>(new Set(initial.query.spikes));
+  const [categoryFilters, setCategoryFilters] = useState<Set<string>>(new Set(initial.query.categories));
+  const [categoryMode, setCategoryMode] = useState<CategoryMode>(initial.query.categoryMode);
+  const [investorFilters, setInvestorFilters] = useState<Set<string>>(new Set(initial.query.investors));
+  const [investorOptions, setInvestorOptions] = useState<InvestorSummary[]>([]);
+  const [countryFilters, setCountryFilters] = useState<Set<string>>(new Set(initial.query.countries));
+  const [regionFilters, setRegionFilters] = useState<Set<string>>(new Set(initial.query.regions));
+  const [rangeFilters, setRangeFilters] = useState<PeopleQuery["ranges"]>(initial.query.ranges);
+  const [scoring, setScoring] = useState<ScoringWeights | null>(initial.query.scoring);
+  const [statusFilters, setStatusFilters] = useState<Set<string>>(new Set(initial.query.statuses));
+  const [listFilter, setListFilter] = useState(initial.query.lists[0] ?? "");
+  const [networkFilters, setNetworkFilters] = useState<Set<string>>(new Set(initial.query.network));
   const [selectedPerson, setSelectedPerson] = useState<Person | null>(null);
+  const network = useMemo(() => recommendationsByHandle(recommendations), [recommendations]);
+  const selectedRec = selectedPerson ? personRecommendation(selectedPerson, network) : undefined;
+  const [searchInput, setSearchInput] = useState(initial.query.q);
+  const [search, setSearch] = useState(initial.query.q);
 
-  const hasActiveFilters = companyFilter.size > 0 || stageFilters.size > 0 || kvFilter.size > 0 || spikeFilters.size > 0;
+  // Debounce typing so each keystroke doesn't hit the API
+  useEffect(() => {
+    const t = setTimeout(() => setSearch(searchInput.trim()), 200);
+    return () => clearTimeout(t);
+  }, [searchInput]);
+  const searchTerms = queryTerms(search);
+
+  const onSearchChange = (value: string) => {
+    // A fresh search ranks by relevance until a column header is clicked
+    if (!searchInput.trim() && value.trim()) setSorting([]);
+    setSearchInput(value);
+  };
+
+  useEffect(() => {
+    fetch("/api/investors")
+      .then((res) => res.json())
+      .then((all: InvestorSummary[]) => setInvestorOptions(all.filter((i) => i.people > 0)))
+      .catch(() => setInvestorOptions([]));
+  }, []);
+
+  const hasActiveFilters = companyFilter.size > 0 || stageFilters.size > 0 || conflictFilters.size > 0 || spikeFilters.size > 0 || categoryFilters.size > 0 || investorFilters.size > 0 || countryFilters.size > 0 || regionFilters.size > 0 || statusFilters.size > 0 || listFilter !== "" || networkFilters.size > 0 || Object.keys(rangeFilters).length > 0;
+
+  const setRange = (metric: PeopleMetric, range: NumberRange | undefined) => {
+    const next = { ...rangeFilters };
+    if (range) next[metric] = range;
+    else delete next[metric];
+    setRangeFilters(next);
+  };
 
   const resetFilters = () => {
     setCompanyFilter(new Set(["yes"]));
-    setStageFilters(new Set(["Pre-Seed", "Seed", "Series A", "Series B", "Series C", "Bootstrapped"]));
-    setKvFilter(new Set(["no"]));
+    setStageFilters(new Set(DEFAULT_STAGE_FILTERS));
+    setConflictFilters(new Set(DEFAULT_CONFLICT_FILTERS));
+    setSpikeFilters(new Set());
+    setCategoryFilters(new Set());
+    setCategoryMode("any");
+    setInvestorFilters(new Set());
+    setCountryFilters(new Set());
+    setRegionFilters(new Set());
+    setStatusFilters(new Set());
+    setListFilter("");
+    setNetworkFilters(new Set());
+    setRangeFilters({});
+  };
+
+  // A list opens as its own table: every member, whatever the default filters would hide
+  const openList = (id: string) => {
+    setListFilter(id);
+    if (!id) return resetFilters();
+    setCompanyFilter(new Set());
+    setStageFilters(new Set());
+    setConflictFilters(new Set());
     setSpikeFilters(new Set());
+    setCategoryFilters(new Set());
+    setInvestorFilters(new Set());
+    setCountryFilters(new Set());
+    setRegionFilters(new Set());
+    setStatusFilters(new Set());
+    setNetworkFilters(new Set());
+    setRangeFilters({});
   };
 
-  const filteredData = useMemo(() => {
-    let d = data;
-    if (companyFilter.size > 0 && companyFilter.size < 2) {
-      if (companyFilter.has("yes")) d = d.filter((p) => p.company);
-      if (companyFilter.has("no")) d = d.filter((p) => !p.company);
-    }
-    if (kvFilter.size > 0 && kvFilter.size < 2) {
-      if (kvFilter.has("yes")) d = d.filter((p) => /khosla/i.test(p.investors || ""));
-      if (kvFilter.has("no")) d = d.filter((p) => !/khosla/i.test(p.investors || ""));
-    }
-    if (stageFilters.size > 0) d = d.filter((p) => stageFilters.has(p.fundingSeries));
-    if (spikeFilters.size > 0) d = d.filter((p) => {
-      const { tags } = parseSpikeTags(p.achievements || "");
-      return [...spikeFilters].every((f) => tags.includes(f));
-    });
-    return d;
-  }, [data, companyFilter, kvFilter, stageFilters, spikeFilters]);
+  const baseQuery: PeopleQuery = {
+    q: search,
+    company: [...companyFilter],
+    conflicts: [...conflictFilters],
+    stages: [...stageFilters],
+    spikes: [...spikeFilters],
+    categories: [...categoryFilters],
+    categoryMode,
+    investors: [...investorFilters],
+    countries: [...countryFilters],
+    regions: [...regionFilters],
+    statuses: [...statusFilters],
+    lists: listFilter ? [listFilter] : [],
+    network: [...networkFilters] as PeopleQuery["network"],
+    ranges: rangeFilters,
+    scoring,
+    sort: (sorting[0]?.id ?? (search ? "relevance" : "outlierScore")) as PeopleSortKey,
+    desc: sorting[0]?.desc ?? true,
+    cursor: null,
+    limit: DEFAULT_PAGE_SIZE,
+  };
+
+  // Cursors of the pages visited so far, from page `first` on; any filter or sort change starts over at page 1.
+  // A link to a later page knows only that page's cursor.
+  const baseKey = JSON.stringify(baseQuery);
+  const [pageCursors, setPageCursors] = useState<{ key: string; cursors: (string | null)[]; first: number }>({
+    key: baseKey,
+    cursors: [initial.query.cursor],
+    first: initial.page,
+  });
+  const { cursors, first } = pageCursors.key === baseKey ? pageCursors : { cursors: [null], first: 1 };
+  const pageIndex = cursors.length - 1;
+  const pageNumber = first + pageIndex;
+
+  const view = viewParams({ ...baseQuery, cursor: cursors[pageIndex] }, pageNumber);
+  useViewInUrl(view.toString() === DEFAULT_VIEW_PARAMS ? new URLSearchParams() : view);
+
+  const { pipeline, setStatus, error: pipelineError } = usePipeline();
+  const lists = useWatchlists();
+  const openedList = lists.watchlists.find((w) => w.id === listFilter);
+  // A status or list change can move people in or out of a filtered page
+  const [version, setVersion] = useState(0);
+  const setPersonStatus: typeof setStatus = async (key, stage, owner) => {
+    await setStatus(key, stage, owner);
+    if (statusFilters.size > 0) setVersion((v) => v + 1);
+  };
+  const personLists = {
+    ...lists,
+    setEntry: async (id: string, key: string, member: boolean) => {
+      await lists.setEntry(id, key, member);
+      if (listFilter) setVersion((v) => v + 1);
+    },
+  };
+
+  const { page, error, loading } = usePeoplePage({ ...baseQuery, cursor: cursors[pageIndex] }, version);
+  const rows = page?.items ?? [];
+  const pageCount = page ? Math.ceil(page.matched / DEFAULT_PAGE_SIZE) : 0;
+
+  const nextPage = () => {
+    if (page?.nextCursor) setPageCursors({ key: baseKey, cursors: [...cursors, page.nextCursor], first });
+  };
+  const previousPage = () => {
+    if (pageIndex > 0) setPageCursors({ key: baseKey, cursors: cursors.slice(0, -1), first });
+    else if (first > 1) setPageCursors({ key: baseKey, cursors: [null], first: 1 });
+  };
 
+  // Turning the custom score on ranks by it; turning it off drops that sort
+  const changeScoring = (next: ScoringWeights | null) => {
+    if (next && !scoring) setSorting([{ id: "custom", desc: true }]);
+    if (!next && sorting[0]?.id === "custom") setSorting([]);
+    setScoring(next);
+  };
 
   const table = useReactTable({
-    data: filteredData,
-    columns,
-    state: { sorting, columnFilters },
+    data: rows,
+    columns: scoring ? [columns[0], customScoreColumn(scoring), ...columns.slice(1)] : columns,
+    state: { sorting },
     onSortingChange: setSorting,
-    onColumnFiltersChange: setColumnFilters,
+    manualSorting: true,
+    manualPagination: true,
     getCoreRowModel: getCoreRowModel(),
-    getSortedRowModel: getSortedRowModel(),
-    getFilteredRowModel: getFilteredRowModel(),
-    getPaginationRowModel: getPaginationRowModel(),
-    initialState: { pagination: { pageSize: 100 } },
   });
 
+  // The export covers every matching row, not just this page, in the table's column order
+  const exportHref = (format: string) => {
+    const params = peopleQueryToParams(baseQuery);
+    params.delete("limit");
+    params.set("format", format);
+    params.set("columns", table.getAllLeafColumns().map((c) => c.id).join(","));
+    return `/api/people/export?${params}`;
+  };
 
   return (
-    <div className="space-y-4">
-      <blockquote className="border-l-2 border-muted-foreground/30 pl-3 text-sm italic text-muted-foreground">
-        &ldquo;Exceptionality in some dimension &mdash; top 1 basis point, or a Venn-diagram overlap of traits you almost never see together.&rdquo;
-        <span className="not-italic ml-2">&mdash; Vinod &amp; Keith</span>
-      </blockquote>
-
-      {/* Stats bar */}
-      <div className="flex gap-6 text-sm text-muted-foreground">
-        <span><strong className="text-foreground">{data.length.toLocaleString()}</strong> people</span>
-<span><strong className="text-foreground">{filteredData.length.toLocaleString()}</strong> showing</span>
-      </div>
+    <SearchTermsContext.Provider value={searchTerms}>
+      <PipelineContext.Provider value={pipeline}>
+        <WatchlistContext.Provider value={personLists}>
+          <div className="space-y-4">
+            <blockquote className="border-l-2 border-muted-foreground/30 pl-3 text-sm italic text-muted-foreground">
+              &ldquo;Exceptionality in some dimension &mdash; top 1 basis point, or a Venn-diagram overlap of traits you almost never see together.&rdquo;
+              <span className="not-italic ml-2">&mdash; Vinod &amp; Keith</span>
+            </blockquote>
 
-      {/* Filters */}
-      <div className="flex items-center gap-2 flex-wrap">
-        <MultiSelectDropdown
-          label="Company"
-          options={[
-            { value: "yes", label: "Yes" },
-            { value: "no", label: "No" },
-          ]}
-          selected={companyFilter}
-          onChange={setCompanyFilter}
-        />
-        <MultiSelectDropdown
-          label="KV"
-          options={[
-            { value: "yes", label: "Yes" },
-            { value: "no", label: "No" },
-          ]}
-          selected={kvFilter}
-          onChange={setKvFilter}
-        />
-        <MultiSelectDropdown
-          label="Stage"
-          options={STAGES.map((s) => ({ value: s, label: s }))}
-          selected={stageFilters}
-          onChange={setStageFilters}
-        />
-        <MultiSelectDropdown
-          label="Spikes"
-          options={SPIKE_TAGS.map((t) => ({ value: t.key, label: t.key }))}
-          selected={spikeFilters}
-          onChange={setSpikeFilters}
-        />
-        {hasActiveFilters && (
-          <button
-            onClick={resetFilters}
-            className="px-3 py-1.5 rounded-full text-sm text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
-          >
-            Reset
-          </button>
-        )}
-      </div>
+            {/* Stats bar */}
+            <div className="flex gap-6 text-sm text-muted-foreground">
+              <span><strong className="text-foreground">{(page?.total ?? 0).toLocaleString()}</strong> people</span>
+              <span><strong className="text-foreground">{(page?.matched ?? 0).toLocaleString()}</strong> showing</span>
+              {loading && <span>Loading&hellip;</span>}
+              {error && <span className="text-red-600">{error}</span>}
+              {pipelineError && <span className="text-red-600">{pipelineError}</span>}
+              {lists.error && <span className="text-red-600">{lists.error}</span>}
+              {page && page.matched > 0 && (
+                <span className="ml-auto flex items-center gap-2">
+                  Export
+                  {EXPORT_LINKS.map(({ format, label }) => (
+                    <a key={format} href={exportHref(format)} download className="text-blue-600 hover:underline">{label}</a>
+                  ))}
+                </span>
+              )}
+            </div>
 
-      {/* Spike legend — desktop only */}
-      <div className="hidden md:flex items-center gap-3 text-xs text-muted-foreground mb-2">
-        <span className="font-medium">Spike types:</span>
-        {SPIKE_TAGS.map((t) => (
-          <span key={t.key} className="flex items-center gap-1">
-            <span className={`inline-flex items-center justify-center w-4 h-4 rounded text-[10px] font-medium ${t.color}`}>{t.char}</span>
-            {t.key}
-          </span>
-        ))}
-        <span className="ml-4 text-muted-foreground/60">|</span>
-        <span className="ml-4">Outlier = peak spike rarity (top of any single domain)</span>
-      </div>
+            {openedList && <WatchlistHeader key={openedList.id} list={openedList} onDeleted={() => openList("")} />}
 
-      {/* Mobile card list */}
-      <div className="md:hidden space-y-2 overflow-auto" style={{ maxHeight: "calc(100vh - 280px)" }}>
-        {table.getRowModel().rows.length ? (
-          table.getRowModel().rows.map((row) => {
-            const p = row.original;
-            const clean = p.twitter ? p.twitter.replace(/^@/, "") : "";
-            const avatarUrl = clean ? `https://unavatar.io/x/${clean}` : null;
-            const { tags } = parseSpikeTags(p.achievements || "");
-            return (
-              <div
-                key={row.id}
-                onClick={() => setSelectedPerson(p)}
-                className={`border rounded-lg p-3 cursor-pointer active:bg-muted/60 ${
-                  p.outlierScore >= 90 ? "bg-green-50/50" : ""
-                }`}
+            {/* Filters */}
+            <div className="flex items-center gap-2 flex-wrap">
+              <select
+                value={listFilter}
+                onChange={(e) => openList(e.target.value)}
+                className={`h-8 px-2 rounded-md border text-sm cursor-pointer bg-background ${listFilter ? "border-foreground/30 text-foreground" : "text-muted-foreground"}`}
               >
-                <div className="flex items-start gap-3">
-                  {avatarUrl ? (
-                    <img src={avatarUrl} alt="" className="w-10 h-10 rounded-full flex-shrink-0 bg-muted" loading="lazy" onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }} />
-                  ) : (
-                    <div className="w-10 h-10 rounded-full flex-shrink-0 bg-muted" />
-                  )}
-                  <div className="min-w-0 flex-1">
-                    <div className="flex items-center gap-2">
-                      <ScoreBadge score={p.outlierScore} palette="blue" />
-                      {clean ? (
-                        <a href={`https://x.com/${clean}`} target="_blank" rel="noopener noreferrer" className="font-medium text-sm text-blue-600 truncate" onClick={(e) => e.stopPropagation()}>{p.name}</a>
-                      ) : (
-                        <span className="font-medium text-sm truncate">{p.name}</span>
-                      )}
-                    </div>
-                    {p.company && (
-                      <div className="text-xs text-muted-foreground mt-0.5 truncate">{p.company}{p.fundingSeries ? ` · ${p.fundingSeries}` : ""}</div>
-                    )}
-                    <div className="flex items-center gap-1 mt-1">
-                      {tags.map((tag) => (
-                        <span key={tag} className={`inline-flex items-center justify-center w-5 h-5 rounded text-xs font-medium ${(SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700")}`}>{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>
-                      ))}
-                      {p.currentActivity && <span className="text-xs text-muted-foreground truncate ml-1">{p.currentActivity}</span>}
-                    </div>
-                  </div>
-                </div>
-              </div>
-            );
-          })
-        ) : (
-          <div className="text-center text-muted-foreground py-8">No results.</div>
-        )}
-      </div>
-
-      {/* Desktop table */}
-      <div className="hidden md:block border rounded-lg overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 220px)" }}>
-        <Table className="table-fixed min-w-[1060px]">
-          <TableHeader className="sticky top-0 z-10 bg-background">
-            {table.getHeaderGroups().map((headerGroup) => (
-              <TableRow key={headerGroup.id}>
-                {headerGroup.headers.map((header) => (
-                  <TableHead
-                    key={header.id}
-                    style={{ width: header.getSize() }}
-                    className={`${header.column.getCanSort() ? "cursor-pointer select-none hover:bg-muted/50" : ""} bg-background`}
-                    onClick={header.column.getToggleSortingHandler()}
-                  >
-                    <div className="flex items-center gap-1">
-                      {flexRender(header.column.columnDef.header, header.getContext())}
-                      {{ asc: " \u2191", desc: " \u2193" }[header.column.getIsSorted() as string] ?? ""}
-                    </div>
-                  </TableHead>
+                <option value="">All people</option>
+                {lists.watchlists.map((w) => (
+                  <option key={w.id} value={w.id}>★ {w.name} ({w.entries.length})</option>
                 ))}
-              </TableRow>
-            ))}
-          </TableHeader>
-          <TableBody>
-            {table.getRowModel().rows.length ? (
-              table.getRowModel().rows.map((row) => (
-                <TableRow
-                  key={row.id}
-                  onClick={() => setSelectedPerson(row.original)}
-                  className={`cursor-pointer hover:bg-muted/60 ${
-                    row.original.outlierScore >= 90 ? "bg-green-50/50" : ""
-                  }`}
+              </select>
+              <Input
+                type="search"
+                value={searchInput}
+                onChange={(e) => onSearchChange(e.target.value)}
+                placeholder="Search name, company, achievements, notes…"
+                className="w-full md:w-72 h-8"
+              />
+              <MultiSelectDropdown
+                label="Company"
+                options={[
+                  { value: "yes", label: "Yes" },
+                  { value: "no", label: "No" },
+                ]}
+                selected={companyFilter}
+                onChange={setCompanyFilter}
+              />
+              <MultiSelectDropdown
+                label="Conflict"
+                options={CONFLICT_STATUSES.map((s) => ({ value: s, label: CONFLICT_STATUS_META[s].label }))}
+                selected={conflictFilters}
+                onChange={setConflictFilters}
+              />
+              <MultiSelectDropdown
+                label="Stage"
+                options={STAGES.map((s) => ({ value: s, label: s }))}
+                selected={stageFilters}
+                onChange={setStageFilters}
+              />
+              <MultiSelectDropdown
+                label="Spikes"
+                options={SPIKE_TAGS.map((t) => ({ value: t.key, label: t.key }))}
+                selected={spikeFilters}
+                onChange={setSpikeFilters}
+              />
+              <MultiSelectDropdown
+                label="Categories"
+                options={facetOptions(page?.facets.category, categoryFilters, categoryLabel)}
+                selected={categoryFilters}
+                onChange={setCategoryFilters}
+              />
+              {categoryFilters.size > 1 && (
+                <button
+                  onClick={() => setCategoryMode(categoryMode === "any" ? "all" : "any")}
+                  title="Match people in any of the picked categories, or only those in all of them"
+                  className="px-2 py-1.5 rounded-md border text-xs font-medium cursor-pointer hover:bg-muted"
                 >
-                  {row.getVisibleCells().map((cell) => (
-                    <TableCell key={cell.id} className="overflow-hidden py-1.5 px-2" style={{ width: cell.column.getSize() }}>
-                      {flexRender(cell.column.columnDef.cell, cell.getContext())}
-                    </TableCell>
-                  ))}
-                </TableRow>
-              ))
-            ) : (
-              <TableRow>
-                <TableCell colSpan={columns.length} className="h-24 text-center">
-                  No results.
-                </TableCell>
-              </TableRow>
-            )}
-          </TableBody>
-        </Table>
-      </div>
+                  {categoryMode === "any" ? "Any of" : "All of"}
+                </button>
+              )}
+              <MultiSelectDropdown
+                label="Investors"
+                options={investorOptions.map((i) => ({ value: i.slug, label: `${i.name} (${i.people})` }))}
+                selected={investorFilters}
+                onChange={setInvestorFilters}
+              />
+              <MultiSelectDropdown
+                label="Region"
+                options={facetOptions(page?.facets.region, regionFilters, regionLabel, Object.keys(SUBREGIONS))}
+                selected={regionFilters}
+                onChange={setRegionFilters}
+              />
+              <MultiSelectDropdown
+                label="Country"
+                options={facetOptions(page?.facets.country, countryFilters, countryLabel)}
+                selected={countryFilters}
+                onChange={setCountryFilters}
+              />
+              <MultiSelectDropdown
+                label="Status"
+                options={PIPELINE_FILTER_OPTIONS}
+                selected={statusFilters}
+                onChange={setStatusFilters}
+              />
+              <MultiSelectDropdown
+                label="Network"
+                options={NETWORK_FILTERS.map((f) => ({ value: f, label: NETWORK_FILTER_LABELS[f] }))}
+                selected={networkFilters}
+                onChange={setNetworkFilters}
+              />
+              <ScoringPanel weights={scoring} onChange={changeScoring} facets={page?.facets} />
+              {SCORE_METRICS.map((metric) => (
+                <RangeFilter
+                  key={metric}
+                  label={PEOPLE_METRIC_LABELS[metric]}
+                  unit=""
+                  value={rangeFilters[metric]}
+                  onChange={(range) => setRange(metric, range)}
+                  histogram={page?.histograms[metric]}
+                />
+              ))}
+              {FUNDING_RANGES.map((metric) => (
+                <RangeFilter
+                  key={metric}
+                  label={PEOPLE_METRIC_LABELS[metric]}
+                  unit="$M"
+                  scale={1e6}
+                  value={rangeFilters[metric]}
+                  onChange={(range) => setRange(metric, range)}
+                />
+              ))}
+              {hasActiveFilters && (
+                <button
+                  onClick={resetFilters}
+                  className="px-3 py-1.5 rounded-full text-sm text-muted-foreground hover:text-foreground transition-colors cursor-pointer"
+                >
+                  Reset
+                </button>
+              )}
+            </div>
 
-      {/* Pagination */}
-      <div className="flex items-center justify-between">
-        <div className="text-sm text-muted-foreground">
-          Page {table.getState().pagination.pageIndex + 1} of {table.getPageCount()}
-        </div>
-        <div className="flex gap-2">
-          <button
-            onClick={() => table.previousPage()}
-            disabled={!table.getCanPreviousPage()}
-            className="px-3 py-1.5 border rounded-md text-sm disabled:opacity-40 hover:bg-muted cursor-pointer disabled:cursor-default"
-          >
-            Prev
-          </button>
-          <button
-            onClick={() => table.nextPage()}
-            disabled={!table.getCanNextPage()}
-            className="px-3 py-1.5 border rounded-md text-sm disabled:opacity-40 hover:bg-muted cursor-pointer disabled:cursor-default"
-          >
-            Next
-          </button>
-        </div>
-      </div>
+            {/* Spike legend — desktop only */}
+            <div className="hidden md:flex items-center gap-3 text-xs text-muted-foreground mb-2">
+              <span className="font-medium">Spike types:</span>
+              {SPIKE_TAGS.map((t) => (
+                <span key={t.key} className="flex items-center gap-1">
+                  <span className={`inline-flex items-center justify-center w-4 h-4 rounded text-[10px] font-medium ${t.color}`}>{t.char}</span>
+                  {t.key}
+                </span>
+              ))}
+              <span className="ml-4 text-muted-foreground/60">|</span>
+              <span className="ml-4">Outlier = peak spike rarity (top of any single domain)</span>
+            </div>
 
-      {/* Person detail modal */}
-      <Dialog open={!!selectedPerson} onOpenChange={(open) => !open && setSelectedPerson(null)}>
-        <DialogContent className="max-h-[85vh] overflow-y-auto">
-          {selectedPerson && (
-            <>
-              <DialogTitle className="text-xl">{selectedPerson.name}</DialogTitle>
-              <div className="mt-4 space-y-4">
-                {/* Score */}
-                <div className="rounded-lg bg-muted p-3 inline-flex flex-col">
-                  <div className="text-xs text-muted-foreground mb-1">Outlier Score</div>
-                  <div className="text-2xl font-bold">{selectedPerson.outlierScore}</div>
-                </div>
-
-                {/* Key info */}
-                <div className="space-y-3">
-                  {selectedPerson.company && (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Company</div>
-                      <div className="flex items-center gap-1.5">
-                        {selectedPerson.companyUrl && (() => { try { const d = new URL(selectedPerson.companyUrl).hostname; return <img src={`https://www.google.com/s2/favicons?sz=16&domain=${d}`} alt="" width={16} height={16} className="shrink-0 rounded-sm" />; } catch { return null; } })()}
-                        {selectedPerson.companyUrl ? (
-                          <a href={selectedPerson.companyUrl} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline">{selectedPerson.company}</a>
-                        ) : (
-                          <div className="text-sm font-medium">{selectedPerson.company}</div>
-                        )}
+            {/* Mobile card list */}
+            <div className="md:hidden space-y-2 overflow-auto" style={{ maxHeight: "calc(100vh - 280px)" }}>
+              {table.getRowModel().rows.length ? (
+                table.getRowModel().rows.map((row) => {
+                  const p = row.original;
+                  const clean = p.twitter ? p.twitter.replace(/^@/, "") : "";
+                  const { tags } = parseSpikeTags(p.achievements || "");
+                  const rec = personRecommendation(p, network);
+                  return (
+                    <div
+                      key={row.id}
+                      onClick={() => setSelectedPerson(p)}
+                      className={`border rounded-lg p-3 cursor-pointer active:bg-muted/60 ${
+                        p.outlierScore >= 90 ? "bg-green-50/50" : ""
+                      }`}
+                    >
+                      <div className="flex items-start gap-3">
+                        <PersonAvatar twitter={p.twitter} className="w-10 h-10" />
+                        <div className="min-w-0 flex-1">
+                          <div className="flex items-center gap-2">
+                            <ScoreBadge score={p.outlierScore} palette="blue" />
+                            {clean ? (
+                              <a href={`https://x.com/${clean}`} target="_blank" rel="noopener noreferrer" className="font-medium text-sm text-blue-600 truncate" onClick={(e) => e.stopPropagation()}><Highlight text={p.name} /></a>
+                            ) : (
+                              <span className="font-medium text-sm truncate"><Highlight text={p.name} /></span>
+                            )}
+                            {rec && <NetworkBadge hubCount={rec.hub_count} />}
+                          </div>
+                          {p.company && (
+                            <div className="text-xs text-muted-foreground mt-0.5 truncate">{p.company}{p.fundingSeries ? ` · ${p.fundingSeries}` : ""}</div>
+                          )}
+                          <div className="flex items-center gap-1 mt-1">
+                            <SpikeChips tags={tags} />
+                            {p.currentActivity && <span className="text-xs text-muted-foreground truncate ml-1"><Highlight text={p.currentActivity} /></span>}
+                          </div>
+                        </div>
                       </div>
                     </div>
-                  )}
-                  {selectedPerson.currentActivity && (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Current Activity</div>
-                      <div className="text-sm">{selectedPerson.currentActivity}</div>
-                    </div>
-                  )}
-                  {selectedPerson.fundingSeries && (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Funding Stage</div>
-                      <div className="text-sm font-medium">{selectedPerson.fundingSeries}</div>
-                    </div>
-                  )}
-                  {selectedPerson.investors && (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Investors</div>
-                      <div className="text-sm">{selectedPerson.investors}</div>
-                    </div>
-                  )}
-                  {selectedPerson.fundingInfo && (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Funding</div>
-                      <div className="text-sm">{selectedPerson.fundingInfo}</div>
-                    </div>
-                  )}
-                </div>
-
-                {/* Meta row */}
-                <div className="flex items-center gap-4 text-sm">
-                  {selectedPerson.twitter && (
-                    <a
-                      href={`https://x.com/${selectedPerson.twitter.replace("@", "")}`}
-                      target="_blank"
-                      rel="noopener noreferrer"
-                      className="text-blue-600 hover:underline"
-                    >
-                      {selectedPerson.twitter}
-                    </a>
-                  )}
-                  {selectedPerson.country && (
-                    <span className="text-muted-foreground">{countryFlag(selectedPerson.country)} {selectedPerson.country}</span>
-                  )}
-                </div>
-
-                {/* Achievements */}
-                {selectedPerson.achievements && (() => {
-                  const { tags, rest } = parseSpikeTags(selectedPerson.achievements);
-                  return (
-                    <div>
-                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Achievements / Spikes</div>
-                      {tags.length > 0 && (
-                        <div className="flex flex-wrap gap-1 mb-2">
-                          {tags.map((tag) => (
-                            <span key={tag} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${(SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700")}`}><span className="font-bold">{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>{tag}</span>
+                  );
+                })
+              ) : (
+                <div className="text-center text-muted-foreground py-8">{page ? "No results." : "Loading\u2026"}</div>
+              )}
+            </div>
+
+            {/* Desktop table */}
+            <div className="hidden md:block border rounded-lg overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 220px)" }}>
+              <Table className={`table-fixed ${scoring ? "min-w-[1742px]" : "min-w-[1682px]"}`}>
+                <TableHeader className="sticky top-0 z-10 bg-background">
+                  {table.getHeaderGroups().map((headerGroup) => (
+                    <TableRow key={headerGroup.id}>
+                      {headerGroup.headers.map((header) => (
+                        <TableHead
+                          key={header.id}
+                          style={{ width: header.getSize() }}
+                          className={`${header.column.getCanSort() ? "cursor-pointer select-none hover:bg-muted/50" : ""} bg-background`}
+                          onClick={header.column.getToggleSortingHandler()}
+                        >
+                          <div className="flex items-center gap-1">
+                            {flexRender(header.column.columnDef.header, header.getContext())}
+                            {{ asc: " \u2191", desc: " \u2193" }[header.column.getIsSorted() as string] ?? ""}
+                          </div>
+                        </TableHead>
+                      ))}
+                    </TableRow>
+                  ))}
+                </TableHeader>
+                <NetworkContext.Provider value={network}>
+                  <TableBody>
+                    {table.getRowModel().rows.length ? (
+                      table.getRowModel().rows.map((row) => (
+                        <TableRow
+                          key={row.id}
+                          onClick={() => setSelectedPerson(row.original)}
+                          className={`cursor-pointer hover:bg-muted/60 ${
+                            row.original.outlierScore >= 90 ? "bg-green-50/50" : ""
+                          }`}
+                        >
+                          {row.getVisibleCells().map((cell) => (
+                            <TableCell key={cell.id} className="overflow-hidden py-1.5 px-2" style={{ width: cell.column.getSize() }}>
+                              {flexRender(cell.column.columnDef.cell, cell.getContext())}
+                            </TableCell>
                           ))}
+                        </TableRow>
+                      ))
+                    ) : (
+                      <TableRow>
+                        <TableCell colSpan={table.getVisibleLeafColumns().length} className="h-24 text-center">
+                          {page ? "No results." : "Loading\u2026"}
+                        </TableCell>
+                      </TableRow>
+                    )}
+                  </TableBody>
+                </NetworkContext.Provider>
+              </Table>
+            </div>
+
+            {/* Pagination */}
+            <div className="flex items-center justify-between">
+              <div className="text-sm text-muted-foreground">
+                Page {pageNumber} of {pageCount}
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={previousPage}
+                  disabled={pageNumber === 1 || loading}
+                  className="px-3 py-1.5 border rounded-md text-sm disabled:opacity-40 hover:bg-muted cursor-pointer disabled:cursor-default"
+                >
+                  {pageIndex === 0 && first > 1 ? "First" : "Prev"}
+                </button>
+                <button
+                  onClick={nextPage}
+                  disabled={!page?.nextCursor || loading}
+                  className="px-3 py-1.5 border rounded-md text-sm disabled:opacity-40 hover:bg-muted cursor-pointer disabled:cursor-default"
+                >
+                  Next
+                </button>
+              </div>
+            </div>
+
+            {/* Person detail modal */}
+            <Dialog open={!!selectedPerson} onOpenChange={(open) => !open && setSelectedPerson(null)}>
+              <DialogContent className="max-h-[85vh] overflow-y-auto">
+                {selectedPerson && (
+                  <>
+                    <DialogTitle className="text-xl"><Highlight text={selectedPerson.name} /></DialogTitle>
+                    <Link href={`/people/${selectedPerson.id}`} className="text-sm text-blue-600 hover:underline">Full profile &rarr;</Link>
+                    <div className="mt-4 space-y-4">
+                      {/* Scores */}
+                      <div className="flex flex-wrap gap-2">
+                        {SCORE_METRICS.map((metric) => (
+                          <div key={metric} className="rounded-lg bg-muted p-3 inline-flex flex-col">
+                            <div className="text-xs text-muted-foreground mb-1">{PEOPLE_METRIC_LABELS[metric]}</div>
+                            <div className="text-2xl font-bold">{Math.round(selectedPerson[metric] * 10) / 10}</div>
+                          </div>
+                        ))}
+                        {selectedRec && (
+                          <div className="rounded-lg bg-emerald-50 p-3 inline-flex flex-col" title={`Followed by ${selectedRec.hub_count} of the Twitter seed accounts`}>
+                            <div className="text-xs text-emerald-700 mb-1">Twitter mutual</div>
+                            <div className="text-2xl font-bold text-emerald-700">{selectedRec.hub_count}</div>
+                          </div>
+                        )}
+                      </div>
+
+                      <div>
+                        <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Pipeline</div>
+                        <PipelineControls key={selectedPerson.id} recordKey={personKey(selectedPerson.id)} owners={pipelineOwners(pipeline)} onChange={setPersonStatus} />
+                      </div>
+
+                      <div>
+                        <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Lists</div>
+                        <WatchlistPicker subjectKey={personKey(selectedPerson.id)} />
+                      </div>
+
+                      {selectedPerson.categories.length > 0 && (
+                        <div>
+                          <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Categories</div>
+                          <div className="flex flex-wrap gap-1">
+                            <CategoryChips categories={personCategories(selectedPerson)} />
+                          </div>
                         </div>
                       )}
-                      {rest && (
-                        <div className="space-y-1">
-                          {rest.split(" | ").filter(Boolean).map((item, i) => (
-                            <div key={i} className="text-sm pl-3 border-l-2 border-muted-foreground/20">{item}</div>
-                          ))}
+
+                      {/* Key info */}
+                      <div className="space-y-3">
+                        {selectedPerson.company && (
+                          <div>
+                            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Company</div>
+                            <div className="flex items-center gap-1.5">
+                              {selectedPerson.companyUrl && hostOf(selectedPerson.companyUrl) && <img src={`https://www.google.com/s2/favicons?sz=16&domain=${hostOf(selectedPerson.companyUrl)}`} alt="" width={16} height={16} className="shrink-0 rounded-sm" />}
+                              {selectedPerson.companyUrl ? (
+                                <a href={selectedPerson.companyUrl} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:text-blue-800 hover:underline"><Highlight text={selectedPerson.company} /></a>
+                              ) : (
+                                <div className="text-sm font-medium"><Highlight text={selectedPerson.company} /></div>
+                              )}
+                            </div>
+                          </div>
+                        )}
+                        {selectedPerson.currentActivity && (
+                          <div>
+                            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Current Activity</div>
+                            <div className="text-sm"><Highlight text={selectedPerson.currentActivity} /></div>
+                          </div>
+                        )}
+                        {selectedPerson.fundingSeries && (
+                          <div>
+                            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Funding Stage</div>
+                            <div className="flex items-center gap-2 text-sm">
+                              <StageBadge value={selectedPerson.fundingSeries} />
+                              {(() => {
+                                const info = parseStage(selectedPerson.fundingSeries);
+                                return info && info.status !== "private" && info.round && <span className="text-muted-foreground">after {info.round}</span>;
+                              })()}
+                            </div>
+                          </div>
+                        )}
+                        {selectedPerson.investors && (() => {
+                          const investors = parseInvestors(selectedPerson.investors);
+                          return (
+                            <div>
+                              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Investors</div>
+                              {investors.length > 0 ? (
+                                <div className="flex flex-wrap gap-1">
+                                  {investors.map((i) => (
+                                    <Link key={i.slug} href={`/investors/${i.slug}`} className="inline-flex px-2 py-0.5 rounded bg-muted text-xs font-medium hover:bg-muted-foreground/15">
+                                      <Highlight text={i.name} />
+                                    </Link>
+                                  ))}
+                                </div>
+                              ) : (
+                                <div className="text-sm"><Highlight text={selectedPerson.investors} /></div>
+                              )}
+                            </div>
+                          );
+                        })()}
+                        {selectedPerson.fundingInfo && (() => {
+                          const facts = parseFunding(selectedPerson.fundingInfo);
+                          const summary = fundingSummary(facts);
+                          return (
+                            <div>
+                              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Funding</div>
+                              <div className="text-sm">{selectedPerson.fundingInfo}</div>
+                              {summary.length > 0 && (
+                                <div className="flex flex-wrap items-center gap-1 mt-1">
+                                  {summary.map((s) => (
+                                    <span key={s} className="inline-flex px-2 py-0.5 rounded bg-muted text-xs font-medium">{s}</span>
+                                  ))}
+                                  <span className="text-xs text-muted-foreground ml-1">{facts.confidence} confidence</span>
+                                </div>
+                              )}
+                            </div>
+                          );
+                        })()}
+                        {(() => {
+                          const { status, matches } = evaluateConflicts(selectedPerson.investors);
+                          const meta = CONFLICT_STATUS_META[status];
+                          return (
+                            <div>
+                              <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Conflict</div>
+                              <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${meta.color}`}>{meta.label}</span>
+                              {matches.length > 0 && (
+                                <ul className="mt-1 space-y-0.5">
+                                  {matches.map((m) => (
+                                    <li key={m.rule.id} className="text-sm text-muted-foreground">{describeConflict(m)}</li>
+                                  ))}
+                                </ul>
+                              )}
+                            </div>
+                          );
+                        })()}
+                      </div>
+
+                      {/* Meta row */}
+                      <div className="flex items-center gap-4 text-sm">
+                        {selectedPerson.twitter && (
+                          <a
+                            href={`https://x.com/${selectedPerson.twitter.replace("@", "")}`}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="text-blue-600 hover:underline"
+                          >
+                            <Highlight text={selectedPerson.twitter} />
+                          </a>
+                        )}
+                        {selectedPerson.country && (() => {
+                          const countries = resolveCountries(selectedPerson.country);
+                          if (countries.length === 0) return <span className="text-muted-foreground">{selectedPerson.country}</span>;
+                          return (
+                            <span className="text-muted-foreground">
+                              {countries.map((c) => `${c.flag} ${c.name}`).join(" / ")}
+                              <span className="text-muted-foreground/60"> &middot; {[...new Set(countries.map((c) => c.subregion))].join(", ")}</span>
+                            </span>
+                          );
+                        })()}
+                      </div>
+
+                      {/* Achievements */}
+                      {selectedPerson.achievements && (() => {
+                        const { tags, rest } = parseSpikeTags(selectedPerson.achievements);
+                        return (
+                          <div>
+                            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Achievements / Spikes</div>
+                            {tags.length > 0 && (
+                              <div className="flex flex-wrap gap-1 mb-2">
+                                {tags.map((tag) => (
+                                  <span key={tag} className={`inline-flex items-center gap-1 px-2 py-0.5 rounded text-xs font-medium ${(SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700")}`}><span className="font-bold">{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>{tag}</span>
+                                ))}
+                              </div>
+                            )}
+                            {rest && (
+                              <div className="space-y-1">
+                                {rest.split(" | ").filter(Boolean).map((item, i) => (
+                                  <div key={i} className="text-sm pl-3 border-l-2 border-muted-foreground/20"><Highlight text={item} /></div>
+                                ))}
+                              </div>
+                            )}
+                          </div>
+                        );
+                      })()}
+
+                      {/* Scouting notes that came with the dataset */}
+                      {selectedPerson.notes && (
+                        <div>
+                          <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Scout notes</div>
+                          <div className="text-sm whitespace-pre-line"><Highlight text={selectedPerson.notes} /></div>
                         </div>
                       )}
-                    </div>
-                  );
-                })()}
 
-              </div>
-            </>
-          )}
-        </DialogContent>
-      </Dialog>
-    </div>
+                      <SubjectNotes key={selectedPerson.id} subjectKey={personKey(selectedPerson.id)} />
+                    </div>
+                  </>
+                )}
+              </DialogContent>
+            </Dialog>
+          </div>
+        </WatchlistContext.Provider>
+      </PipelineContext.Provider>
+    </SearchTermsContext.Provider>
   );
 }
@@ -0,0 +1,31 @@
+"use client";
+
+import { createContext, useContext, type ReactNode } from "react";
+import { matchesTerm, normalizeWord } from "@/lib/people-search";
+
+/** Normalized terms of the active search; every `<Highlight>` below the provider marks them. */
+export const SearchTermsContext = createContext<string[]>([]);
+
+/** Render `text` with words hit by the current search terms wrapped in `<mark>`. */
+export function Highlight({ text }: { text: string }) {
+  const terms = useContext(SearchTermsContext);
+  if (terms.length === 0 || !text) return <>{text}</>;
+
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const word = normalizeWord(m[0]);
+    if (!terms.some((t) => matchesTerm(word, t))) continue;
+    const start = m.index!;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <mark key={start} className="bg-yellow-200/70 text-inherit rounded-sm">
+        {m[0]}
+      </mark>
+    );
+    last = start + m[0].length;
+  }
+  if (parts.length === 0) return <>{text}</>;
+  if (last < text.length) parts.push(text.slice(last));
+  return <>{parts}</>;
+}
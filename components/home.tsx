@@ -0,0 +1,128 @@
+"use client";
+
+import { useState } from "react";
+import Link from "next/link";
+import { DataTable } from "@/components/data-table";
+import { NetworkTab } from "@/components/network-tab";
+import { PipelineBoard } from "@/components/pipeline-board";
+import { ViewsMenu } from "@/components/views-menu";
+import { RareCombos } from "@/components/rare-combos";
+import { parseViewHref, viewHref, type ViewTab } from "@/lib/views";
+import type { GraphData } from "@/lib/graph-types";
+import type { NetworkCompany } from "@/lib/types";
+
+interface Props {
+  /** The page URL's query string */
+  query: string;
+  /** The Twitter graph and network companies, checked on the server and passed down */
+  graphData: GraphData;
+  networkCompanies: Record<string, NetworkCompany>;
+}
+
+/** The tabbed home page: the people table, the Twitter network, the pipeline board and rare combinations. */
+export function Home({ query, graphData, networkCompanies }: Props) {
+  // The URL's view seeds the tab once; after that the tab's own state is the source and it writes
+  // the URL back. `key` remounts the tab when a saved view replaces it.
+  const [view, setView] = useState(() => ({ ...parseViewHref(query), key: 0 }));
+  const tab = view.tab;
+
+  const openView = (next: ViewTab, params: string) => {
+    setView({ tab: next, params: new URLSearchParams(params), key: view.key + 1 });
+    window.history.replaceState(window.history.state, "", viewHref(next, params));
+  };
+  const setTab = (next: ViewTab) => openView(next, "");
+
+  return (
+    <main className="min-h-screen flex flex-col max-w-[1600px] mx-auto">
+      {/* Header + tabs */}
+      <div className="flex-none px-4 pt-4 pb-0 md:px-6 md:pt-6">
+        <div className="flex items-end justify-between mb-3 md:mb-4">
+          <div>
+            <h1 className="text-xl md:text-2xl font-bold">Find founders off your radar</h1>
+            <p className="text-muted-foreground text-sm">
+              Exceptional builders sourced from outlier signals and Twitter social graph
+            </p>
+          </div>
+          <div className="flex items-center gap-4">
+            <ViewsMenu onOpen={(v) => openView(v.tab, v.query)} />
+            <Link href="/investors" className="text-sm text-muted-foreground hover:text-foreground">
+              Investors
+            </Link>
+            <Link href="/companies" className="text-sm text-muted-foreground hover:text-foreground">
+              Companies
+            </Link>
+            <Link href="/import" className="text-sm text-muted-foreground hover:text-foreground">
+              Import
+            </Link>
+            <Link href="/duplicates" className="text-sm text-muted-foreground hover:text-foreground">
+              Duplicates
+            </Link>
+          </div>
+        </div>
+
+        {/* Tab bar */}
+        <div className="flex items-center gap-1 border-b">
+          <button
+            onClick={() => setTab("people")}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+              tab === "people"
+                ? "border-gray-900 text-gray-900"
+                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+            }`}
+          >
+            Outliers
+          </button>
+          <button
+            onClick={() => setTab("network")}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+              tab === "network"
+                ? "border-gray-900 text-gray-900"
+                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+            }`}
+          >
+            Twitter
+          </button>
+          <button
+            onClick={() => setTab("pipeline")}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+              tab === "pipeline"
+                ? "border-gray-900 text-gray-900"
+                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+            }`}
+          >
+            Pipeline
+          </button>
+          <button
+            onClick={() => setTab("combos")}
+            className={`px-4 py-2 text-sm font-medium border-b-2 transition-colors cursor-pointer ${
+              tab === "combos"
+                ? "border-gray-900 text-gray-900"
+                : "border-transparent text-gray-500 hover:text-gray-700 hover:border-gray-300"
+            }`}
+          >
+            Rare combos
+          </button>
+        </div>
+      </div>
+
+      {/* Content */}
+      {tab === "people" ? (
+        <div className="flex-1 p-4 md:p-6">
+          <DataTable key={view.key} initialView={view.params} recommendations={graphData.recommendations} />
+        </div>
+      ) : tab === "network" ? (
+        <div className="flex-1 overflow-hidden p-4 md:p-6" style={{ height: "calc(100vh - 120px)" }}>
+          <NetworkTab key={view.key} initialView={view.params} data={graphData} networkCompanies={networkCompanies} />
+        </div>
+      ) : tab === "pipeline" ? (
+        <div className="flex-1 p-4 md:p-6">
+          <PipelineBoard recommendations={graphData.recommendations} />
+        </div>
+      ) : (
+        <div className="flex-1 p-4 md:p-6">
+          <RareCombos onDrill={(params) => openView("people", params.toString())} />
+        </div>
+      )}
+    </main>
+  );
+}
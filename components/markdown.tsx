@@ -0,0 +1,99 @@
+import type { ReactNode } from "react";
+import { MENTION_RE, resolveMention } from "@/lib/notes";
+
+// `code`, **bold**, *italic* or _italic_, [label](url), bare URLs
+const INLINE_RE = /`([^`]+)`|\*\*(.+?)\*\*|\*(.+?)\*|\b_(.+?)_\b|\[([^\]]+)\]\(([^)\s]+)\)|(https?:\/\/[^\s<]+[^\s<.,;:!?)\]'"])/g;
+
+function linkTo(href: string, label: ReactNode, key: number) {
+  // No javascript: or data: links
+  if (!/^https?:\/\//i.test(href)) return <span key={key}>{label}</span>;
+  return (
+    <a key={key} href={href} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+      {label}
+    </a>
+  );
+}
+
+/** Mark @-mentions of known teammates inside plain text. */
+function withMentions(text: string, teammates: string[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(MENTION_RE)) {
+    const name = resolveMention(m[2], teammates);
+    if (!name) continue;
+    const start = m.index! + m[1].length;
+    if (start > last) parts.push(text.slice(last, start));
+    parts.push(
+      <span key={start} className="rounded bg-blue-50 px-0.5 font-medium text-blue-700" title={name}>
+        @{m[2]}
+      </span>
+    );
+    last = start + m[2].length + 1;
+  }
+  if (last < text.length) parts.push(text.slice(last));
+  return parts;
+}
+
+function inline(text: string, teammates: string[]): ReactNode[] {
+  const parts: ReactNode[] = [];
+  let last = 0;
+  for (const m of text.matchAll(INLINE_RE)) {
+    const start = m.index!;
+    if (start > last) parts.push(...withMentions(text.slice(last, start), teammates));
+    const [, code, bold, italic, underscored, label, href, url] = m;
+    if (code !== undefined) parts.push(<code key={start} className="rounded bg-muted px-1 text-[0.9em]">{code}</code>);
+    else if (bold !== undefined) parts.push(<strong key={start}>{inline(bold, teammates)}</strong>);
+    else if (italic !== undefined || underscored !== undefined) parts.push(<em key={start}>{inline(italic ?? underscored, teammates)}</em>);
+    else if (label !== undefined) parts.push(linkTo(href, inline(label, teammates), start));
+    else parts.push(linkTo(url, url, start));
+    last = start + m[0].length;
+  }
+  if (last < text.length) parts.push(...withMentions(text.slice(last), teammates));
+  return parts;
+}
+
+/**
+ * Render the small markdown subset used in notes and comments: paragraphs, line breaks, bullet and
+ * numbered lists, quotes, emphasis, code and links. Raw HTML is shown as text.
+ */
+export function Markdown({ text, teammates = [] }: { text: string; teammates?: string[] }) {
+  const blocks = text.replace(/\r\n/g, "\n").trim().split(/\n\s*\n/);
+  return (
+    <div className="space-y-2 text-sm break-words">
+      {blocks.map((block, i) => {
+        const lines = block.split("\n");
+        if (lines.every((l) => /^\s*[-*]\s+/.test(l))) {
+          return (
+            <ul key={i} className="list-disc pl-5 space-y-0.5">
+              {lines.map((l, j) => <li key={j}>{inline(l.replace(/^\s*[-*]\s+/, ""), teammates)}</li>)}
+            </ul>
+          );
+        }
+        if (lines.every((l) => /^\s*\d+[.)]\s+/.test(l))) {
+          return (
+            <ol key={i} className="list-decimal pl-5 space-y-0.5">
+              {lines.map((l, j) => <li key={j}>{inline(l.replace(/^\s*\d+[.)]\s+/, ""), teammates)}</li>)}
+            </ol>
+          );
+        }
+        if (lines.every((l) => l.startsWith(">"))) {
+          return (
+            <blockquote key={i} className="border-l-2 border-muted-foreground/30 pl-3 text-muted-foreground">
+              {lines.map((l, j) => <div key={j}>{inline(l.replace(/^>\s?/, ""), teammates)}</div>)}
+            </blockquote>
+          );
+        }
+        return (
+          <p key={i}>
+            {lines.map((l, j) => (
+              <span key={j}>
+                {j > 0 && <br />}
+                {inline(l, teammates)}
+              </span>
+            ))}
+          </p>
+        );
+      })}
+    </div>
+  );
+}
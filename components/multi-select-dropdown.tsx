@@ -51,7 +51,7 @@ export function MultiSelectDropdown({
         <svg className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
       </button>
       {open && (
-        <div className="absolute top-full left-0 mt-1 z-50 min-w-[180px] bg-popover border rounded-md shadow-md py-1">
+        <div className="absolute top-full left-0 mt-1 z-50 min-w-[180px] max-h-80 overflow-y-auto bg-popover border rounded-md shadow-md py-1">
           {options.map((opt) => (
             <label
               key={opt.value}
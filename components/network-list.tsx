@@ -1,13 +1,23 @@
 "use client";
 
-import { useState, useMemo } from "react";
+import { useState, useMemo, useEffect } from "react";
 import Image from "next/image";
-import type { GraphData, Recommendation } from "@/lib/graph-types";
-import companiesRaw from "@/data/network_companies.json";
+import Link from "next/link";
+import type { GraphData, GraphNode, Recommendation } from "@/lib/graph-types";
+import type { NetworkCompany } from "@/lib/types";
 import { MultiSelectDropdown } from "@/components/multi-select-dropdown";
+import { StageBadge } from "@/components/stage-badge";
+import { parseStage, stageRank, STAGES } from "@/lib/stages";
 import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
-
-const companiesDb = companiesRaw as Record<string, { name: string; description: string; stage: string; investors: string; website?: string }>;
+import { PIPELINE_FILTER_OPTIONS, PipelineContext, PipelineControls, PipelineSelect, usePipeline } from "@/components/pipeline-status";
+import { SubjectNotes } from "@/components/subject-notes";
+import { pipelineOwners, pipelineStatus } from "@/lib/pipeline";
+import { recommendationKey } from "@/lib/subjects";
+import { useViewInUrl } from "@/lib/view-url";
+import { WatchlistButton, WatchlistContext, WatchlistPicker, useWatchlists } from "@/components/watchlists";
+import { ScoreBadge } from "@/components/score-badge";
+import { SpikeChips } from "@/components/person-chips";
+import { CLOSE_HUB_PCT, HIGH_OUTLIER_SCORE, handleKey, isHighAndClose, type PoolMatch } from "@/lib/network-join";
 
 const ROLE_PATTERNS: { label: string; re: RegExp; bg: string; text: string; border: string }[] = [
   { label: "Founder", re: /\b(founder|co-founder|cofounder|founded|co-founded|cofounded|building\s|ceo)\b/i, bg: "bg-amber-50", text: "text-amber-800", border: "border-amber-200" },
@@ -48,7 +58,7 @@ interface CompanyInfo {
 }
 
 /** Extract ALL @mentions from bio as companies, mark which ones are in our DB */
-function extractAllCompanies(rec: Recommendation): CompanyInfo[] {
+function extractAllCompanies(rec: Recommendation, companiesDb: Record<string, NetworkCompany>): CompanyInfo[] {
   const desc = rec.description || "";
   const mentions = desc.match(/@(\w+)/g);
   if (!mentions) return [];
@@ -77,9 +87,63 @@ function getPrimaryStartup(companies: CompanyInfo[]): CompanyInfo | null {
   return null;
 }
 
-type SortKey = "mutual" | "followers" | "name" | "company" | "stage";
+/** Recommendations also in the people pool; "close" only those who score high there too */
+const POOL_OPTIONS = [
+  { value: "in", label: "In people pool" },
+  { value: "close", label: "High outlier + socially close" },
+];
+
+const SORT_KEYS = ["mutual", "followers", "name", "company", "stage"] as const;
+type SortKey = (typeof SORT_KEYS)[number];
 type SortDir = "asc" | "desc";
 
+/**
+ * List state as URL parameters: the multi-select filters repeat (`role=Founder&role=Engineer`), and
+ * sort and the hidden-account switches only appear when they differ from the defaults.
+ */
+interface NetworkView {
+  roles: string[];
+  stages: string[];
+  statuses: string[];
+  lists: string[];
+  pool: string[];
+  sortKey: SortKey;
+  sortDir: SortDir;
+  hideCorp: boolean;
+  filterMainstream: boolean;
+}
+
+function readNetworkView(params: URLSearchParams = new URLSearchParams()): NetworkView {
+  const sort = params.get("sort");
+  return {
+    roles: params.getAll("role"),
+    stages: params.getAll("stage"),
+    statuses: params.getAll("status"),
+    lists: params.getAll("list"),
+    pool: params.getAll("pool"),
+    sortKey: (SORT_KEYS as readonly string[]).includes(sort ?? "") ? (sort as SortKey) : "mutual",
+    sortDir: params.get("dir") === "asc" ? "asc" : "desc",
+    hideCorp: params.get("corp") !== "show",
+    filterMainstream: params.get("mainstream") !== "show",
+  };
+}
+
+function networkViewParams(view: NetworkView): URLSearchParams {
+  const params = new URLSearchParams();
+  for (const v of view.roles) params.append("role", v);
+  for (const v of view.stages) params.append("stage", v);
+  for (const v of view.statuses) params.append("status", v);
+  for (const v of view.lists) params.append("list", v);
+  for (const v of view.pool) params.append("pool", v);
+  if (view.sortKey !== "mutual" || view.sortDir !== "desc") {
+    params.set("sort", view.sortKey);
+    params.set("dir", view.sortDir);
+  }
+  if (!view.hideCorp) params.set("corp", "show");
+  if (!view.filterMainstream) params.set("mainstream", "show");
+  return params;
+}
+
 interface EnrichedRec {
   rec: Recommendation;
   role: string;
@@ -111,6 +175,56 @@ function Avatar({ username, name, size = 24 }: { username: string; name?: string
   );
 }
 
+/** Followers per account followed: broadcasters run into the hundreds, peers sit near 1. */
+function followRatio(rec: Recommendation): string {
+  if (rec.following_count === 0) return "∞";
+  const ratio = rec.followers_count / rec.following_count;
+  return ratio >= 10 ? Math.round(ratio).toLocaleString() : ratio.toFixed(1);
+}
+
+/** Why the network surfaced someone: every seed account following them, and the shape of their audience. */
+function WhySurfaced({ rec, nodes, seeds }: { rec: Recommendation; nodes: Map<string, GraphNode>; seeds: number }) {
+  const hubs = rec.followed_by
+    .map((id) => nodes.get(id) ?? { id, name: "", description: "", followers_count: 0 })
+    .sort((a, b) => b.followers_count - a.followers_count);
+  const stat = "rounded-lg bg-muted p-2.5";
+  return (
+    <div>
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Why they surfaced</div>
+      <div className="grid grid-cols-3 gap-2 mb-2">
+        <div className={stat}>
+          <div className="text-lg font-bold text-emerald-600">{Math.round(rec.hub_pct)}%</div>
+          <div className="text-xs text-muted-foreground">of {seeds} seed accounts follow them</div>
+        </div>
+        <div className={stat}>
+          <div className="text-lg font-bold">{followRatio(rec)}</div>
+          <div className="text-xs text-muted-foreground">followers per following</div>
+        </div>
+        <div className={stat}>
+          <div className="text-lg font-bold">{formatFollowers(rec.followers_count)} / {formatFollowers(rec.following_count)}</div>
+          <div className="text-xs text-muted-foreground">followers / following</div>
+        </div>
+      </div>
+      <div className="text-xs text-muted-foreground mb-1">Followed by these {hubs.length} seed accounts, best known first</div>
+      <ul className="max-h-72 overflow-y-auto rounded-md border divide-y">
+        {hubs.map((h) => (
+          <li key={h.id} className="flex items-start gap-2 px-2 py-1.5">
+            <Avatar username={h.id} name={h.name} size={20} />
+            <div className="min-w-0">
+              <a href={`https://x.com/${h.id}`} target="_blank" rel="noopener noreferrer" className="text-sm font-medium text-blue-600 hover:underline">
+                {h.name || `@${h.id}`}
+              </a>
+              <span className="text-xs text-muted-foreground ml-1.5">@{h.id}</span>
+              {h.followers_count > 0 && <span className="text-xs text-muted-foreground ml-1.5">{formatFollowers(h.followers_count)}</span>}
+              {h.description && <p className="text-xs text-muted-foreground line-clamp-2">{h.description}</p>}
+            </div>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
 function SortIcon({ active, dir }: { active: boolean; dir: SortDir }) {
   if (!active) return null;
   return <span className="text-gray-700 ml-0.5">{dir === "asc" ? "↑" : "↓"}</span>;
@@ -134,6 +248,7 @@ function CompanyCell({ companies, primary }: { companies: CompanyInfo[]; primary
             href={co.website || `https://x.com/${co.handle}`}
             target="_blank"
             rel="noopener noreferrer"
+            onClick={(e) => e.stopPropagation()}
             className={`hover:underline cursor-pointer truncate ${co.inDb ? "font-medium text-gray-900" : "text-gray-400"}`}
           >
             {co.name}
@@ -162,17 +277,62 @@ function CompanyCell({ companies, primary }: { companies: CompanyInfo[]; primary
 
 interface Props {
   data: GraphData;
+  /** `network_companies.json` keyed by lower-case handle, for the companies named in bios */
+  networkCompanies: Record<string, NetworkCompany>;
+  /** Username picked here or in a graph view; its row is highlighted */
   selectedId: string | null;
   onSelectNode: (id: string | null) => void;
+  /** Shared with the graph views, which own the switch */
+  filterMainstream: boolean;
+  /** The page URL's query string minus `tab`; the list keeps the URL in step from then on */
+  initialView?: URLSearchParams;
 }
 
-export function NetworkList({ data }: Props) {
-  const [roleFilters, setRoleFilters] = useState<Set<string>>(new Set());
+export function NetworkList({ data, networkCompanies, selectedId, onSelectNode, filterMainstream, initialView }: Props) {
+  const [initial] = useState(() => readNetworkView(initialView));
+  const [roleFilters, setRoleFilters] = useState<Set<string>>(new Set(initial.roles));
+  const [stageFilters, setStageFilters] = useState<Set<string>>(new Set(initial.stages));
+  const [statusFilters, setStatusFilters] = useState<Set<string>>(new Set(initial.statuses));
+  const { pipeline, setStatus, error: pipelineError } = usePipeline();
+  const lists = useWatchlists();
+  const [listFilters, setListFilters] = useState<Set<string>>(new Set(initial.lists));
+  const [poolFilters, setPoolFilters] = useState<Set<string>>(new Set(initial.pool));
+  const [matches, setMatches] = useState<Record<string, PoolMatch>>({});
+  const [selected, setSelected] = useState<EnrichedRec | null>(null);
+  const nodesById = useMemo(() => new Map(data.nodes.map((n) => [n.id, n])), [data.nodes]);
   const [showMethodology, setShowMethodology] = useState(false);
-  const [hideCorp, setHideCorp] = useState(true);
-  const [filterMainstream, setFilterMainstream] = useState(true);
-  const [sortKey, setSortKey] = useState<SortKey>("mutual");
-  const [sortDir, setSortDir] = useState<SortDir>("desc");
+  const [hideCorp, setHideCorp] = useState(initial.hideCorp);
+  const [sortKey, setSortKey] = useState<SortKey>(initial.sortKey);
+  const [sortDir, setSortDir] = useState<SortDir>(initial.sortDir);
+
+  useViewInUrl(
+    networkViewParams({
+      roles: [...roleFilters],
+      stages: [...stageFilters],
+      statuses: [...statusFilters],
+      lists: [...listFilters],
+      pool: [...poolFilters],
+      sortKey,
+      sortDir,
+      hideCorp,
+      filterMainstream,
+    })
+  );
+
+  // The people pool is server-only; this brings back just the accounts both sides share
+  useEffect(() => {
+    fetch("/api/network/matches")
+      .then((res) => res.json())
+      .then(setMatches)
+      .catch(() => setMatches({}));
+  }, []);
+  const matchOf = (rec: Recommendation): PoolMatch | undefined => matches[handleKey(rec.username)];
+
+  // Opening a row's details also selects it for the graph views
+  const select = (item: EnrichedRec) => {
+    setSelected(item);
+    onSelectNode(item.rec.username);
+  };
 
   const handleSort = (key: SortKey) => {
     if (sortKey === key) {
@@ -193,8 +353,8 @@ export function NetworkList({ data }: Props) {
         return roleFilters.has(role);
       });
     }
-    return recs.map((rec) => {
-      const companies = extractAllCompanies(rec);
+    const items = recs.map((rec) => {
+      const companies = extractAllCompanies(rec, networkCompanies);
       return {
         rec,
         role: detectPrimaryRole(rec),
@@ -202,7 +362,19 @@ export function NetworkList({ data }: Props) {
         primary: getPrimaryStartup(companies),
       };
     });
-  }, [data.recommendations, filterMainstream, hideCorp, roleFilters]);
+    const inPool = (rec: Recommendation) => {
+      const match = matches[handleKey(rec.username)];
+      return !!match && (poolFilters.has("in") || isHighAndClose(match.outlierScore, rec));
+    };
+    const listed = new Set(lists.watchlists.filter((w) => listFilters.has(w.id)).flatMap((w) => w.entries.map((e) => e.key)));
+    return items.filter(
+      (item) =>
+        (stageFilters.size === 0 || stageFilters.has(parseStage(item.primary?.stage ?? "")?.stage ?? "")) &&
+        (statusFilters.size === 0 || statusFilters.has(pipelineStatus(pipeline, recommendationKey(item.rec.username)))) &&
+        (listFilters.size === 0 || listed.has(recommendationKey(item.rec.username))) &&
+        (poolFilters.size === 0 || inPool(item.rec))
+    );
+  }, [data.recommendations, networkCompanies, filterMainstream, hideCorp, roleFilters, stageFilters, statusFilters, pipeline, listFilters, lists.watchlists, poolFilters, matches]);
 
   const sortFn = (a: EnrichedRec, b: EnrichedRec) => {
     let cmp = 0;
@@ -211,7 +383,7 @@ export function NetworkList({ data }: Props) {
       case "followers": cmp = a.rec.followers_count - b.rec.followers_count; break;
       case "name": cmp = (a.rec.name || "").localeCompare(b.rec.name || ""); break;
       case "company": cmp = (a.primary?.name || "zzz").localeCompare(b.primary?.name || "zzz"); break;
-      case "stage": cmp = (a.primary?.stage || "zzz").localeCompare(b.primary?.stage || "zzz"); break;
+      case "stage": cmp = (stageRank(a.primary?.stage ?? "") ?? STAGES.length) - (stageRank(b.primary?.stage ?? "") ?? STAGES.length); break;
     }
     return sortDir === "desc" ? -cmp : cmp;
   };
@@ -235,183 +407,320 @@ export function NetworkList({ data }: Props) {
   const thClass = "text-left px-2 h-8 font-medium text-muted-foreground text-sm cursor-pointer select-none hover:bg-muted/50 whitespace-nowrap bg-background";
 
   return (
-    <div className="space-y-4">
-      <p className="text-sm text-muted-foreground">
-        Surface people your network follows but you don&apos;t &mdash; hidden in the overlap between trusted Twitter accounts.
-      </p>
-
-      {/* Stats bar */}
-      <div className="flex gap-6 text-sm text-muted-foreground">
-        <span><strong className="text-foreground">{enriched.length.toLocaleString()}</strong> accounts</span>
-      </div>
-
-      {/* Filters */}
-      <div className="flex items-center gap-2 flex-wrap">
-        <MultiSelectDropdown
-          label="Role"
-          options={ROLE_PATTERNS.map((p) => ({ value: p.label, label: p.label }))}
-          selected={roleFilters}
-          onChange={setRoleFilters}
-        />
-        <span className="text-xs text-muted-foreground">Orgs and 1M+ celebrity accounts filtered out</span>
-        <button
-          onClick={() => setShowMethodology(true)}
-          className="text-xs text-blue-600 hover:underline cursor-pointer"
-        >
-          Methodology
-        </button>
-      </div>
+    <PipelineContext.Provider value={pipeline}>
+      <WatchlistContext.Provider value={lists}>
+        <div className="space-y-4">
+          <p className="text-sm text-muted-foreground">
+            Surface people your network follows but you don&apos;t &mdash; hidden in the overlap between trusted Twitter accounts.
+          </p>
+
+          {/* Stats bar */}
+          <div className="flex gap-6 text-sm text-muted-foreground">
+            <span><strong className="text-foreground">{enriched.length.toLocaleString()}</strong> accounts</span>
+            {pipelineError && <span className="text-red-600">{pipelineError}</span>}
+            {lists.error && <span className="text-red-600">{lists.error}</span>}
+          </div>
 
-      {/* Legend */}
-      <div className="flex items-center gap-3 text-xs text-muted-foreground mb-2">
-        <span>Mutual = accounts Ethan doesn{"'"}t follow, but # of people he follows also follow</span>
-      </div>
+          {/* Filters */}
+          <div className="flex items-center gap-2 flex-wrap">
+            <MultiSelectDropdown
+              label="Role"
+              options={ROLE_PATTERNS.map((p) => ({ value: p.label, label: p.label }))}
+              selected={roleFilters}
+              onChange={setRoleFilters}
+            />
+            <MultiSelectDropdown
+              label="Stage"
+              options={STAGES.map((s) => ({ value: s, label: s }))}
+              selected={stageFilters}
+              onChange={setStageFilters}
+            />
+            <MultiSelectDropdown
+              label="Status"
+              options={PIPELINE_FILTER_OPTIONS}
+              selected={statusFilters}
+              onChange={setStatusFilters}
+            />
+            <MultiSelectDropdown
+              label="Lists"
+              options={lists.watchlists.map((w) => ({ value: w.id, label: w.name }))}
+              selected={listFilters}
+              onChange={setListFilters}
+            />
+            <MultiSelectDropdown
+              label="Outliers"
+              options={POOL_OPTIONS}
+              selected={poolFilters}
+              onChange={setPoolFilters}
+            />
+            {(hideCorp || filterMainstream) && (
+              <span className="text-xs text-muted-foreground">
+                {[hideCorp && "Orgs", filterMainstream && "1M+ celebrity accounts"].filter(Boolean).join(" and ")} filtered out
+              </span>
+            )}
+            <button
+              onClick={() => setShowMethodology(true)}
+              className="text-xs text-blue-600 hover:underline cursor-pointer"
+            >
+              Methodology
+            </button>
+          </div>
 
-      {/* Methodology modal */}
-      <Dialog open={showMethodology} onOpenChange={setShowMethodology}>
-        <DialogContent>
-          <DialogTitle className="text-lg">How this works</DialogTitle>
-          <div className="mt-3 space-y-4 text-sm">
-            <div className="space-y-3">
-              <div className="flex gap-3">
-                <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">1</span>
-                <p>Start with Ethan{"'"}s <strong>{data.stats.ethan_following.toLocaleString()}</strong> Twitter followings</p>
-              </div>
-              <div className="flex gap-3">
-                <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">2</span>
-                <p>Pick <strong>{data.stats.hubs_fetched}</strong> of them as &ldquo;seed&rdquo; accounts and scrape who each one follows</p>
-              </div>
-              <div className="flex gap-3">
-                <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">3</span>
-                <p>Find accounts that <strong>Ethan doesn{"'"}t follow</strong> but <strong>{data.stats.min_hub_threshold}+ seeds do</strong></p>
-              </div>
-              <div className="flex gap-3">
-                <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">4</span>
-                <p>Rank by <strong>mutual count</strong> &mdash; how many seeds follow them. Higher = stronger signal from Ethan{"'"}s trusted network</p>
-              </div>
-            </div>
-            <div className="rounded-lg bg-muted p-3 text-xs text-muted-foreground">
-              Result: <strong>{data.stats.total_recommendations}</strong> people in Ethan{"'"}s extended network blind spot &mdash; followed by many of his trusted connections but not by him directly.
-            </div>
+          {/* Legend */}
+          <div className="flex items-center gap-3 text-xs text-muted-foreground mb-2">
+            <span>Mutual = accounts Ethan doesn{"'"}t follow, but # of people he follows also follow</span>
+            <span className="text-muted-foreground/60">|</span>
+            <span>Outlier score from the people pool; high outlier + socially close = {HIGH_OUTLIER_SCORE}+ and followed by {CLOSE_HUB_PCT}%+ of seeds</span>
           </div>
-        </DialogContent>
-      </Dialog>
-
-      {/* Mobile card list */}
-      <div className="md:hidden space-y-2 overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 280px)" }}>
-        {grouped.map(([role, items]) => {
-          const style = ROLE_PATTERNS.find((p) => p.label === role) || OTHER_STYLE;
-          return (
-            <div key={role}>
-              <div className={`px-3 py-1.5 rounded-md ${style.bg} mb-2`}>
-                <span className={`text-xs font-semibold ${style.text}`}>{role}</span>
-                <span className={`text-[10px] ${style.text} opacity-60 ml-1`}>{items.length}</span>
+
+          {/* Methodology modal */}
+          <Dialog open={showMethodology} onOpenChange={setShowMethodology}>
+            <DialogContent>
+              <DialogTitle className="text-lg">How this works</DialogTitle>
+              <div className="mt-3 space-y-4 text-sm">
+                <div className="space-y-3">
+                  <div className="flex gap-3">
+                    <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">1</span>
+                    <p>Start with Ethan{"'"}s <strong>{data.stats.ethan_following.toLocaleString()}</strong> Twitter followings</p>
+                  </div>
+                  <div className="flex gap-3">
+                    <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">2</span>
+                    <p>Pick <strong>{data.stats.hubs_fetched}</strong> of them as &ldquo;seed&rdquo; accounts and scrape who each one follows</p>
+                  </div>
+                  <div className="flex gap-3">
+                    <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">3</span>
+                    <p>Find accounts that <strong>Ethan doesn{"'"}t follow</strong> but <strong>{data.stats.min_hub_threshold}+ seeds do</strong></p>
+                  </div>
+                  <div className="flex gap-3">
+                    <span className="flex-shrink-0 inline-flex items-center justify-center w-6 h-6 rounded-full bg-muted text-xs font-semibold">4</span>
+                    <p>Rank by <strong>mutual count</strong> &mdash; how many seeds follow them. Higher = stronger signal from Ethan{"'"}s trusted network</p>
+                  </div>
+                </div>
+                <div className="rounded-lg bg-muted p-3 text-xs text-muted-foreground">
+                  Result: <strong>{data.stats.total_recommendations}</strong> people in Ethan{"'"}s extended network blind spot &mdash; followed by many of his trusted connections but not by him directly.
+                </div>
               </div>
-              <div className="space-y-2 mb-3">
-                {items.map(({ rec, primary }) => (
-                  <div key={rec.id} className="border rounded-lg p-3">
-                    <div className="flex items-start gap-3">
-                      <Avatar username={rec.username} name={rec.name} size={36} />
-                      <div className="min-w-0 flex-1">
-                        <div className="flex items-center gap-2">
-                          <span className="text-sm font-medium text-emerald-600">{rec.hub_count}</span>
-                          <a href={`https://x.com/${rec.username}`} target="_blank" rel="noopener noreferrer" className="font-medium text-sm text-blue-600 truncate">{rec.name}</a>
-                          <span className="text-xs text-muted-foreground ml-auto shrink-0">{formatFollowers(rec.followers_count)}</span>
+            </DialogContent>
+          </Dialog>
+
+          {/* Recommendation detail modal */}
+          <Dialog open={!!selected} onOpenChange={(open) => !open && setSelected(null)}>
+            <DialogContent className="max-h-[85vh] overflow-y-auto">
+              {selected && (
+                <>
+                  <DialogTitle className="text-xl flex items-center gap-2">
+                    <Avatar username={selected.rec.username} name={selected.rec.name} size={32} />
+                    {selected.rec.name || `@${selected.rec.username}`}
+                  </DialogTitle>
+                  <div className="mt-4 space-y-4">
+                    <div className="flex items-center gap-4 text-sm">
+                      <a href={`https://x.com/${selected.rec.username}`} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline">
+                        @{selected.rec.username}
+                      </a>
+                      <span className="text-muted-foreground"><strong className="text-emerald-600">{selected.rec.hub_count}</strong> mutual</span>
+                      <span className="text-muted-foreground">{formatFollowers(selected.rec.followers_count)} followers</span>
+                      {(() => {
+                        const style = ROLE_PATTERNS.find((p) => p.label === selected.role) || OTHER_STYLE;
+                        return <span className={`px-2 py-0.5 rounded border text-xs font-medium ${style.bg} ${style.text} ${style.border}`}>{selected.role}</span>;
+                      })()}
+                    </div>
+                    {selected.rec.description && <p className="text-sm">{selected.rec.description}</p>}
+
+                    <WhySurfaced rec={selected.rec} nodes={nodesById} seeds={data.stats.hubs_fetched} />
+
+                    {matchOf(selected.rec) && (
+                      <div>
+                        <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">People pool</div>
+                        <div className="flex items-center gap-2 text-sm">
+                          <ScoreBadge score={matchOf(selected.rec)!.outlierScore} palette="blue" />
+                          <SpikeChips tags={matchOf(selected.rec)!.spikes} />
+                          <Link href={`/people/${matchOf(selected.rec)!.id}`} className="text-blue-600 hover:underline">
+                            {matchOf(selected.rec)!.name} &rarr;
+                          </Link>
                         </div>
-                        {rec.description && (
-                          <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{rec.description}</p>
-                        )}
-                        {primary?.name && (
-                          <div className="text-xs text-muted-foreground mt-1">{primary.name}{primary.stage ? ` · ${primary.stage}` : ""}</div>
-                        )}
                       </div>
+                    )}
+
+                    {selected.companies.length > 0 && (
+                      <div>
+                        <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Companies</div>
+                        <ul className="space-y-1">
+                          {selected.companies.map((co) => (
+                            <li key={co.handle} className="flex items-center gap-2 text-sm">
+                              <a
+                                href={co.website || `https://x.com/${co.handle}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className={`hover:underline ${co.inDb ? "font-medium" : "text-muted-foreground"}`}
+                              >
+                                {co.name}
+                              </a>
+                              {co.stage && <StageBadge value={co.stage} />}
+                              {co.investors && <span className="text-xs text-muted-foreground truncate">{co.investors}</span>}
+                            </li>
+                          ))}
+                        </ul>
+                      </div>
+                    )}
+
+                    <div>
+                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Pipeline</div>
+                      <PipelineControls
+                        key={selected.rec.id}
+                        recordKey={recommendationKey(selected.rec.username)}
+                        owners={pipelineOwners(pipeline)}
+                        onChange={setStatus}
+                      />
                     </div>
-                  </div>
-                ))}
-              </div>
-            </div>
-          );
-        })}
-      </div>
 
-      {/* Desktop table */}
-      <div className="hidden md:block border rounded-lg overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 220px)" }}>
-        <table className="w-full text-sm">
-            <thead className="sticky top-0 z-10 bg-background border-b">
-              <tr className="border-b">
-                <th className={`${thClass} text-right`} style={{ width: 50 }} onClick={() => handleSort("mutual")}>
-                  Mutual <SortIcon active={sortKey === "mutual"} dir={sortDir} />
-                </th>
-                <th className={thClass} style={{ width: 160 }} onClick={() => handleSort("name")}>
-                  Name <SortIcon active={sortKey === "name"} dir={sortDir} />
-                </th>
-                <th className={thClass} style={{ width: 70 }} onClick={() => handleSort("followers")}>
-                  Followers <SortIcon active={sortKey === "followers"} dir={sortDir} />
-                </th>
-                <th className={`${thClass}`}>Bio</th>
-                <th className={thClass} onClick={() => handleSort("company")}>
-                  Company <SortIcon active={sortKey === "company"} dir={sortDir} />
-                </th>
-                <th className={thClass} onClick={() => handleSort("stage")}>
-                  Stage <SortIcon active={sortKey === "stage"} dir={sortDir} />
-                </th>
-                <th className={thClass}>Investors</th>
-              </tr>
-            </thead>
-            <tbody className="[&_tr:last-child]:border-0">
-              {grouped.map(([role, items]) => {
-                const style = ROLE_PATTERNS.find((p) => p.label === role) || OTHER_STYLE;
-                return [
-                  <tr key={`header-${role}`} className="border-b">
-                    <td colSpan={7} className={`px-3 py-1.5 ${style.bg} border-y ${style.border}`}>
-                      <div className="flex items-center gap-2">
-                        <span className={`text-xs font-semibold ${style.text}`}>{role}</span>
-                        <span className={`text-[10px] ${style.text} opacity-60`}>{items.length}</span>
-                      </div>
-                    </td>
-                  </tr>,
-                  ...items.map(({ rec, companies, primary }) => (
-                    <tr key={rec.id} className="border-b transition-colors hover:bg-muted/60">
-                      <td className="px-2 py-1 text-right whitespace-nowrap">
-                        <span className="text-sm font-medium text-emerald-600">{rec.hub_count}</span>
-                      </td>
-                      <td className="px-2 py-1 whitespace-nowrap">
-                        <div className="flex items-center gap-2 min-w-0">
-                          <Avatar username={rec.username} name={rec.name} size={24} />
-                          <a
-                            href={`https://x.com/${rec.username}`}
-                            target="_blank"
-                            rel="noopener noreferrer"
-                            className="font-medium text-sm text-blue-600 hover:underline cursor-pointer truncate"
-                          >
-                            {rec.name}
-                          </a>
+                    <div>
+                      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1">Lists</div>
+                      <WatchlistPicker subjectKey={recommendationKey(selected.rec.username)} />
+                    </div>
+
+                    <SubjectNotes key={selected.rec.id} subjectKey={recommendationKey(selected.rec.username)} />
+                  </div>
+                </>
+              )}
+            </DialogContent>
+          </Dialog>
+
+          {/* Mobile card list */}
+          <div className="md:hidden space-y-2 overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 280px)" }}>
+            {grouped.map(([role, items]) => {
+              const style = ROLE_PATTERNS.find((p) => p.label === role) || OTHER_STYLE;
+              return (
+                <div key={role}>
+                  <div className={`px-3 py-1.5 rounded-md ${style.bg} mb-2`}>
+                    <span className={`text-xs font-semibold ${style.text}`}>{role}</span>
+                    <span className={`text-[10px] ${style.text} opacity-60 ml-1`}>{items.length}</span>
+                  </div>
+                  <div className="space-y-2 mb-3">
+                    {items.map(({ rec, role, companies, primary }) => (
+                      <div key={rec.id} onClick={() => select({ rec, role, companies, primary })} className={`border rounded-lg p-3 cursor-pointer active:bg-muted/60 ${rec.username === selectedId ? "border-amber-400 bg-amber-50/60" : ""}`}>
+                        <div className="flex items-start gap-3">
+                          <Avatar username={rec.username} name={rec.name} size={36} />
+                          <div className="min-w-0 flex-1">
+                            <div className="flex items-center gap-2">
+                              <span className="text-sm font-medium text-emerald-600">{rec.hub_count}</span>
+                              <a href={`https://x.com/${rec.username}`} target="_blank" rel="noopener noreferrer" className="font-medium text-sm text-blue-600 truncate" onClick={(e) => e.stopPropagation()}>{rec.name}</a>
+                              {matchOf(rec) && <ScoreBadge score={matchOf(rec)!.outlierScore} palette="blue" />}
+                              <span className="text-xs text-muted-foreground ml-auto shrink-0">{formatFollowers(rec.followers_count)}</span>
+                            </div>
+                            <div className="mt-1">
+                              <PipelineSelect recordKey={recommendationKey(rec.username)} onChange={setStatus} />
+                            </div>
+                            {rec.description && (
+                              <p className="text-xs text-muted-foreground line-clamp-2 mt-0.5">{rec.description}</p>
+                            )}
+                            {primary?.name && (
+                              <div className="text-xs text-muted-foreground mt-1">{primary.name}{primary.stage ? ` · ${parseStage(primary.stage)?.stage ?? primary.stage}` : ""}</div>
+                            )}
+                          </div>
                         </div>
-                      </td>
-                      <td className="px-2 py-1 text-sm text-muted-foreground whitespace-nowrap">
-                        {formatFollowers(rec.followers_count)}
-                      </td>
-                      <td className="px-2 py-1">
-                        <p className="text-xs text-muted-foreground line-clamp-2 leading-snug max-w-[250px]">{rec.description}</p>
-                      </td>
-                      <td className="px-2 py-1 text-sm">
-                        <CompanyCell companies={companies} primary={primary} />
-                      </td>
-                      <td className="px-2 py-1 text-sm text-muted-foreground whitespace-nowrap">
-                        {primary?.stage || ""}
-                      </td>
-                      <td className="px-2 py-1">
-                        {primary?.investors && (
-                          <p className="text-xs text-muted-foreground line-clamp-1 max-w-[180px]">{primary.investors}</p>
-                        )}
-                      </td>
-                    </tr>
-                  )),
-                ];
-              })}
-            </tbody>
-          </table>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Desktop table */}
+          <div className="hidden md:block border rounded-lg overflow-auto flex-1" style={{ maxHeight: "calc(100vh - 220px)" }}>
+            <table className="w-full text-sm">
+                <thead className="sticky top-0 z-10 bg-background border-b">
+                  <tr className="border-b">
+                    <th className={thClass} style={{ width: 32 }} />
+                    <th className={`${thClass} text-right`} style={{ width: 50 }} onClick={() => handleSort("mutual")}>
+                      Mutual <SortIcon active={sortKey === "mutual"} dir={sortDir} />
+                    </th>
+                    <th className={thClass} style={{ width: 160 }} onClick={() => handleSort("name")}>
+                      Name <SortIcon active={sortKey === "name"} dir={sortDir} />
+                    </th>
+                    <th className={thClass} style={{ width: 70 }} onClick={() => handleSort("followers")}>
+                      Followers <SortIcon active={sortKey === "followers"} dir={sortDir} />
+                    </th>
+                    <th className={`${thClass}`}>Bio</th>
+                    <th className={thClass} onClick={() => handleSort("company")}>
+                      Company <SortIcon active={sortKey === "company"} dir={sortDir} />
+                    </th>
+                    <th className={thClass} onClick={() => handleSort("stage")}>
+                      Stage <SortIcon active={sortKey === "stage"} dir={sortDir} />
+                    </th>
+                    <th className={thClass}>Investors</th>
+                    <th className={thClass} style={{ width: 110 }}>Status</th>
+                  </tr>
+                </thead>
+                <tbody className="[&_tr:last-child]:border-0">
+                  {grouped.map(([role, items]) => {
+                    const style = ROLE_PATTERNS.find((p) => p.label === role) || OTHER_STYLE;
+                    return [
+                      <tr key={`header-${role}`} className="border-b">
+                        <td colSpan={9} className={`px-3 py-1.5 ${style.bg} border-y ${style.border}`}>
+                          <div className="flex items-center gap-2">
+                            <span className={`text-xs font-semibold ${style.text}`}>{role}</span>
+                            <span className={`text-[10px] ${style.text} opacity-60`}>{items.length}</span>
+                          </div>
+                        </td>
+                      </tr>,
+                      ...items.map(({ rec, role, companies, primary }) => (
+                        <tr key={rec.id} onClick={() => select({ rec, role, companies, primary })} className={`border-b transition-colors hover:bg-muted/60 cursor-pointer ${rec.username === selectedId ? "bg-amber-50" : ""}`}>
+                          <td className="px-2 py-1">
+                            <WatchlistButton subjectKey={recommendationKey(rec.username)} />
+                          </td>
+                          <td className="px-2 py-1 text-right whitespace-nowrap">
+                            <span className="text-sm font-medium text-emerald-600">{rec.hub_count}</span>
+                          </td>
+                          <td className="px-2 py-1 whitespace-nowrap">
+                            <div className="flex items-center gap-2 min-w-0">
+                              <Avatar username={rec.username} name={rec.name} size={24} />
+                              <a
+                                href={`https://x.com/${rec.username}`}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-medium text-sm text-blue-600 hover:underline cursor-pointer truncate"
+                                onClick={(e) => e.stopPropagation()}
+                              >
+                                {rec.name}
+                              </a>
+                              {matchOf(rec) && (
+                                <span className="flex items-center gap-1 shrink-0" title="Outlier score and spikes in the people pool">
+                                  <ScoreBadge score={matchOf(rec)!.outlierScore} palette="blue" />
+                                  <SpikeChips tags={matchOf(rec)!.spikes} />
+                                </span>
+                              )}
+                            </div>
+                          </td>
+                          <td className="px-2 py-1 text-sm text-muted-foreground whitespace-nowrap">
+                            {formatFollowers(rec.followers_count)}
+                          </td>
+                          <td className="px-2 py-1">
+                            <p className="text-xs text-muted-foreground line-clamp-2 leading-snug max-w-[250px]">{rec.description}</p>
+                          </td>
+                          <td className="px-2 py-1 text-sm">
+                            <CompanyCell companies={companies} primary={primary} />
+                          </td>
+                          <td className="px-2 py-1 text-sm text-muted-foreground whitespace-nowrap">
+                            {primary?.stage && <StageBadge value={primary.stage} />}
+                          </td>
+                          <td className="px-2 py-1">
+                            {primary?.investors && (
+                              <p className="text-xs text-muted-foreground line-clamp-1 max-w-[180px]">{primary.investors}</p>
+                            )}
+                          </td>
+                          <td className="px-2 py-1 whitespace-nowrap">
+                            <PipelineSelect recordKey={recommendationKey(rec.username)} onChange={setStatus} />
+                          </td>
+                        </tr>
+                      )),
+                    ];
+                  })}
+                </tbody>
+              </table>
+            </div>
         </div>
-    </div>
+      </WatchlistContext.Provider>
+    </PipelineContext.Provider>
   );
 }
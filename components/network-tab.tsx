@@ -0,0 +1,131 @@
+"use client";
+
+import { useState } from "react";
+import type { GraphData } from "@/lib/graph-types";
+import type { NetworkCompany } from "@/lib/types";
+import { parseViewHref } from "@/lib/views";
+import { useViewInUrl } from "@/lib/view-url";
+import { NetworkList } from "@/components/network-list";
+import { NetworkGraph } from "@/components/network-graph";
+import { BipartiteGraph } from "@/components/graphs/bipartite";
+import { ConcentricRingsGraph } from "@/components/graphs/concentric-rings";
+import { HubClustersGraph } from "@/components/graphs/hub-clusters";
+import { RecSimilarityGraph } from "@/components/graphs/rec-similarity";
+
+const NETWORK_VIEWS = [
+  { key: "list", label: "List" },
+  { key: "force", label: "Force" },
+  { key: "bipartite", label: "Bipartite" },
+  { key: "rings", label: "Rings" },
+  { key: "clusters", label: "Hub clusters" },
+  { key: "similarity", label: "Similarity" },
+] as const;
+type NetworkViewKey = (typeof NETWORK_VIEWS)[number]["key"];
+
+const GRAPHS = {
+  force: NetworkGraph,
+  bipartite: BipartiteGraph,
+  rings: ConcentricRingsGraph,
+  clusters: HubClustersGraph,
+  similarity: RecSimilarityGraph,
+};
+
+function readView(params: URLSearchParams | undefined): NetworkViewKey {
+  const view = params?.get("view");
+  return NETWORK_VIEWS.some((v) => v.key === view) ? (view as NetworkViewKey) : "list";
+}
+
+/**
+ * The Twitter tab: the recommendation list and the graph views of the same network. The views share
+ * the celebrity-account switch and the selected account, a Twitter username, so an account picked in
+ * one stays picked in the others. The list keeps the URL while it shows; a graph view writes `view`.
+ */
+export function NetworkTab({
+  data,
+  networkCompanies,
+  initialView,
+}: {
+  data: GraphData;
+  networkCompanies: Record<string, NetworkCompany>;
+  initialView?: URLSearchParams;
+}) {
+  const [view, setView] = useState<NetworkViewKey>(() => readView(initialView));
+  const [filterMainstream, setFilterMainstream] = useState(initialView?.get("mainstream") !== "show");
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // The list's filters as they were when it was last left, so coming back restores them
+  const [listView, setListView] = useState(initialView);
+
+  const graphParams = new URLSearchParams({ view });
+  if (!filterMainstream) graphParams.set("mainstream", "show");
+  useViewInUrl(view === "list" ? null : graphParams);
+
+  const switchView = (next: NetworkViewKey) => {
+    if (view === "list") setListView(parseViewHref(window.location.search).params);
+    setView(next);
+  };
+
+  // Most recommendations are not graph nodes, so look there first; seed accounts are only nodes
+  const selectedRec = selectedId ? data.recommendations.find((r) => r.username === selectedId) : undefined;
+  const selectedNode = selectedId && !selectedRec ? data.nodes.find((n) => n.id === selectedId) : undefined;
+  const selected: { handle: string; name: string; hubCount?: number } | undefined = selectedRec
+    ? { handle: selectedRec.username, name: selectedRec.name, hubCount: selectedRec.hub_count }
+    : selectedNode && { handle: selectedNode.id, name: selectedNode.name, hubCount: selectedNode.type === "recommendation" ? selectedNode.hub_count : undefined };
+  const Graph = view === "list" ? null : GRAPHS[view];
+
+  return (
+    <div className="h-full flex flex-col gap-3">
+      <div className="flex-none flex items-center gap-3 flex-wrap">
+        <div className="inline-flex rounded-md border p-0.5">
+          {NETWORK_VIEWS.map((v) => (
+            <button
+              key={v.key}
+              onClick={() => switchView(v.key)}
+              className={`px-2.5 py-1 rounded text-xs font-medium cursor-pointer ${
+                view === v.key ? "bg-foreground text-background" : "text-muted-foreground hover:text-foreground"
+              }`}
+            >
+              {v.label}
+            </button>
+          ))}
+        </div>
+        <label className="flex items-center gap-1.5 text-xs text-muted-foreground cursor-pointer">
+          <input type="checkbox" checked={filterMainstream} onChange={(e) => setFilterMainstream(e.target.checked)} />
+          Hide 1M+ follower accounts
+        </label>
+        {selected && (
+          <span className="flex items-center gap-2 text-xs">
+            <span className="text-muted-foreground">Selected</span>
+            <a href={`https://x.com/${selected.handle}`} target="_blank" rel="noopener noreferrer" className="font-medium text-blue-600 hover:underline">
+              {selected.name || `@${selected.handle}`}
+            </a>
+            {selected.hubCount !== undefined ? (
+              <span className="text-emerald-600">{selected.hubCount} mutual</span>
+            ) : (
+              <span className="text-muted-foreground">seed account</span>
+            )}
+            <button onClick={() => setSelectedId(null)} className="text-muted-foreground hover:text-foreground cursor-pointer" title="Clear selection">
+              &times;
+            </button>
+          </span>
+        )}
+      </div>
+
+      {Graph ? (
+        <div className="flex-1 min-h-0">
+          <Graph data={data} selectedId={selectedId} onSelectNode={setSelectedId} filterMainstream={filterMainstream} />
+        </div>
+      ) : (
+        <div className="flex-1 min-h-0 overflow-auto">
+          <NetworkList
+            initialView={listView}
+            data={data}
+            networkCompanies={networkCompanies}
+            selectedId={selectedId}
+            onSelectNode={setSelectedId}
+            filterMainstream={filterMainstream}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,89 @@
+"use client";
+
+import { SPIKE_TAG_MAP } from "@/lib/spike-tags";
+import { Highlight } from "@/components/highlight";
+import { categoryLabel } from "@/lib/categories";
+
+/** Hostname for a favicon, or null when the URL doesn't parse. */
+export function hostOf(url: string): string | null {
+  try {
+    return new URL(url).hostname;
+  } catch {
+    return null;
+  }
+}
+
+/** X profile picture for a "@handle", or an empty circle. `className` sets the size. */
+export function PersonAvatar({ twitter, className = "w-6 h-6" }: { twitter: string; className?: string }) {
+  const clean = twitter.replace(/^@/, "");
+  if (!clean) return <div className={`${className} rounded-full flex-shrink-0 bg-muted`} />;
+  return (
+    <img
+      src={`https://unavatar.io/x/${clean}`}
+      alt=""
+      className={`${className} rounded-full flex-shrink-0 bg-muted`}
+      loading="lazy"
+      onError={(e) => { (e.target as HTMLImageElement).style.display = "none"; }}
+    />
+  );
+}
+
+/** One-letter spike tag squares, colored per tag. */
+export function SpikeChips({ tags }: { tags: string[] }) {
+  return (
+    <>
+      {tags.map((tag) => (
+        <span key={tag} className={`shrink-0 inline-flex items-center justify-center w-5 h-5 rounded text-xs font-medium ${(SPIKE_TAG_MAP[tag]?.color || "bg-gray-100 text-gray-700")}`} title={tag}>{SPIKE_TAG_MAP[tag]?.char || tag[0]}</span>
+      ))}
+    </>
+  );
+}
+
+/** Marks someone the Twitter network recommends, with how many seed accounts follow them. */
+export function NetworkBadge({ hubCount }: { hubCount: number }) {
+  return (
+    <span
+      className="shrink-0 inline-flex px-1.5 py-0.5 rounded bg-emerald-50 text-emerald-700 text-xs font-medium whitespace-nowrap"
+      title={`Followed by ${hubCount} of the Twitter seed accounts`}
+    >
+      In network &middot; {hubCount}
+    </span>
+  );
+}
+
+/** Category names as grey pills; `max` cuts the list short with a "+n" for table cells. */
+export function CategoryChips({ categories, max }: { categories: string[]; max?: number }) {
+  const shown = max === undefined ? categories : categories.slice(0, max);
+  return (
+    <>
+      {shown.map((c) => (
+        <span key={c} className="shrink-0 inline-flex px-1.5 py-0.5 rounded bg-muted text-xs font-medium">{categoryLabel(c)}</span>
+      ))}
+      {shown.length < categories.length && <span className="shrink-0 text-xs text-muted-foreground">+{categories.length - shown.length}</span>}
+    </>
+  );
+}
+
+/** Company name with its favicon, linked to its site when there is one. */
+export function CompanyChip({ company, url }: { company: string; url: string }) {
+  const domain = url ? hostOf(url) : null;
+  const favicon = domain ? `https://www.google.com/s2/favicons?sz=16&domain=${domain}` : null;
+  return (
+    <div className="flex items-center gap-1.5 min-w-0">
+      {favicon && <img src={favicon} alt="" width={16} height={16} className="shrink-0 rounded-sm" />}
+      {url ? (
+        <a
+          href={url}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="text-sm font-medium truncate text-blue-600 hover:text-blue-800 hover:underline"
+          onClick={(e) => e.stopPropagation()}
+        >
+          <Highlight text={company} />
+        </a>
+      ) : (
+        <span className="text-sm font-medium truncate"><Highlight text={company} /></span>
+      )}
+    </div>
+  );
+}
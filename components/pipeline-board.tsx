@@ -0,0 +1,207 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { Person } from "@/lib/types";
+import type { Recommendation } from "@/lib/graph-types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import {
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_COLORS,
+  pipelineOwners,
+  type PipelineRecord,
+  type PipelineStage,
+} from "@/lib/pipeline";
+import { personKey, recommendationKey } from "@/lib/subjects";
+import {
+  DEFAULT_PEOPLE_QUERY,
+  MAX_PAGE_SIZE,
+  peopleQueryToParams,
+  type PeoplePage,
+} from "@/lib/people-query";
+import { MultiSelectDropdown } from "@/components/multi-select-dropdown";
+import { usePipeline } from "@/components/pipeline-status";
+import { ScoreBadge } from "@/components/score-badge";
+import { CompanyChip, PersonAvatar, SpikeChips } from "@/components/person-chips";
+
+// Owner filter value for records nobody has claimed
+const UNASSIGNED = "";
+
+type Card =
+  | { kind: "person"; record: PipelineRecord; person: Person }
+  | { kind: "recommendation"; record: PipelineRecord; rec: Recommendation };
+
+/** Every person with a pipeline record, fetched page by page from `/api/people`. */
+function useTrackedPeople() {
+  const [people, setPeople] = useState<Person[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const load = async () => {
+      const all: Person[] = [];
+      let cursor: string | null = null;
+      do {
+        const params = peopleQueryToParams({ ...DEFAULT_PEOPLE_QUERY, statuses: [...PIPELINE_STAGES], cursor, limit: MAX_PAGE_SIZE });
+        const res = await fetch(`/api/people?${params}`, { signal: controller.signal });
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        const page = body as PeoplePage;
+        all.push(...page.items);
+        cursor = page.nextCursor;
+      } while (cursor);
+      setPeople(all);
+    };
+    load().catch((err: Error) => {
+      if (!controller.signal.aborted) setError(err.message);
+    });
+    return () => controller.abort();
+  }, []);
+
+  return { people, error };
+}
+
+function BoardCard({ card, onDrag }: { card: Card; onDrag: (key: string | null) => void }) {
+  const { record } = card;
+  return (
+    <div
+      draggable
+      onDragStart={(e) => {
+        e.dataTransfer.setData("text/plain", record.key);
+        e.dataTransfer.effectAllowed = "move";
+        onDrag(record.key);
+      }}
+      onDragEnd={() => onDrag(null)}
+      className="border rounded-lg bg-background p-2.5 space-y-1.5 cursor-grab active:cursor-grabbing shadow-xs"
+    >
+      {card.kind === "person" ? (
+        <>
+          <div className="flex items-center gap-2 min-w-0">
+            <PersonAvatar twitter={card.person.twitter} />
+            <span className="font-medium text-sm truncate">{card.person.name}</span>
+            <span className="ml-auto"><ScoreBadge score={card.person.outlierScore} palette="blue" /></span>
+          </div>
+          {card.person.company && <CompanyChip company={card.person.company} url={card.person.companyUrl} />}
+          {(() => {
+            const { tags } = parseSpikeTags(card.person.achievements || "");
+            return tags.length > 0 && <div className="flex items-center gap-1"><SpikeChips tags={tags} /></div>;
+          })()}
+        </>
+      ) : (
+        <>
+          <div className="flex items-center gap-2 min-w-0">
+            <PersonAvatar twitter={card.rec.username} />
+            <a
+              href={`https://x.com/${card.rec.username}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="font-medium text-sm text-blue-600 hover:underline truncate"
+            >
+              {card.rec.name || `@${card.rec.username}`}
+            </a>
+            <span className="ml-auto text-xs font-medium text-emerald-600 whitespace-nowrap" title="Mutual follows">{card.rec.hub_count}</span>
+          </div>
+          {card.rec.description && <p className="text-xs text-muted-foreground line-clamp-2">{card.rec.description}</p>}
+        </>
+      )}
+      <div className="flex items-center gap-2 text-[11px] text-muted-foreground">
+        <span className="truncate">{record.owner || "Unassigned"}</span>
+        <span className="ml-auto whitespace-nowrap">{new Date(record.updatedAt).toLocaleDateString()}</span>
+      </div>
+    </div>
+  );
+}
+
+/** Everyone with a pipeline status as cards in stage columns; drag a card to another column to move it. */
+export function PipelineBoard({ recommendations }: { recommendations: Recommendation[] }) {
+  const { pipeline, setStatus, error: pipelineError } = usePipeline();
+  const { people, error } = useTrackedPeople();
+  const [ownerFilters, setOwnerFilters] = useState<Set<string>>(new Set());
+  const [stageFilters, setStageFilters] = useState<Set<string>>(new Set());
+  const [dragging, setDragging] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<PipelineStage | null>(null);
+
+  const peopleByKey = new Map((people ?? []).map((p) => [personKey(p.id), p]));
+  const recsByKey = new Map(recommendations.map((r) => [recommendationKey(r.username), r]));
+  const cards: Card[] = [];
+  for (const record of Object.values(pipeline)) {
+    if (ownerFilters.size > 0 && !ownerFilters.has(record.owner)) continue;
+    const person = peopleByKey.get(record.key);
+    const rec = recsByKey.get(record.key);
+    if (person) cards.push({ kind: "person", record, person });
+    else if (rec) cards.push({ kind: "recommendation", record, rec });
+  }
+  cards.sort((a, b) => b.record.updatedAt.localeCompare(a.record.updatedAt));
+
+  const columns = PIPELINE_STAGES.filter((s) => stageFilters.size === 0 || stageFilters.has(s));
+  // Only the cards in the columns shown, so the count follows the Stage filter too
+  const shown = cards.filter((c) => columns.includes(c.record.stage)).length;
+  const owners = pipelineOwners(pipeline);
+  const ownerOptions = [
+    ...owners.map((o) => ({ value: o, label: o })),
+    { value: UNASSIGNED, label: "Unassigned" },
+  ];
+
+  const drop = (stage: PipelineStage, key: string) => {
+    setDropTarget(null);
+    setDragging(null);
+    if (pipeline[key] && pipeline[key].stage !== stage) setStatus(key, stage);
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Stats bar */}
+      <div className="flex gap-6 text-sm text-muted-foreground">
+        <span><strong className="text-foreground">{shown.toLocaleString()}</strong> in the pipeline</span>
+        {!people && !error && <span>Loading&hellip;</span>}
+        {error && <span className="text-red-600">{error}</span>}
+        {pipelineError && <span className="text-red-600">{pipelineError}</span>}
+      </div>
+
+      {/* Filters */}
+      <div className="flex items-center gap-2 flex-wrap">
+        <MultiSelectDropdown label="Owner" options={ownerOptions} selected={ownerFilters} onChange={setOwnerFilters} />
+        <MultiSelectDropdown
+          label="Stage"
+          options={PIPELINE_STAGES.map((s) => ({ value: s, label: s }))}
+          selected={stageFilters}
+          onChange={setStageFilters}
+        />
+        <span className="text-xs text-muted-foreground">Set a status from a person&apos;s detail dialog or the Twitter list to add them here</span>
+      </div>
+
+      {/* Columns */}
+      <div className="flex gap-3 overflow-x-auto pb-2" style={{ minHeight: "calc(100vh - 300px)" }}>
+        {columns.map((stage) => {
+          const items = cards.filter((c) => c.record.stage === stage);
+          return (
+            <div
+              key={stage}
+              onDragOver={(e) => {
+                if (!dragging) return;
+                e.preventDefault();
+                e.dataTransfer.dropEffect = "move";
+                if (dropTarget !== stage) setDropTarget(stage);
+              }}
+              onDragLeave={(e) => {
+                if (!e.currentTarget.contains(e.relatedTarget as Node)) setDropTarget(null);
+              }}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(stage, e.dataTransfer.getData("text/plain"));
+              }}
+              className={`flex-none w-64 rounded-lg border p-2 space-y-2 transition-colors ${dropTarget === stage ? "bg-muted border-gray-400" : "bg-muted/40"}`}
+            >
+              <div className="flex items-center gap-2 px-1">
+                <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium ${PIPELINE_STAGE_COLORS[stage]}`}>{stage}</span>
+                <span className="text-xs text-muted-foreground">{items.length}</span>
+              </div>
+              {items.map((card) => (
+                <BoardCard key={card.record.key} card={card} onDrag={(key) => { setDragging(key); if (!key) setDropTarget(null); }} />
+              ))}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,149 @@
+"use client";
+
+import { createContext, useContext, useEffect, useState } from "react";
+import {
+  PIPELINE_STAGES,
+  PIPELINE_STAGE_COLORS,
+  UNTRACKED,
+  type Pipeline,
+  type PipelineRecord,
+  type PipelineStage,
+} from "@/lib/pipeline";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+export const PIPELINE_FILTER_OPTIONS = [
+  ...PIPELINE_STAGES.map((s) => ({ value: s as string, label: s as string })),
+  { value: UNTRACKED, label: "Not in pipeline" },
+];
+
+/** Pipeline records for the rows below the provider, so table cells can look theirs up. */
+export const PipelineContext = createContext<Pipeline>({});
+
+export type SetPipelineStatus = (key: string, stage: PipelineStage | null, owner?: string) => Promise<void>;
+
+/** Load `/api/pipeline` once and keep it current as statuses change here. */
+export function usePipeline() {
+  const [pipeline, setPipeline] = useState<Pipeline>({});
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    sendJson("GET", "/api/pipeline")
+      .then((all: Pipeline) => setPipeline(all))
+      .catch((err: Error) => setError(`Couldn't load the pipeline: ${err.message}`));
+  }, []);
+
+  const setStatus: SetPipelineStatus = async (key, stage, owner) => {
+    const nextOwner = owner ?? pipeline[key]?.owner ?? currentTeammate();
+    setError(null);
+    try {
+      const body = await sendJson("PUT", "/api/pipeline", { key, stage, owner: nextOwner });
+      rememberTeammate(nextOwner);
+      setPipeline((prev) => {
+        const next = { ...prev };
+        if (body.record) next[key] = body.record as PipelineRecord;
+        else delete next[key];
+        return next;
+      });
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  return { pipeline, setStatus, error };
+}
+
+export function PipelineBadge({ record }: { record: PipelineRecord | undefined }) {
+  if (!record) return <span className="text-muted-foreground/40 text-sm">-</span>;
+  return (
+    <span
+      className={`inline-flex px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${PIPELINE_STAGE_COLORS[record.stage]}`}
+      title={record.owner ? `${record.owner} · updated ${new Date(record.updatedAt).toLocaleDateString()}` : undefined}
+    >
+      {record.stage}
+    </span>
+  );
+}
+
+/** Table cell for the record under `key` in the surrounding `PipelineContext`. */
+export function PipelineCell({ recordKey }: { recordKey: string }) {
+  const pipeline = useContext(PipelineContext);
+  return <PipelineBadge record={pipeline[recordKey]} />;
+}
+
+/** Compact stage picker for rows that have no detail dialog. */
+export function PipelineSelect({ recordKey, onChange }: { recordKey: string; onChange: SetPipelineStatus }) {
+  const record = useContext(PipelineContext)[recordKey];
+  return (
+    <select
+      value={record?.stage ?? ""}
+      onChange={(e) => onChange(recordKey, (e.target.value || null) as PipelineStage | null)}
+      onClick={(e) => e.stopPropagation()}
+      title={record?.owner ? `${record.owner} · updated ${new Date(record.updatedAt).toLocaleDateString()}` : undefined}
+      className={`px-1.5 py-0.5 rounded text-xs font-medium border-0 cursor-pointer ${record ? PIPELINE_STAGE_COLORS[record.stage] : "bg-transparent text-muted-foreground/60"}`}
+    >
+      <option value="">—</option>
+      {PIPELINE_STAGES.map((s) => (
+        <option key={s} value={s}>{s}</option>
+      ))}
+    </select>
+  );
+}
+
+/** Stage buttons, owner and timestamps for the person detail dialog. */
+export function PipelineControls({ recordKey, owners, onChange }: { recordKey: string; owners: string[]; onChange: SetPipelineStatus }) {
+  const record = useContext(PipelineContext)[recordKey];
+  const [owner, setOwner] = useState(record?.owner ?? "");
+  // Follow the record's owner when it loads or changes elsewhere
+  const [shownOwner, setShownOwner] = useState(record?.owner);
+  if (record?.owner !== shownOwner) {
+    setShownOwner(record?.owner);
+    setOwner(record?.owner ?? "");
+  }
+
+  const saveOwner = () => {
+    if (record && owner.trim() !== record.owner) onChange(recordKey, record.stage, owner.trim());
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap gap-1">
+        {PIPELINE_STAGES.map((s) => (
+          <button
+            key={s}
+            onClick={() => onChange(recordKey, s, owner.trim() || undefined)}
+            className={`px-2 py-0.5 rounded text-xs font-medium cursor-pointer border ${
+              record?.stage === s ? `${PIPELINE_STAGE_COLORS[s]} border-transparent` : "text-muted-foreground hover:bg-muted"
+            }`}
+          >
+            {s}
+          </button>
+        ))}
+        {record && (
+          <button onClick={() => onChange(recordKey, null)} className="px-2 py-0.5 text-xs text-muted-foreground hover:text-foreground cursor-pointer">
+            Remove
+          </button>
+        )}
+      </div>
+      <div className="flex items-center gap-2 text-sm">
+        <input
+          value={owner}
+          onChange={(e) => setOwner(e.target.value)}
+          onBlur={saveOwner}
+          onKeyDown={(e) => e.key === "Enter" && saveOwner()}
+          placeholder="Owner"
+          list="pipeline-owners"
+          className="w-40 px-2 py-1 rounded border bg-background text-sm"
+        />
+        <datalist id="pipeline-owners">
+          {owners.map((o) => <option key={o} value={o} />)}
+        </datalist>
+        {record && (
+          <span className="text-xs text-muted-foreground">
+            Added {new Date(record.createdAt).toLocaleDateString()} &middot; updated {new Date(record.updatedAt).toLocaleString()}
+          </span>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,210 @@
+"use client";
+
+import { useState, useRef, useEffect } from "react";
+import type { Histogram, NumberRange } from "@/lib/people-query";
+
+function toDraft(value: number | null, scale: number): string {
+  return value === null ? "" : String(value / scale);
+}
+
+function fromDraft(draft: string, scale: number): number | null {
+  const value = parseFloat(draft);
+  return Number.isFinite(value) ? value * scale : null;
+}
+
+const thumb =
+  "absolute inset-x-0 top-0 w-full h-4 appearance-none bg-transparent pointer-events-none " +
+  "[&::-webkit-slider-thumb]:pointer-events-auto [&::-webkit-slider-thumb]:appearance-none [&::-webkit-slider-thumb]:w-3.5 [&::-webkit-slider-thumb]:h-3.5 [&::-webkit-slider-thumb]:rounded-full [&::-webkit-slider-thumb]:bg-foreground [&::-webkit-slider-thumb]:cursor-pointer " +
+  "[&::-moz-range-thumb]:pointer-events-auto [&::-moz-range-thumb]:w-3.5 [&::-moz-range-thumb]:h-3.5 [&::-moz-range-thumb]:rounded-full [&::-moz-range-thumb]:bg-foreground [&::-moz-range-thumb]:border-0 [&::-moz-range-thumb]:cursor-pointer";
+
+/** Bars of the current distribution under two slider handles; a handle at either end leaves that side open. */
+function HistogramSlider({
+  histogram,
+  min,
+  max,
+  onMin,
+  onMax,
+}: {
+  histogram: Histogram;
+  min: string;
+  max: string;
+  onMin: (draft: string) => void;
+  onMax: (draft: string) => void;
+}) {
+  const lo = min === "" ? histogram.min : Math.max(histogram.min, Number(min));
+  const hi = max === "" ? histogram.max : Math.min(histogram.max, Number(max));
+  const width = (histogram.max - histogram.min) / histogram.counts.length;
+  const peak = Math.max(1, ...histogram.counts);
+  const pct = (v: number) => `${((v - histogram.min) / (histogram.max - histogram.min)) * 100}%`;
+
+  return (
+    <div className="space-y-1">
+      <div className="flex items-end gap-px h-12">
+        {histogram.counts.map((count, i) => {
+          const from = histogram.min + i * width;
+          const inside = from + width > lo && from <= hi;
+          return (
+            <div
+              key={i}
+              title={`${from}–${from + width}: ${count.toLocaleString()}`}
+              className={`flex-1 rounded-t-sm ${inside ? "bg-foreground/60" : "bg-muted"}`}
+              style={{ height: `${count > 0 ? Math.max(4, (count / peak) * 100) : 0}%` }}
+            />
+          );
+        })}
+      </div>
+      <div className="relative h-4">
+        <div className="absolute inset-x-0 top-1.5 h-1 rounded bg-muted" />
+        <div className="absolute top-1.5 h-1 rounded bg-foreground/60" style={{ left: pct(lo), right: `calc(100% - ${pct(hi)})` }} />
+        <input
+          type="range"
+          aria-label="Minimum"
+          min={histogram.min}
+          max={histogram.max}
+          value={lo}
+          onChange={(e) => {
+            const v = Math.min(Number(e.target.value), hi);
+            onMin(v === histogram.min ? "" : String(v));
+          }}
+          className={thumb}
+        />
+        <input
+          type="range"
+          aria-label="Maximum"
+          min={histogram.min}
+          max={histogram.max}
+          value={hi}
+          onChange={(e) => {
+            const v = Math.max(Number(e.target.value), lo);
+            onMax(v === histogram.max ? "" : String(v));
+          }}
+          className={thumb}
+        />
+      </div>
+    </div>
+  );
+}
+
+/**
+ * Min/max dropdown next to the multi-selects. Values are entered in `unit` and reported multiplied by `scale`.
+ * With a `histogram` (in `unit`) it also shows the distribution and two slider handles.
+ */
+export function RangeFilter({
+  label,
+  unit,
+  scale = 1,
+  value,
+  onChange,
+  histogram,
+}: {
+  label: string;
+  unit: string;
+  scale?: number;
+  value: NumberRange | undefined;
+  onChange: (next: NumberRange | undefined) => void;
+  histogram?: Histogram;
+}) {
+  const [open, setOpen] = useState(false);
+  const [min, setMin] = useState("");
+  const [max, setMax] = useState("");
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [open]);
+
+  const toggle = () => {
+    if (!open) {
+      setMin(toDraft(value?.min ?? null, scale));
+      setMax(toDraft(value?.max ?? null, scale));
+    }
+    setOpen(!open);
+  };
+
+  const apply = () => {
+    const next = { min: fromDraft(min, scale), max: fromDraft(max, scale) };
+    onChange(next.min === null && next.max === null ? undefined : next);
+    setOpen(false);
+  };
+
+  const active = value !== undefined;
+  const summary = active
+    ? [value.min !== null && `≥ ${value.min / scale}`, value.max !== null && `≤ ${value.max / scale}`].filter(Boolean).join(" ")
+    : "";
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={toggle}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md border text-sm transition-colors cursor-pointer ${
+          active
+            ? "border-foreground/30 bg-foreground/5 text-foreground"
+            : "border-border text-muted-foreground hover:border-foreground/20"
+        }`}
+      >
+        {label}
+        {active && <span className="text-xs font-semibold">{summary} {unit}</span>}
+        <svg className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {open && (
+        <form
+          onSubmit={(e) => {
+            e.preventDefault();
+            apply();
+          }}
+          className={`absolute top-full left-0 mt-1 z-50 ${histogram ? "w-64" : "w-56"} bg-popover border rounded-md shadow-md p-3 space-y-2`}
+        >
+          {histogram && <HistogramSlider histogram={histogram} min={min} max={max} onMin={setMin} onMax={setMax} />}
+          <div className="flex items-center gap-2 text-sm">
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              placeholder="Min"
+              value={min}
+              onChange={(e) => setMin(e.target.value)}
+              className="w-full px-2 py-1 rounded border bg-background"
+            />
+            <span className="text-muted-foreground">–</span>
+            <input
+              type="number"
+              inputMode="decimal"
+              min={0}
+              step="any"
+              placeholder="Max"
+              value={max}
+              onChange={(e) => setMax(e.target.value)}
+              className="w-full px-2 py-1 rounded border bg-background"
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-muted-foreground">{unit && `in ${unit}`}</span>
+            <div className="flex gap-1">
+              {active && (
+                <button
+                  type="button"
+                  onClick={() => {
+                    onChange(undefined);
+                    setOpen(false);
+                  }}
+                  className="px-2 py-1 text-xs text-muted-foreground hover:bg-muted/50 rounded cursor-pointer"
+                >
+                  Clear
+                </button>
+              )}
+              <button type="submit" className="px-2 py-1 text-xs rounded bg-foreground text-background cursor-pointer">
+                Apply
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,172 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { pairKey, traitLabel, traitQuery, type CooccurrenceMatrix, type RareCombo, type Trait } from "@/lib/rare-combos";
+import { SPIKE_TAG_MAP } from "@/lib/spike-tags";
+import { PersonAvatar } from "@/components/person-chips";
+import { ScoreBadge } from "@/components/score-badge";
+
+const TRAIT_COUNTS = [15, 25, 40];
+
+function TraitChip({ trait, onClick }: { trait: string; onClick: () => void }) {
+  const spike = trait.startsWith("spike:") ? SPIKE_TAG_MAP[trait.slice("spike:".length)] : undefined;
+  return (
+    <button
+      onClick={onClick}
+      className={`inline-flex px-1.5 py-0.5 rounded text-xs font-medium cursor-pointer hover:underline ${spike?.color ?? "bg-muted"}`}
+    >
+      {traitLabel(trait)}
+    </button>
+  );
+}
+
+/** Trait × trait grid, shaded by how many people hold both; the diagonal is each trait on its own. */
+function Heatmap({ matrix, traits, onDrill }: { matrix: CooccurrenceMatrix; traits: Trait[]; onDrill: (traits: string[]) => void }) {
+  const peak = Math.max(1, ...traits.flatMap((a) => traits.filter((b) => b.key !== a.key).map((b) => matrix.pairs[pairKey(a.key, b.key)] ?? 0)));
+
+  return (
+    <div className="overflow-auto border rounded-md">
+      <table className="text-xs border-collapse">
+        <thead>
+          <tr>
+            <th className="sticky left-0 bg-background" />
+            {traits.map((t) => (
+              <th key={t.key} className="h-32 w-7 align-bottom p-0 font-normal">
+                <div className="w-7 [writing-mode:vertical-rl] rotate-180 whitespace-nowrap text-muted-foreground pb-1" title={`${t.label}: ${t.count.toLocaleString()} people`}>
+                  {t.kind === "spike" && "◆ "}
+                  {t.label}
+                </div>
+              </th>
+            ))}
+          </tr>
+        </thead>
+        <tbody>
+          {traits.map((a) => (
+            <tr key={a.key}>
+              <th className="sticky left-0 bg-background text-left font-normal pr-2 whitespace-nowrap text-muted-foreground" title={`${a.count.toLocaleString()} people`}>
+                {a.kind === "spike" && "◆ "}
+                {a.label}
+              </th>
+              {traits.map((b) => {
+                if (a.key === b.key) {
+                  return (
+                    <td key={b.key} className="p-0">
+                      <button
+                        onClick={() => onDrill([a.key])}
+                        title={`${a.label}: ${a.count.toLocaleString()} people`}
+                        className="w-7 h-7 bg-muted text-[10px] text-muted-foreground cursor-pointer hover:ring-1 hover:ring-foreground"
+                      >
+                        &middot;
+                      </button>
+                    </td>
+                  );
+                }
+                const count = matrix.pairs[pairKey(a.key, b.key)] ?? 0;
+                const expected = (a.count * b.count) / matrix.total;
+                const shade = count > 0 ? 0.1 + 0.9 * (Math.log(count + 1) / Math.log(peak + 1)) : 0;
+                return (
+                  <td key={b.key} className="p-0">
+                    <button
+                      onClick={() => count > 0 && onDrill([a.key, b.key])}
+                      disabled={count === 0}
+                      title={`${a.label} + ${b.label}: ${count.toLocaleString()} people (${expected.toFixed(1)} if unrelated)`}
+                      className={`w-7 h-7 text-[10px] ${count > 0 ? "cursor-pointer hover:ring-1 hover:ring-foreground" : "cursor-default"} ${shade > 0.6 ? "text-white" : ""}`}
+                      style={{ backgroundColor: count > 0 ? `rgba(37, 99, 235, ${shade})` : undefined }}
+                    >
+                      {count > 0 ? count : ""}
+                    </button>
+                  </td>
+                );
+              })}
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+/**
+ * The rare-combination finder: a co-occurrence heatmap of categories and spike tags, and the people
+ * whose pairs are rarest. Any cell or pair opens the people who hold it in the Outliers table.
+ */
+export function RareCombos({ onDrill }: { onDrill: (params: URLSearchParams) => void }) {
+  const [data, setData] = useState<{ matrix: CooccurrenceMatrix; combos: RareCombo[] } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [traitCount, setTraitCount] = useState(TRAIT_COUNTS[1]);
+
+  useEffect(() => {
+    fetch("/api/combos?limit=100")
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        setData(body);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, []);
+
+  if (error) return <div className="text-sm text-red-600">{error}</div>;
+  if (!data) return <div className="text-sm text-muted-foreground">Counting combinations…</div>;
+
+  const { matrix, combos } = data;
+  const drill = (traits: string[]) => onDrill(traitQuery(traits));
+
+  return (
+    <div className="space-y-6">
+      <blockquote className="border-l-2 border-muted-foreground/30 pl-3 text-sm italic text-muted-foreground">
+        &ldquo;A Venn-diagram overlap of traits you almost never see together.&rdquo;
+      </blockquote>
+
+      <section className="space-y-2">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Co-occurrence</h2>
+          <select
+            value={traitCount}
+            onChange={(e) => setTraitCount(Number(e.target.value))}
+            className="h-7 px-2 rounded-md border bg-background text-xs"
+          >
+            {TRAIT_COUNTS.map((n) => (
+              <option key={n} value={n}>Top {n} traits</option>
+            ))}
+          </select>
+          <span className="text-xs text-muted-foreground">
+            {matrix.traits.length} traits across {matrix.total.toLocaleString()} people &middot; ◆ spike tag &middot; click a cell to see its people
+          </span>
+        </div>
+        <Heatmap matrix={matrix} traits={matrix.traits.slice(0, traitCount)} onDrill={drill} />
+      </section>
+
+      <section className="space-y-2">
+        <h2 className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Rarest combinations</h2>
+        <p className="text-xs text-muted-foreground">
+          Each person&apos;s least common pair of traits, rarest first. &ldquo;1 in N&rdquo; is how many people in the pool there are for each one holding the pair.
+        </p>
+        <ol className="rounded-lg border divide-y">
+          {combos.map((c, i) => (
+            <li key={c.person.id} className="flex items-center gap-3 px-3 py-2">
+              <span className="w-6 text-right text-xs text-muted-foreground font-mono">{i + 1}</span>
+              <ScoreBadge score={c.person.outlierScore} palette="blue" />
+              <PersonAvatar twitter={c.person.twitter} />
+              <div className="min-w-0 flex-1">
+                <Link href={`/people/${c.person.id}`} className="text-sm font-medium text-blue-600 hover:underline">{c.person.name}</Link>
+                {c.person.company && <span className="text-sm text-muted-foreground"> &middot; {c.person.company}</span>}
+                <div className="flex flex-wrap items-center gap-1 mt-0.5">
+                  <TraitChip trait={c.pair[0]} onClick={() => drill(c.pair)} />
+                  <span className="text-xs text-muted-foreground">+</span>
+                  <TraitChip trait={c.pair[1]} onClick={() => drill(c.pair)} />
+                </div>
+              </div>
+              <div className="text-right shrink-0">
+                <div className="text-sm font-mono">1 in {Math.round(matrix.total / c.shared).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground" title={`${c.expected.toFixed(1)} expected if the traits were unrelated`}>
+                  {c.shared === 1 ? "only one" : `${c.shared} people`} &middot; {c.bits.toFixed(1)} bits
+                </div>
+              </div>
+            </li>
+          ))}
+        </ol>
+      </section>
+    </div>
+  );
+}
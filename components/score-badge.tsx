@@ -0,0 +1,39 @@
+/** Score pill shaded by how close to 100 it is. */
+export function ScoreBadge({ score, palette = "green" }: { score: number; palette?: "green" | "blue" | "purple" }) {
+  const palettes = {
+    green: {
+      98: "bg-emerald-200 text-emerald-900",
+      95: "bg-green-200 text-green-900",
+      90: "bg-green-100 text-green-800",
+      80: "bg-lime-100 text-lime-800",
+      70: "bg-yellow-100 text-yellow-800",
+      50: "bg-orange-100 text-orange-700",
+      0: "bg-gray-100 text-gray-500",
+    },
+    blue: {
+      98: "bg-blue-200 text-blue-900",
+      95: "bg-blue-100 text-blue-800",
+      90: "bg-sky-100 text-sky-800",
+      80: "bg-cyan-100 text-cyan-800",
+      70: "bg-teal-100 text-teal-700",
+      50: "bg-slate-100 text-slate-600",
+      0: "bg-gray-100 text-gray-500",
+    },
+    purple: {
+      98: "bg-violet-200 text-violet-900",
+      95: "bg-purple-100 text-purple-800",
+      90: "bg-fuchsia-100 text-fuchsia-800",
+      80: "bg-pink-100 text-pink-800",
+      70: "bg-rose-100 text-rose-700",
+      50: "bg-slate-100 text-slate-600",
+      0: "bg-gray-100 text-gray-500",
+    },
+  };
+  const p = palettes[palette];
+  const style = score >= 98 ? p[98] : score >= 95 ? p[95] : score >= 90 ? p[90] : score >= 80 ? p[80] : score >= 70 ? p[70] : score >= 50 ? p[50] : p[0];
+  return (
+    <span className={`inline-flex items-center justify-center px-1.5 py-0.5 rounded text-xs font-semibold font-mono ${style}`}>
+      {Number.isInteger(score) ? score : score.toFixed(1)}
+    </span>
+  );
+}
@@ -0,0 +1,259 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { BONUS_KINDS, DEFAULT_WEIGHTS, type BonusKind, type ScoringProfile, type ScoringWeights } from "@/lib/scoring";
+import type { FacetCounts } from "@/lib/people-query";
+import { SPIKE_TAGS } from "@/lib/spike-tags";
+import { STAGES } from "@/lib/stages";
+import { categoryLabel } from "@/lib/categories";
+import { countryByCode } from "@/lib/countries";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+const BONUS_TITLES: Record<BonusKind, string> = {
+  spikes: "Spike tags",
+  categories: "Categories",
+  stages: "Stage",
+  countries: "Country",
+};
+
+const countryName = (code: string) => {
+  const country = countryByCode(code);
+  return country ? `${country.flag} ${country.name}` : code;
+};
+
+/** What can get a bonus, most common first where the current page's facet counts say so. */
+function bonusOptions(kind: BonusKind, facets: FacetCounts | undefined): { value: string; label: string }[] {
+  const byCount = (counts: Record<string, number> = {}) => Object.keys(counts).sort((a, b) => counts[b] - counts[a]);
+  switch (kind) {
+    case "spikes":
+      return SPIKE_TAGS.map((t) => ({ value: t.key, label: t.key }));
+    case "stages":
+      return STAGES.map((s) => ({ value: s, label: s }));
+    case "categories":
+      return byCount(facets?.category).map((c) => ({ value: c, label: categoryLabel(c) }));
+    case "countries":
+      return byCount(facets?.country).filter((c) => countryByCode(c)).map((c) => ({ value: c, label: countryName(c) }));
+  }
+}
+
+function WeightSlider({ label, value, onChange }: { label: string; value: number; onChange: (value: number) => void }) {
+  return (
+    <label className="flex items-center gap-2 text-sm">
+      <span className="w-32 shrink-0">{label}</span>
+      <input type="range" min={0} max={3} step={0.1} value={value} onChange={(e) => onChange(Number(e.target.value))} className="flex-1" />
+      <span className="w-8 text-right font-mono text-xs">×{value}</span>
+    </label>
+  );
+}
+
+/** Points for one kind of trait: the ones given so far, and a picker to add another. */
+function BonusList({
+  kind,
+  bonuses,
+  options,
+  onChange,
+}: {
+  kind: BonusKind;
+  bonuses: Record<string, number>;
+  options: { value: string; label: string }[];
+  onChange: (next: Record<string, number>) => void;
+}) {
+  const labelOf = (value: string) => options.find((o) => o.value === value)?.label ?? value;
+  const set = (key: string, points: number | null) => {
+    const next = { ...bonuses };
+    if (points === null) delete next[key];
+    else next[key] = points;
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-1">
+      <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">{BONUS_TITLES[kind]}</div>
+      {Object.entries(bonuses).map(([key, points]) => (
+        <div key={key} className="flex items-center gap-2 text-sm">
+          <span className="flex-1 truncate">{labelOf(key)}</span>
+          <input
+            type="number"
+            step={1}
+            value={points}
+            onChange={(e) => set(key, Number.isFinite(e.target.valueAsNumber) ? e.target.valueAsNumber : 0)}
+            className="w-16 px-1.5 py-0.5 rounded border bg-background text-right"
+          />
+          <span className="text-xs text-muted-foreground">pts</span>
+          <button onClick={() => set(key, null)} className="text-muted-foreground hover:text-red-600 cursor-pointer" title="Remove">
+            &times;
+          </button>
+        </div>
+      ))}
+      <select
+        value=""
+        onChange={(e) => e.target.value && set(e.target.value, 5)}
+        className="w-full px-1.5 py-0.5 rounded border bg-background text-xs text-muted-foreground"
+      >
+        <option value="">+ Add a bonus…</option>
+        {options
+          .filter((o) => !(o.value in bonuses))
+          .map((o) => (
+            <option key={o.value} value={o.value}>{o.label}</option>
+          ))}
+      </select>
+    </div>
+  );
+}
+
+/**
+ * Dropdown for tuning the custom score. Every change applies at once, so the table re-sorts as the
+ * weights move; profiles keep a teammate's favourite weights under a name.
+ */
+export function ScoringPanel({
+  weights,
+  onChange,
+  facets,
+}: {
+  weights: ScoringWeights | null;
+  onChange: (next: ScoringWeights | null) => void;
+  facets: FacetCounts | undefined;
+}) {
+  const [open, setOpen] = useState(false);
+  const [owner, setOwner] = useState(() => (typeof window === "undefined" ? "" : currentTeammate()));
+  const [askName] = useState(() => !owner);
+  const [profiles, setProfiles] = useState<ScoringProfile[]>([]);
+  const [name, setName] = useState("");
+  const [error, setError] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [open]);
+
+  const profileOwner = owner.trim();
+  useEffect(() => {
+    if (!open || !profileOwner) return;
+    fetch(`/api/scoring?owner=${encodeURIComponent(profileOwner)}`)
+      .then((res) => res.json())
+      .then((all: ScoringProfile[]) => setProfiles(all))
+      .catch(() => setProfiles([]));
+  }, [open, profileOwner]);
+
+  const run = async (update: () => Promise<void>) => {
+    setError(null);
+    try {
+      await update();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const saveProfile = () =>
+    run(async () => {
+      if (!weights) return;
+      const { profile } = await sendJson("POST", "/api/scoring", { name, owner, weights });
+      rememberTeammate(owner);
+      setProfiles((prev) => (prev.some((s) => s.id === profile.id) ? prev.map((s) => (s.id === profile.id ? profile : s)) : [...prev, profile]));
+      setName("");
+    });
+
+  const removeProfile = (profile: ScoringProfile) =>
+    run(async () => {
+      if (!window.confirm(`Delete the scoring profile "${profile.name}"?`)) return;
+      await sendJson("DELETE", `/api/scoring/${profile.id}`);
+      setProfiles((prev) => prev.filter((s) => s.id !== profile.id));
+    });
+
+  return (
+    <div ref={ref} className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={`flex items-center gap-1.5 px-3 py-1.5 rounded-md border text-sm transition-colors cursor-pointer ${
+          weights
+            ? "border-foreground/30 bg-foreground/5 text-foreground"
+            : "border-border text-muted-foreground hover:border-foreground/20"
+        }`}
+      >
+        Scoring
+        {weights && <span className="text-xs font-semibold">custom</span>}
+        <svg className={`w-3.5 h-3.5 transition-transform ${open ? "rotate-180" : ""}`} fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}><path strokeLinecap="round" strokeLinejoin="round" d="M19 9l-7 7-7-7" /></svg>
+      </button>
+      {open && (
+        <div className="absolute top-full left-0 mt-1 z-50 w-96 max-h-[70vh] overflow-y-auto bg-popover border rounded-md shadow-md p-3 space-y-3">
+          <label className="flex items-center gap-2 text-sm font-medium cursor-pointer">
+            <input type="checkbox" checked={!!weights} onChange={(e) => onChange(e.target.checked ? DEFAULT_WEIGHTS : null)} className="rounded" />
+            Rank by a custom score
+          </label>
+          {weights && (
+            <>
+              <p className="text-xs text-muted-foreground">
+                The weighted average of the two scores, plus the points below for each trait a person has.
+              </p>
+              <div className="space-y-1">
+                <WeightSlider label="Outlier" value={weights.outlierScore} onChange={(v) => onChange({ ...weights, outlierScore: v })} />
+                <WeightSlider label="Startup likelihood" value={weights.startupLikelihood} onChange={(v) => onChange({ ...weights, startupLikelihood: v })} />
+              </div>
+              {BONUS_KINDS.map((kind) => (
+                <BonusList
+                  key={kind}
+                  kind={kind}
+                  bonuses={weights[kind]}
+                  options={bonusOptions(kind, facets)}
+                  onChange={(next) => onChange({ ...weights, [kind]: next })}
+                />
+              ))}
+            </>
+          )}
+
+          <div className="border-t pt-2 space-y-1">
+            <div className="text-xs font-medium text-muted-foreground uppercase tracking-wide">Your profiles</div>
+            {askName && (
+              <input
+                value={owner}
+                onChange={(e) => setOwner(e.target.value)}
+                placeholder="Your name, to keep your profiles"
+                className="w-full px-2 py-1 rounded border bg-background text-sm"
+              />
+            )}
+            {profileOwner && profiles.length === 0 && <div className="text-sm text-muted-foreground">No saved profiles yet.</div>}
+            {profiles.map((s) => (
+              <div key={s.id} className="group flex items-center gap-2 text-sm">
+                <button onClick={() => onChange(s.weights)} className="flex-1 min-w-0 text-left truncate text-blue-600 hover:underline cursor-pointer">
+                  {s.name}
+                </button>
+                <button
+                  onClick={() => removeProfile(s)}
+                  className="invisible group-hover:visible text-muted-foreground hover:text-red-600 cursor-pointer"
+                  title="Delete profile"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+            {weights && (
+              <div className="flex items-center gap-1">
+                <input
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && name.trim() && saveProfile()}
+                  placeholder="Save these weights as…"
+                  className="flex-1 min-w-0 px-2 py-1 rounded border bg-background text-sm"
+                />
+                <button
+                  onClick={saveProfile}
+                  disabled={!name.trim()}
+                  className="px-2.5 py-1 border rounded-md text-xs hover:bg-muted cursor-pointer disabled:opacity-40 disabled:cursor-default"
+                >
+                  Save
+                </button>
+              </div>
+            )}
+            {error && <div className="text-xs text-red-600">{error}</div>}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,14 @@
+import { parseStage, STAGE_COLORS } from "@/lib/stages";
+
+/** Colored stage pill for a raw stage string; text that isn't a stage is shown plain. */
+export function StageBadge({ value }: { value: string }) {
+  if (!value) return <span className="text-muted-foreground/40 text-sm">-</span>;
+  const info = parseStage(value);
+  if (!info) return <span className="text-xs text-muted-foreground">{value}</span>;
+  return (
+    <span className={`inline-flex px-2 py-0.5 rounded text-xs font-medium whitespace-nowrap ${STAGE_COLORS[info.stage]}`} title={value}>
+      {info.stage}
+      {info.exitYear !== null && ` ${info.exitYear}`}
+    </span>
+  );
+}
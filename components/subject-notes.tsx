@@ -0,0 +1,229 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { Markdown } from "@/components/markdown";
+import { mentionHandle, type Comment, type SubjectNote, type SubjectThread } from "@/lib/notes";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+const label = "text-xs font-medium text-muted-foreground uppercase tracking-wide mb-1";
+const textareaClass = "w-full min-h-[72px] px-2 py-1.5 rounded border bg-background text-sm";
+const buttonClass = "px-2.5 py-1 border rounded-md text-xs hover:bg-muted cursor-pointer disabled:opacity-40 disabled:cursor-default";
+
+const when = (iso: string) => new Date(iso).toLocaleString(undefined, { dateStyle: "medium", timeStyle: "short" });
+
+/** Textarea that offers teammates to complete a trailing "@na…". */
+function Composer({
+  teammates,
+  placeholder,
+  submitLabel,
+  initial = "",
+  onSubmit,
+  onCancel,
+}: {
+  teammates: string[];
+  placeholder: string;
+  submitLabel: string;
+  initial?: string;
+  onSubmit: (text: string) => Promise<boolean>;
+  onCancel?: () => void;
+}) {
+  const [text, setText] = useState(initial);
+  const [busy, setBusy] = useState(false);
+  const partial = /(?:^|\s)@([\p{L}\p{N}_.-]*)$/u.exec(text)?.[1];
+  const suggestions =
+    partial === undefined ? [] : teammates.filter((t) => mentionHandle(t).toLowerCase().startsWith(partial.toLowerCase())).slice(0, 5);
+
+  const submit = async () => {
+    setBusy(true);
+    if (await onSubmit(text)) setText("");
+    setBusy(false);
+  };
+
+  return (
+    <div className="space-y-1">
+      <textarea
+        value={text}
+        onChange={(e) => setText(e.target.value)}
+        onKeyDown={(e) => e.key === "Enter" && (e.metaKey || e.ctrlKey) && !busy && submit()}
+        placeholder={placeholder}
+        className={textareaClass}
+      />
+      <div className="flex items-center gap-1 flex-wrap">
+        {suggestions.map((t) => (
+          <button
+            key={t}
+            onClick={() => setText(text.slice(0, text.length - (partial?.length ?? 0)) + `${mentionHandle(t)} `)}
+            className="px-1.5 py-0.5 rounded bg-blue-50 text-blue-700 text-xs cursor-pointer"
+          >
+            @{mentionHandle(t)}
+          </button>
+        ))}
+        <span className="ml-auto text-[11px] text-muted-foreground">Markdown · @name mentions a teammate</span>
+        {onCancel && <button onClick={onCancel} className={buttonClass}>Cancel</button>}
+        <button onClick={submit} disabled={busy} className={buttonClass}>{submitLabel}</button>
+      </div>
+    </div>
+  );
+}
+
+function CommentView({
+  comment,
+  teammates,
+  onReply,
+  onDelete,
+}: {
+  comment: Comment;
+  teammates: string[];
+  onReply?: () => void;
+  onDelete: () => void;
+}) {
+  return (
+    <div className="space-y-0.5">
+      <div className="flex items-center gap-2 text-xs text-muted-foreground">
+        <span className="font-medium text-foreground">{comment.author}</span>
+        <span>{when(comment.createdAt)}</span>
+        {onReply && <button onClick={onReply} className="hover:text-foreground cursor-pointer">Reply</button>}
+        <button onClick={onDelete} className="hover:text-red-600 cursor-pointer">Delete</button>
+      </div>
+      <Markdown text={comment.body} teammates={teammates} />
+    </div>
+  );
+}
+
+/** The team's note and comment thread for one person or recommendation, loaded from `/api/notes`. */
+export function SubjectNotes({ subjectKey }: { subjectKey: string }) {
+  const [thread, setThread] = useState<SubjectThread | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [author, setAuthor] = useState(() => (typeof window === "undefined" ? "" : currentTeammate()));
+  // Ask for a name once per browser; it stays editable until the first save remembers it
+  const [askName] = useState(() => !author);
+  const [editingNote, setEditingNote] = useState(false);
+  const [replyTo, setReplyTo] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    fetch(`/api/notes?key=${encodeURIComponent(subjectKey)}`, { signal: controller.signal })
+      .then(async (res) => {
+        const body = await res.json();
+        if (!res.ok) throw new Error(body.error || res.statusText);
+        setThread(body as SubjectThread);
+      })
+      .catch((err: Error) => {
+        if (!controller.signal.aborted) setError(err.message);
+      });
+    return () => controller.abort();
+  }, [subjectKey]);
+
+  if (!thread) return error ? <div className="text-sm text-red-600">{error}</div> : null;
+  const teammates = [...new Set([...thread.teammates, ...(author ? [author] : [])])];
+
+  // Runs an update; false keeps the composer's text so nothing typed is lost
+  const run = async (update: () => Promise<void>): Promise<boolean> => {
+    setError(null);
+    try {
+      await update();
+      rememberTeammate(author);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    }
+  };
+
+  const saveNote = (body: string) =>
+    run(async () => {
+      const { note } = await sendJson("PUT", "/api/notes", { key: subjectKey, body, author });
+      setThread({ ...thread, note: note as SubjectNote | null });
+      setEditingNote(false);
+    });
+
+  const addComment = (body: string, parentId: string | null) =>
+    run(async () => {
+      const { comment } = await sendJson("POST", "/api/notes", { key: subjectKey, body, author, parentId });
+      setThread({ ...thread, comments: [...thread.comments, comment as Comment] });
+      setReplyTo(null);
+    });
+
+  const deleteComment = (id: string) =>
+    run(async () => {
+      await sendJson("DELETE", `/api/notes?id=${encodeURIComponent(id)}`);
+      setThread({ ...thread, comments: thread.comments.filter((c) => c.id !== id && c.parentId !== id) });
+    });
+
+  const ids = new Set(thread.comments.map((c) => c.id));
+  // Replies whose parent is gone are shown at the top level
+  const topLevel = thread.comments.filter((c) => c.parentId === null || !ids.has(c.parentId));
+  const replies = (id: string) => thread.comments.filter((c) => c.parentId === id);
+
+  return (
+    <div className="space-y-4">
+      {askName && (
+        <input
+          value={author}
+          onChange={(e) => setAuthor(e.target.value)}
+          placeholder="Your name, to sign notes and comments"
+          className="w-64 px-2 py-1 rounded border bg-background text-sm"
+        />
+      )}
+
+      <div>
+        <div className="flex items-center gap-2">
+          <div className={label}>Team notes</div>
+          {!editingNote && (
+            <button onClick={() => setEditingNote(true)} className="mb-1 text-xs text-blue-600 hover:underline cursor-pointer">
+              {thread.note ? "Edit" : "Add"}
+            </button>
+          )}
+        </div>
+        {editingNote ? (
+          <Composer
+            teammates={teammates}
+            placeholder="Context from calls, intros, what to ask next…"
+            submitLabel="Save"
+            initial={thread.note?.body ?? ""}
+            onSubmit={saveNote}
+            onCancel={() => setEditingNote(false)}
+          />
+        ) : thread.note ? (
+          <div className="space-y-1">
+            <Markdown text={thread.note.body} teammates={teammates} />
+            <div className="text-xs text-muted-foreground">{thread.note.author} &middot; {when(thread.note.updatedAt)}</div>
+          </div>
+        ) : (
+          <div className="text-sm text-muted-foreground">No notes yet.</div>
+        )}
+      </div>
+
+      <div>
+        <div className={label}>Comments ({thread.comments.length})</div>
+        <div className="space-y-3">
+          {topLevel.map((c) => (
+            <div key={c.id} className="space-y-2">
+              <CommentView comment={c} teammates={teammates} onReply={() => setReplyTo(c.id)} onDelete={() => deleteComment(c.id)} />
+              {(replies(c.id).length > 0 || replyTo === c.id) && (
+                <div className="ml-4 pl-3 border-l-2 border-muted-foreground/20 space-y-2">
+                  {replies(c.id).map((r) => (
+                    <CommentView key={r.id} comment={r} teammates={teammates} onDelete={() => deleteComment(r.id)} />
+                  ))}
+                  {replyTo === c.id && (
+                    <Composer
+                      teammates={teammates}
+                      placeholder={`Reply to ${c.author}`}
+                      submitLabel="Reply"
+                      onSubmit={(body) => addComment(body, c.id)}
+                      onCancel={() => setReplyTo(null)}
+                    />
+                  )}
+                </div>
+              )}
+            </div>
+          ))}
+          <Composer teammates={teammates} placeholder="Add a comment" submitLabel="Comment" onSubmit={(body) => addComment(body, null)} />
+        </div>
+      </div>
+
+      {error && <div className="text-sm text-red-600">{error}</div>}
+    </div>
+  );
+}
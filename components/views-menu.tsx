@@ -0,0 +1,125 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { VIEW_TAB_LABELS, parseViewHref, type SavedView } from "@/lib/views";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+/**
+ * Header menu of the team's saved views, with saving the current one and copying its link. The
+ * current view is whatever the address bar holds, which the tables keep up to date.
+ */
+export function ViewsMenu({ onOpen }: { onOpen: (view: SavedView) => void }) {
+  const [open, setOpen] = useState(false);
+  const [views, setViews] = useState<SavedView[]>([]);
+  const [name, setName] = useState("");
+  const [copied, setCopied] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    fetch("/api/views")
+      .then((res) => res.json())
+      .then((all: SavedView[]) => setViews(all))
+      .catch(() => setViews([]));
+  }, []);
+
+  useEffect(() => {
+    if (!open) return;
+    const handler = (e: MouseEvent) => {
+      if (ref.current && !ref.current.contains(e.target as Node)) setOpen(false);
+    };
+    document.addEventListener("mousedown", handler);
+    return () => document.removeEventListener("mousedown", handler);
+  }, [open]);
+
+  const run = async (update: () => Promise<void>) => {
+    setError(null);
+    try {
+      await update();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const saveCurrent = () =>
+    run(async () => {
+      const { tab, params } = parseViewHref(window.location.search);
+      const author = currentTeammate();
+      const { view } = await sendJson("POST", "/api/views", { name, tab, query: params.toString(), author });
+      rememberTeammate(author);
+      setViews((prev) => (prev.some((v) => v.id === view.id) ? prev.map((v) => (v.id === view.id ? view : v)) : [...prev, view]));
+      setName("");
+    });
+
+  const remove = (view: SavedView) =>
+    run(async () => {
+      if (!window.confirm(`Delete the view "${view.name}" for everyone?`)) return;
+      await sendJson("DELETE", `/api/views/${view.id}`);
+      setViews((prev) => prev.filter((v) => v.id !== view.id));
+    });
+
+  const copyLink = async () => {
+    await navigator.clipboard.writeText(window.location.href);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 1500);
+  };
+
+  return (
+    <div ref={ref} className="relative">
+      <button onClick={() => setOpen(!open)} className="text-sm text-muted-foreground hover:text-foreground cursor-pointer">
+        Views
+      </button>
+      {open && (
+        <div className="absolute top-full right-0 mt-1 z-50 w-72 bg-popover border rounded-md shadow-md py-1">
+          {views.length === 0 && <div className="px-3 py-1.5 text-sm text-muted-foreground">No saved views yet.</div>}
+          <div className="max-h-72 overflow-y-auto">
+            {views.map((v) => (
+              <div key={v.id} className="group flex items-center gap-2 px-3 py-1.5 text-sm hover:bg-muted/50">
+                <button
+                  onClick={() => {
+                    onOpen(v);
+                    setOpen(false);
+                  }}
+                  className="flex-1 min-w-0 text-left cursor-pointer"
+                  title={v.createdBy ? `Saved by ${v.createdBy}` : undefined}
+                >
+                  <span className="truncate">{v.name}</span>
+                  <span className="ml-2 text-xs text-muted-foreground">{VIEW_TAB_LABELS[v.tab]}</span>
+                </button>
+                <button
+                  onClick={() => remove(v)}
+                  className="invisible group-hover:visible text-muted-foreground hover:text-red-600 cursor-pointer"
+                  title="Delete view"
+                >
+                  &times;
+                </button>
+              </div>
+            ))}
+          </div>
+          <div className="border-t my-1" />
+          <div className="flex items-center gap-1 px-3 py-1">
+            <input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && name.trim() && saveCurrent()}
+              placeholder="Save this view as…"
+              className="flex-1 min-w-0 px-2 py-1 rounded border bg-background text-sm"
+            />
+            <button
+              onClick={saveCurrent}
+              disabled={!name.trim()}
+              className="px-2.5 py-1 border rounded-md text-xs hover:bg-muted cursor-pointer disabled:opacity-40 disabled:cursor-default"
+            >
+              Save
+            </button>
+          </div>
+          <button onClick={copyLink} className="w-full text-left px-3 py-1.5 text-xs text-blue-600 hover:bg-muted/50 cursor-pointer">
+            {copied ? "Link copied" : "Copy link to this view"}
+          </button>
+          {error && <div className="px-3 py-1 text-xs text-red-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,251 @@
+"use client";
+
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { watchlistsWith, type Watchlist } from "@/lib/watchlists";
+import { isRecommendationKey } from "@/lib/subjects";
+import { currentTeammate, rememberTeammate } from "@/lib/teammate";
+import { sendJson } from "@/lib/api-client";
+
+export interface Watchlists {
+  watchlists: Watchlist[];
+  error: string | null;
+  create: (name: string, description?: string) => Promise<Watchlist | null>;
+  update: (id: string, update: { name?: string; description?: string }) => Promise<void>;
+  remove: (id: string) => Promise<void>;
+  /** Put `key` on the list or take it off */
+  setEntry: (id: string, key: string, member: boolean) => Promise<void>;
+}
+
+const noop = async () => {};
+
+/** The team's lists for the rows below the provider, so table cells can add and remove people. */
+export const WatchlistContext = createContext<Watchlists>({
+  watchlists: [],
+  error: null,
+  create: async () => null,
+  update: noop,
+  remove: noop,
+  setEntry: noop,
+});
+
+/** Load `/api/watchlists` once and keep it current as lists change here. */
+export function useWatchlists(): Watchlists {
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch("/api/watchlists")
+      .then((res) => res.json())
+      .then((all: Watchlist[]) => setWatchlists(all))
+      .catch(() => setWatchlists([]));
+  }, []);
+
+  const run = async <T,>(update: () => Promise<T>): Promise<T | null> => {
+    setError(null);
+    try {
+      return await update();
+    } catch (err) {
+      setError((err as Error).message);
+      return null;
+    }
+  };
+
+  const put = (list: Watchlist) => setWatchlists((prev) => prev.map((w) => (w.id === list.id ? list : w)));
+
+  return {
+    watchlists,
+    error,
+    create: (name, description = "") =>
+      run(async () => {
+        const author = currentTeammate();
+        const { watchlist } = await sendJson("POST", "/api/watchlists", { name, description, author });
+        rememberTeammate(author);
+        setWatchlists((prev) => [...prev, watchlist as Watchlist]);
+        return watchlist as Watchlist;
+      }),
+    update: async (id, update) => {
+      await run(async () => put((await sendJson("PATCH", `/api/watchlists/${id}`, update)).watchlist));
+    },
+    remove: async (id) => {
+      await run(async () => {
+        await sendJson("DELETE", `/api/watchlists/${id}`);
+        setWatchlists((prev) => prev.filter((w) => w.id !== id));
+      });
+    },
+    setEntry: async (id, key, member) => {
+      await run(async () => put((await sendJson("PUT", `/api/watchlists/${id}/entries`, { key, member, author: currentTeammate() })).watchlist));
+    },
+  };
+}
+
+/** Text field that creates a list on Enter and hands it back. */
+function NewListInput({ onCreated }: { onCreated: (list: Watchlist) => void }) {
+  const { create } = useContext(WatchlistContext);
+  const [name, setName] = useState("");
+
+  const submit = async () => {
+    if (!name.trim()) return;
+    const list = await create(name.trim());
+    if (list) {
+      setName("");
+      onCreated(list);
+    }
+  };
+
+  return (
+    <input
+      value={name}
+      onChange={(e) => setName(e.target.value)}
+      onKeyDown={(e) => e.key === "Enter" && submit()}
+      placeholder="New list…"
+      className="w-36 px-2 py-0.5 rounded border bg-background text-xs"
+    />
+  );
+}
+
+/** Every list as a toggle for one person or recommendation, for detail dialogs. */
+export function WatchlistPicker({ subjectKey }: { subjectKey: string }) {
+  const { watchlists, setEntry, error } = useContext(WatchlistContext);
+  const on = new Set(watchlistsWith(watchlists, subjectKey).map((w) => w.id));
+
+  return (
+    <div className="space-y-1">
+      <div className="flex flex-wrap items-center gap-1">
+        {watchlists.map((w) => (
+          <button
+            key={w.id}
+            onClick={() => setEntry(w.id, subjectKey, !on.has(w.id))}
+            title={w.description || undefined}
+            className={`px-2 py-0.5 rounded text-xs font-medium cursor-pointer border ${
+              on.has(w.id) ? "bg-amber-100 text-amber-800 border-transparent" : "text-muted-foreground hover:bg-muted"
+            }`}
+          >
+            {on.has(w.id) ? "★" : "☆"} {w.name}
+          </button>
+        ))}
+        <NewListInput onCreated={(list) => setEntry(list.id, subjectKey, true)} />
+      </div>
+      {error && <div className="text-xs text-red-600">{error}</div>}
+    </div>
+  );
+}
+
+/** Star for table rows: shows how many lists hold the row and opens a checklist of them. */
+export function WatchlistButton({ subjectKey }: { subjectKey: string }) {
+  const { watchlists, setEntry, error } = useContext(WatchlistContext);
+  const [anchor, setAnchor] = useState<DOMRect | null>(null);
+  const ref = useRef<HTMLDivElement>(null);
+  const on = watchlistsWith(watchlists, subjectKey);
+
+  // Rows clip overflow, so the menu is fixed to where the star was and closes on scroll
+  useEffect(() => {
+    if (!anchor) return;
+    const close = (e: Event) => {
+      if (!ref.current?.contains(e.target as Node)) setAnchor(null);
+    };
+    document.addEventListener("mousedown", close);
+    document.addEventListener("scroll", close, true);
+    return () => {
+      document.removeEventListener("mousedown", close);
+      document.removeEventListener("scroll", close, true);
+    };
+  }, [anchor]);
+
+  return (
+    <div ref={ref} onClick={(e) => e.stopPropagation()}>
+      <button
+        onClick={(e) => setAnchor(anchor ? null : e.currentTarget.getBoundingClientRect())}
+        title={on.length > 0 ? on.map((w) => w.name).join(", ") : "Add to a list"}
+        className={`text-sm cursor-pointer whitespace-nowrap ${on.length > 0 ? "text-amber-500" : "text-muted-foreground/40 hover:text-muted-foreground"}`}
+      >
+        {on.length > 0 ? "★" : "☆"}
+        {on.length > 1 && <span className="text-[10px] align-top">{on.length}</span>}
+      </button>
+      {anchor && (
+        <div
+          className="fixed z-50 min-w-[200px] max-h-80 overflow-y-auto bg-popover border rounded-md shadow-md py-1"
+          style={{ top: anchor.bottom + 4, left: anchor.left }}
+        >
+          {watchlists.map((w) => (
+            <label key={w.id} className="flex items-center gap-2 px-3 py-1.5 text-sm cursor-pointer hover:bg-muted/50">
+              <input
+                type="checkbox"
+                checked={on.some((o) => o.id === w.id)}
+                onChange={(e) => setEntry(w.id, subjectKey, e.target.checked)}
+                className="rounded"
+              />
+              {w.name}
+            </label>
+          ))}
+          {watchlists.length > 0 && <div className="border-t my-1" />}
+          <div className="px-3 py-1">
+            <NewListInput onCreated={(list) => setEntry(list.id, subjectKey, true)} />
+          </div>
+          {error && <div className="px-3 py-1 text-xs text-red-600">{error}</div>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+/** Title bar for the table while it shows one list: what the list is for, who made it, and editing. */
+export function WatchlistHeader({ list, onDeleted }: { list: Watchlist; onDeleted: () => void }) {
+  const { update, remove } = useContext(WatchlistContext);
+  const [editing, setEditing] = useState(false);
+  const [name, setName] = useState(list.name);
+  const [description, setDescription] = useState(list.description);
+  const recommendations = list.entries.filter((e) => isRecommendationKey(e.key)).length;
+
+  const save = async () => {
+    await update(list.id, { name: name.trim(), description: description.trim() });
+    setEditing(false);
+  };
+
+  const del = async () => {
+    if (!window.confirm(`Delete the list "${list.name}" for everyone?`)) return;
+    await remove(list.id);
+    onDeleted();
+  };
+
+  return (
+    <div className="rounded-lg border bg-amber-50/40 px-4 py-3 space-y-1">
+      {editing ? (
+        <div className="flex flex-wrap items-center gap-2">
+          <input value={name} onChange={(e) => setName(e.target.value)} className="w-56 px-2 py-1 rounded border bg-background text-sm font-medium" />
+          <input
+            value={description}
+            onChange={(e) => setDescription(e.target.value)}
+            placeholder="What the list is for"
+            className="flex-1 min-w-[200px] px-2 py-1 rounded border bg-background text-sm"
+          />
+          <button onClick={save} className="px-2.5 py-1 border rounded-md text-xs hover:bg-muted cursor-pointer">Save</button>
+          <button onClick={() => setEditing(false)} className="px-2.5 py-1 text-xs text-muted-foreground hover:text-foreground cursor-pointer">Cancel</button>
+        </div>
+      ) : (
+        <div className="flex items-baseline gap-3">
+          <h2 className="font-semibold">★ {list.name}</h2>
+          {list.description && <span className="text-sm text-muted-foreground">{list.description}</span>}
+          <span className="ml-auto flex gap-3 text-xs">
+            <button
+              onClick={() => {
+                setName(list.name);
+                setDescription(list.description);
+                setEditing(true);
+              }}
+              className="text-blue-600 hover:underline cursor-pointer"
+            >
+              Edit
+            </button>
+            <button onClick={del} className="text-red-600 hover:underline cursor-pointer">Delete</button>
+          </span>
+        </div>
+      )}
+      <div className="text-xs text-muted-foreground">
+        {list.entries.length - recommendations} people
+        {recommendations > 0 && <> &middot; {recommendations} Twitter recommendations (on the Twitter tab)</>}
+        {" "}&middot; {list.createdBy ? `created by ${list.createdBy}` : "created"} {new Date(list.createdAt).toLocaleDateString()}
+        {" "}&middot; shared with the whole team
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,34 @@
+/** Turn `Person.achievements` prose into dated milestones for the profile timeline. */
+
+import { parseSpikeTags } from "@/lib/spike-tags";
+
+export interface Milestone {
+  /** First year mentioned; null when the text has none */
+  year: number | null;
+  text: string;
+}
+
+const YEAR_RE = /\b(19[5-9]\d|20\d\d)\b/;
+// Sentence ends, but not after initials or titles ("U.S. Army", "Dr. Lee")
+const SENTENCE_END_RE = /(?<=[a-z0-9)\]%]{2}[.!?])\s+(?=[A-Z0-9"])/;
+
+/**
+ * Milestones in the order they happened: dated ones by year, then undated ones as written.
+ * Items separated by " | " and sentences are separate milestones; repeats are dropped.
+ */
+export function achievementTimeline(achievements: string): Milestone[] {
+  const { rest } = parseSpikeTags(achievements);
+  const seen = new Set<string>();
+  const milestones: Milestone[] = [];
+  for (const part of rest.split(" | ")) {
+    for (const sentence of part.split(SENTENCE_END_RE)) {
+      const text = sentence.trim().replace(/\.$/, "");
+      if (!text || /^rare combo$/i.test(text) || seen.has(text.toLowerCase())) continue;
+      seen.add(text.toLowerCase());
+      const year = YEAR_RE.exec(text);
+      milestones.push({ year: year ? Number(year[1]) : null, text });
+    }
+  }
+  // Array sort is stable, so same-year and undated milestones keep their written order
+  return milestones.sort((a, b) => (a.year ?? Infinity) - (b.year ?? Infinity));
+}
@@ -0,0 +1,13 @@
+import { NextResponse } from "next/server";
+import type { z } from "zod";
+
+/** 404 with `{ error }`, for a record the URL names that doesn't exist (or no longer does). */
+export function notFound(message: string) {
+  return NextResponse.json({ error: message }, { status: 404 });
+}
+
+/** 400 with `{ error }`; zod issues are joined as "path: message". */
+export function badRequest(error: z.ZodError | string) {
+  const message = typeof error === "string" ? error : error.issues.map((i) => (i.path.length ? `${i.path.join(".")}: ${i.message}` : i.message)).join("; ");
+  return NextResponse.json({ error: message }, { status: 400 });
+}
@@ -0,0 +1,29 @@
+/** `Person.categories` as a facet. The raw tags mix case ("ai", "AI") and come from several scrapers. */
+
+import type { Person } from "@/lib/types";
+
+export const categoryKey = (raw: string) => raw.trim().toLowerCase();
+
+/** A person's categories, normalized and without repeats. */
+export function personCategories(p: Person): string[] {
+  return [...new Set(p.categories.map(categoryKey).filter(Boolean))];
+}
+
+const CATEGORY_LABELS: Record<string, string> = {
+  ai: "AI",
+  llm: "LLM",
+  ml: "ML",
+  nlp: "NLP",
+  vr: "VR",
+  cv: "Computer vision",
+  rarecombo: "Rare combo",
+  opensource: "Open source",
+  esports: "Esports",
+};
+
+/** "computer-vision" → "Computer vision" */
+export function categoryLabel(key: string): string {
+  if (CATEGORY_LABELS[key]) return CATEGORY_LABELS[key];
+  const words = key.replace(/-/g, " ");
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
@@ -0,0 +1,179 @@
+/**
+ * Company entities reconciled from `Person.company`/`companyUrl` and `network_companies.json`, which
+ * describe overlapping companies in different shapes. Records are the same company when they share
+ * a website domain, a Twitter handle or a name.
+ */
+
+import type { NetworkCompany, Person } from "@/lib/types";
+import type { Recommendation } from "@/lib/graph-types";
+import { nameKey } from "@/lib/match-keys";
+import { parseInvestors, type InvestorRef } from "@/lib/investors";
+import { parseStage, stageRank, type Stage } from "@/lib/stages";
+
+export interface CompanyEntity {
+  slug: string;
+  name: string;
+  /** The network's site when it has one, else the most common one people list */
+  website: string;
+  /** Lower-case Twitter handles from `network_companies.json` */
+  handles: string[];
+  description: string;
+  /** The furthest stage any source reports */
+  stage: Stage | null;
+  /** That stage as its source wrote it, for `StageBadge` */
+  stageText: string;
+  /** Every investor any source names, in order of first mention */
+  investors: InvestorRef[];
+  /** Ids of people who founded or work at the company */
+  people: number[];
+  /** Usernames of Twitter recommendations whose bio mentions the company */
+  recommendations: string[];
+}
+
+// Profile and link hosts that many companies share, so they never identify one
+const SHARED_HOSTS = new Set(["x.com", "twitter.com", "linkedin.com", "github.com", "medium.com", "substack.com", "youtube.com", "notion.site"]);
+
+const GENERIC_SUFFIX_RE = /\s+(inc|corp|corporation|ltd|llc|co|gmbh|ai)$/;
+
+/** "https://www.cursor.com/pricing" → "cursor.com"; null when the URL doesn't parse or is a shared host. */
+export function companyDomain(url: string): string | null {
+  if (!url) return null;
+  try {
+    const host = new URL(/^https?:\/\//i.test(url) ? url : `https://${url}`).hostname.toLowerCase().replace(/^www\./, "");
+    return SHARED_HOSTS.has(host) ? null : host;
+  } catch {
+    return null;
+  }
+}
+
+/** "Cognition AI" and "Cognition, Inc." → "cognition". */
+export function companyNameKey(name: string): string {
+  let key = nameKey(name);
+  let prev;
+  do {
+    prev = key;
+    key = key.replace(GENERIC_SUFFIX_RE, "");
+  } while (key !== prev && key.includes(" "));
+  return key;
+}
+
+function slugify(text: string): string {
+  return nameKey(text).replace(/ /g, "-");
+}
+
+/** Records linked by shared keys end up under one root. */
+class Groups {
+  private parent = new Map<string, string>();
+
+  find(key: string): string {
+    let root = key;
+    while (this.parent.has(root) && this.parent.get(root) !== root) root = this.parent.get(root)!;
+    this.parent.set(key, root);
+    return root;
+  }
+
+  union(keys: string[]): void {
+    const [first, ...rest] = keys.map((k) => this.find(k));
+    for (const k of rest) if (k !== first) this.parent.set(k, first);
+  }
+}
+
+const mostCommon = (values: string[]) => {
+  const counts = new Map<string, number>();
+  for (const v of values) if (v) counts.set(v, (counts.get(v) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1])[0]?.[0] ?? "";
+};
+
+// How company handles dress up their name: @CartaInc, @SuperhumanMail, @MavenHQ
+const HANDLE_SUFFIX_RE = /^(hq|app|ai|_ai|inc|labs|xyz|io|co|vc|mail|tech)?$/;
+
+/**
+ * Whether a bio names the company: an @mention of one of its handles or of its name, or a multi-word
+ * name in its own capitalization. A one-word name alone ("Board", "Agency") is too often a plain word.
+ */
+function mentions(bio: string, entity: Pick<CompanyEntity, "name" | "handles">): boolean {
+  const mentioned = (bio.match(/@\w+/g) ?? []).map((m) => m.slice(1).toLowerCase());
+  if (entity.handles.some((h) => mentioned.includes(h))) return true;
+  const compact = companyNameKey(entity.name).replace(/ /g, "");
+  if (compact.length >= 3 && mentioned.some((m) => m.startsWith(compact) && HANDLE_SUFFIX_RE.test(m.slice(compact.length)))) return true;
+  if (!entity.name.includes(" ")) return false;
+  const escaped = entity.name.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`(^|[^\\w@])${escaped}(?!\\w)`).test(bio);
+}
+
+/** Merge both sources into company entities, those with the most people first. */
+export function buildCompanyDirectory(
+  people: Person[],
+  networkCompanies: Record<string, NetworkCompany>,
+  recommendations: Recommendation[]
+): CompanyEntity[] {
+  type Source = { keys: string[]; person?: Person; handle?: string; company?: NetworkCompany };
+  const sources: Source[] = [];
+  const keysOf = (name: string, url: string, handle?: string) =>
+    [
+      companyNameKey(name) && `name:${companyNameKey(name)}`,
+      companyDomain(url) && `domain:${companyDomain(url)}`,
+      handle && `handle:${handle.toLowerCase()}`,
+    ].filter((k): k is string => !!k);
+  for (const [handle, company] of Object.entries(networkCompanies)) {
+    sources.push({ keys: keysOf(company.name, company.website ?? "", handle), handle: handle.toLowerCase(), company });
+  }
+  for (const person of people) {
+    const keys = keysOf(person.company, person.companyUrl);
+    if (keys.length > 0) sources.push({ keys, person });
+  }
+
+  const groups = new Groups();
+  for (const s of sources) groups.union(s.keys);
+  const bySource = new Map<string, Source[]>();
+  for (const s of sources) {
+    const root = groups.find(s.keys[0]);
+    bySource.set(root, [...(bySource.get(root) ?? []), s]);
+  }
+
+  const entities = [...bySource.values()].map((group): Omit<CompanyEntity, "slug"> => {
+    const companies = group.filter((s) => s.company);
+    const members = group.flatMap((s) => (s.person ? [s.person] : []));
+    const stages = [...companies.map((s) => s.company!.stage), ...members.map((p) => p.fundingSeries)].filter((t) => parseStage(t));
+    const stageText = stages.sort((a, b) => stageRank(b)! - stageRank(a)!)[0] ?? "";
+    const investors = new Map<string, InvestorRef>();
+    for (const text of [...companies.map((s) => s.company!.investors), ...members.map((p) => p.investors)]) {
+      for (const ref of parseInvestors(text)) if (!investors.has(ref.slug)) investors.set(ref.slug, ref);
+    }
+    return {
+      name: mostCommon(companies.map((s) => s.company!.name)) || mostCommon(members.map((p) => p.company)),
+      website: mostCommon(companies.map((s) => s.company!.website ?? "")) || mostCommon(members.map((p) => p.companyUrl)),
+      handles: companies.map((s) => s.handle!),
+      description: companies.find((s) => s.company!.description)?.company!.description ?? "",
+      stage: parseStage(stageText)?.stage ?? null,
+      stageText,
+      investors: [...investors.values()],
+      people: members.sort((a, b) => b.outlierScore - a.outlierScore).map((p) => p.id),
+      recommendations: [],
+    };
+  });
+  entities.sort((a, b) => b.people.length - a.people.length || a.name.localeCompare(b.name));
+
+  for (const rec of recommendations) {
+    for (const entity of entities) {
+      if (mentions(rec.description || "", entity)) entity.recommendations.push(rec.username);
+    }
+  }
+
+  // Slugs come from names; the rare clash falls back to the domain or handle
+  const taken = new Set<string>();
+  return entities.map((entity) => {
+    let slug = slugify(entity.name);
+    if (taken.has(slug)) slug = slugify(`${entity.name} ${companyDomain(entity.website) ?? entity.handles[0] ?? ""}`);
+    for (let n = 2; taken.has(slug); n++) slug = `${slugify(entity.name)}-${n}`;
+    taken.add(slug);
+    return { slug, ...entity };
+  });
+}
+
+const FOUNDER_RE = /\b(co-?)?found(er|ed|ing)\b/i;
+
+/** "Founder" when the person's current activity says they founded something, else "Team". */
+export function companyRole(p: Person): "Founder" | "Team" {
+  return FOUNDER_RE.test(p.currentActivity) ? "Founder" : "Team";
+}
@@ -0,0 +1,31 @@
+import type { Person } from "@/lib/types";
+import { getPeople } from "@/lib/people-data";
+import { graphData, networkCompanies } from "@/lib/network-data";
+import { buildCompanyDirectory, type CompanyEntity } from "@/lib/companies";
+
+let directory: { people: Person[]; entities: CompanyEntity[]; byPerson: Map<number, CompanyEntity> } | null = null;
+
+function load() {
+  const people = getPeople();
+  // Rebuilt after an import or merge replaces the people dataset
+  if (directory?.people !== people) {
+    const entities = buildCompanyDirectory(people, networkCompanies, graphData.recommendations);
+    const byPerson = new Map(entities.flatMap((c) => c.people.map((id) => [id, c] as const)));
+    directory = { people, entities, byPerson };
+  }
+  return directory;
+}
+
+/** Every company a person in the pool works at or the network knows, with the most people first. */
+export function getCompanyDirectory(): CompanyEntity[] {
+  return load().entities;
+}
+
+export function getCompany(slug: string): CompanyEntity | undefined {
+  return getCompanyDirectory().find((c) => c.slug === slug);
+}
+
+/** The company entity a person's `company` field belongs to. */
+export function getPersonCompany(id: number): CompanyEntity | undefined {
+  return load().byPerson.get(id);
+}
@@ -0,0 +1,79 @@
+/** Portfolio-conflict rules: which funds backing a person matter to us, configured in `data/conflict_rules.json`. */
+
+import { normalizeInvestor, parseInvestors } from "@/lib/investors";
+import rulesConfig from "@/data/conflict_rules.json";
+
+/** "own" is our firm; "competitor" and "friendly" are other funds we track. */
+export type ConflictKind = "own" | "competitor" | "friendly";
+
+export interface ConflictRule {
+  id: string;
+  label: string;
+  kind: ConflictKind;
+  aliases: string[];
+}
+
+/** Per-person outcome, most significant first. */
+export const CONFLICT_STATUSES = ["portfolio", "competitor", "friendly", "clear"] as const;
+export type ConflictStatus = (typeof CONFLICT_STATUSES)[number];
+
+const STATUS_BY_KIND: Record<ConflictKind, ConflictStatus> = {
+  own: "portfolio",
+  competitor: "competitor",
+  friendly: "friendly",
+};
+
+export const CONFLICT_RULES = rulesConfig.rules as ConflictRule[];
+
+const OWN_RULE = CONFLICT_RULES.find((r) => r.kind === "own");
+
+export const CONFLICT_STATUS_META: Record<ConflictStatus, { label: string; color: string }> = {
+  portfolio: { label: OWN_RULE ? `${OWN_RULE.label} portfolio` : "Portfolio", color: "bg-green-100 text-green-700" },
+  competitor: { label: "Competitor-backed", color: "bg-red-100 text-red-700" },
+  friendly: { label: "Friendly co-investor", color: "bg-sky-100 text-sky-700" },
+  clear: { label: "Clear", color: "bg-gray-100 text-gray-400" },
+};
+
+// investor slug → rules that name it
+const RULES_BY_SLUG = new Map<string, ConflictRule[]>();
+for (const rule of CONFLICT_RULES) {
+  for (const alias of rule.aliases) {
+    const ref = normalizeInvestor(alias);
+    if (!ref) continue;
+    const rules = RULES_BY_SLUG.get(ref.slug) ?? [];
+    if (!rules.includes(rule)) rules.push(rule);
+    RULES_BY_SLUG.set(ref.slug, rules);
+  }
+}
+
+export interface ConflictMatch {
+  rule: ConflictRule;
+  /** Canonical name of the investor that triggered the rule */
+  investor: string;
+}
+
+export interface ConflictResult {
+  status: ConflictStatus;
+  matches: ConflictMatch[];
+  /** The subset of `matches` that decided `status` */
+  decisive: ConflictMatch[];
+}
+
+/** Evaluate the configured rules against a free-text investor list. */
+export function evaluateConflicts(investors: string): ConflictResult {
+  const matches: ConflictMatch[] = [];
+  for (const ref of parseInvestors(investors)) {
+    for (const rule of RULES_BY_SLUG.get(ref.slug) ?? []) {
+      if (!matches.some((m) => m.rule === rule)) matches.push({ rule, investor: ref.name });
+    }
+  }
+  const statuses = matches.map((m) => STATUS_BY_KIND[m.rule.kind]);
+  const status = CONFLICT_STATUSES.find((s) => statuses.includes(s)) ?? "clear";
+  return { status, matches, decisive: matches.filter((m) => STATUS_BY_KIND[m.rule.kind] === status) };
+}
+
+/** One-line explanation for the detail view, e.g. "Backed by Sequoia Capital (competitor: Sequoia)". */
+export function describeConflict(match: ConflictMatch): string {
+  const kind = match.rule.kind === "own" ? "our firm" : match.rule.kind;
+  return `Backed by ${match.investor} (${kind}: ${match.rule.label})`;
+}
@@ -0,0 +1,115 @@
+/** Canonical country/region model on top of `countryCode()`: ISO code, display name, region and subregion. */
+
+import { countryCode, toFlag } from "@/lib/country-flags";
+
+export const REGIONS = ["Americas", "Europe", "Asia", "Africa", "Oceania", "Antarctica"] as const;
+export type Region = (typeof REGIONS)[number];
+
+/** Subregions (close to the UN M49 groupings) in display order, with their region. */
+export const SUBREGIONS: Record<string, Region> = {
+  "Northern America": "Americas",
+  "Central America": "Americas",
+  "Caribbean": "Americas",
+  "South America": "Americas",
+  "Northern Europe": "Europe",
+  "Western Europe": "Europe",
+  "Southern Europe": "Europe",
+  "Eastern Europe": "Europe",
+  "Eastern Asia": "Asia",
+  "Southeast Asia": "Asia",
+  "Southern Asia": "Asia",
+  "Central Asia": "Asia",
+  "Western Asia": "Asia",
+  "Northern Africa": "Africa",
+  "Sub-Saharan Africa": "Africa",
+  "Australia and New Zealand": "Oceania",
+  "Pacific Islands": "Oceania",
+  "Antarctica": "Antarctica",
+};
+
+// ISO code → [display name, subregion]
+const COUNTRIES: Record<string, [string, string]> = {
+  US: ["United States", "Northern America"], CA: ["Canada", "Northern America"],
+  MX: ["Mexico", "Central America"], CR: ["Costa Rica", "Central America"],
+  SV: ["El Salvador", "Central America"], PA: ["Panama", "Central America"],
+  CU: ["Cuba", "Caribbean"], PR: ["Puerto Rico", "Caribbean"], TT: ["Trinidad and Tobago", "Caribbean"],
+  AR: ["Argentina", "South America"], BO: ["Bolivia", "South America"], BR: ["Brazil", "South America"],
+  CL: ["Chile", "South America"], CO: ["Colombia", "South America"], EC: ["Ecuador", "South America"],
+  PE: ["Peru", "South America"], PY: ["Paraguay", "South America"], UY: ["Uruguay", "South America"],
+  VE: ["Venezuela", "South America"],
+  DK: ["Denmark", "Northern Europe"], EE: ["Estonia", "Northern Europe"], FI: ["Finland", "Northern Europe"],
+  FO: ["Faroe Islands", "Northern Europe"], GB: ["United Kingdom", "Northern Europe"],
+  IE: ["Ireland", "Northern Europe"], IS: ["Iceland", "Northern Europe"], LT: ["Lithuania", "Northern Europe"],
+  LV: ["Latvia", "Northern Europe"], NO: ["Norway", "Northern Europe"], SE: ["Sweden", "Northern Europe"],
+  AT: ["Austria", "Western Europe"], BE: ["Belgium", "Western Europe"], CH: ["Switzerland", "Western Europe"],
+  DE: ["Germany", "Western Europe"], FR: ["France", "Western Europe"], NL: ["Netherlands", "Western Europe"],
+  AD: ["Andorra", "Southern Europe"], BA: ["Bosnia and Herzegovina", "Southern Europe"],
+  ES: ["Spain", "Southern Europe"], GR: ["Greece", "Southern Europe"], HR: ["Croatia", "Southern Europe"],
+  IT: ["Italy", "Southern Europe"], ME: ["Montenegro", "Southern Europe"], MK: ["North Macedonia", "Southern Europe"],
+  PT: ["Portugal", "Southern Europe"], RS: ["Serbia", "Southern Europe"], SI: ["Slovenia", "Southern Europe"],
+  XK: ["Kosovo", "Southern Europe"],
+  BG: ["Bulgaria", "Eastern Europe"], BY: ["Belarus", "Eastern Europe"], CZ: ["Czechia", "Eastern Europe"],
+  HU: ["Hungary", "Eastern Europe"], MD: ["Moldova", "Eastern Europe"], PL: ["Poland", "Eastern Europe"],
+  RO: ["Romania", "Eastern Europe"], RU: ["Russia", "Eastern Europe"], SK: ["Slovakia", "Eastern Europe"],
+  UA: ["Ukraine", "Eastern Europe"],
+  CN: ["China", "Eastern Asia"], HK: ["Hong Kong", "Eastern Asia"], JP: ["Japan", "Eastern Asia"],
+  KP: ["North Korea", "Eastern Asia"], KR: ["South Korea", "Eastern Asia"], MN: ["Mongolia", "Eastern Asia"],
+  MO: ["Macau", "Eastern Asia"], TW: ["Taiwan", "Eastern Asia"],
+  ID: ["Indonesia", "Southeast Asia"], MY: ["Malaysia", "Southeast Asia"], PH: ["Philippines", "Southeast Asia"],
+  SG: ["Singapore", "Southeast Asia"], TH: ["Thailand", "Southeast Asia"], VN: ["Vietnam", "Southeast Asia"],
+  BD: ["Bangladesh", "Southern Asia"], IN: ["India", "Southern Asia"], IR: ["Iran", "Southern Asia"],
+  LK: ["Sri Lanka", "Southern Asia"], NP: ["Nepal", "Southern Asia"], PK: ["Pakistan", "Southern Asia"],
+  KG: ["Kyrgyzstan", "Central Asia"], KZ: ["Kazakhstan", "Central Asia"], TJ: ["Tajikistan", "Central Asia"],
+  TM: ["Turkmenistan", "Central Asia"], UZ: ["Uzbekistan", "Central Asia"],
+  AE: ["United Arab Emirates", "Western Asia"], AM: ["Armenia", "Western Asia"], AZ: ["Azerbaijan", "Western Asia"],
+  BH: ["Bahrain", "Western Asia"], CY: ["Cyprus", "Western Asia"], GE: ["Georgia", "Western Asia"],
+  IL: ["Israel", "Western Asia"], JO: ["Jordan", "Western Asia"], KW: ["Kuwait", "Western Asia"],
+  LB: ["Lebanon", "Western Asia"], OM: ["Oman", "Western Asia"], QA: ["Qatar", "Western Asia"],
+  SA: ["Saudi Arabia", "Western Asia"], SY: ["Syria", "Western Asia"], TR: ["Türkiye", "Western Asia"],
+  DZ: ["Algeria", "Northern Africa"], EG: ["Egypt", "Northern Africa"], MA: ["Morocco", "Northern Africa"],
+  TN: ["Tunisia", "Northern Africa"],
+  BI: ["Burundi", "Sub-Saharan Africa"], CM: ["Cameroon", "Sub-Saharan Africa"], MG: ["Madagascar", "Sub-Saharan Africa"],
+  RW: ["Rwanda", "Sub-Saharan Africa"], ZA: ["South Africa", "Sub-Saharan Africa"],
+  AU: ["Australia", "Australia and New Zealand"], NZ: ["New Zealand", "Australia and New Zealand"],
+  NU: ["Niue", "Pacific Islands"],
+  AQ: ["Antarctica", "Antarctica"],
+};
+
+export interface Country {
+  code: string;
+  name: string;
+  flag: string;
+  region: Region;
+  subregion: string;
+}
+
+export function countryByCode(code: string): Country | null {
+  const entry = COUNTRIES[code];
+  if (!entry) return null;
+  const [name, subregion] = entry;
+  return { code, name, flag: toFlag(code), region: SUBREGIONS[subregion], subregion };
+}
+
+// Values that name no country and so count as "No country": "FID" (chess players under the FIDE flag)
+// and the "C01"…"C36" placeholders some rows carry
+const NO_COUNTRY_RE = /^(FID|C\d{2})$/i;
+
+const cache = new Map<string, Country[]>();
+
+/** Resolve a raw `Person.country`. Dual values like "Brazil/USA" yield every country; placeholders and unknown parts are dropped. */
+export function resolveCountries(raw: string): Country[] {
+  if (!raw) return [];
+  const hit = cache.get(raw);
+  if (hit) return hit;
+  const result: Country[] = [];
+  for (const part of raw.split("/")) {
+    if (NO_COUNTRY_RE.test(part.trim())) continue;
+    const country = countryByCode(countryCode(part));
+    if (country && !result.some((c) => c.code === country.code)) result.push(country);
+  }
+  cache.set(raw, result);
+  return result;
+}
+
+/** Facet value used for people whose country is missing or unrecognized. */
+export const UNKNOWN_COUNTRY = "unknown";
@@ -34,15 +34,18 @@ const ISO2: Record<string, string> = {
   "people's republic of china": "CN",
   "moldova, republic of": "MD", "moldau republikmoldau": "MD",
   "puerto ricopuerto rico": "PR",
+  // Short forms; "Korea" alone means South Korea in this data
+  "korea": "KR", "uae": "AE",
 
-  // IOC / 3-letter sport codes
+  // IOC / 3-letter sport codes. "FID" (chess players under the FIDE flag) is
+  // deliberately absent — it names no country.
   "ALG": "DZ", "AND": "AD", "ARG": "AR", "ARM": "AM", "AUS": "AU",
   "AUT": "AT", "AZE": "AZ", "BAN": "BD", "BDI": "BI", "BEL": "BE",
   "BIH": "BA", "BLR": "BY", "BOL": "BO", "BRA": "BR", "BUL": "BG",
   "CAN": "CA", "CHI": "CL", "CHN": "CN", "COL": "CO", "CRO": "HR",
   "CUB": "CU", "CYP": "CY", "CZE": "CZ", "DEN": "DK", "ECU": "EC",
   "EGY": "EG", "ENG": "GB", "ESP": "ES", "EST": "EE", "FAI": "FO",
-  "FID": "FJ", "FIN": "FI", "FRA": "FR", "GEO": "GE", "GER": "DE",
+  "FIN": "FI", "FRA": "FR", "GEO": "GE", "GER": "DE",
   "GRE": "GR", "HUN": "HU", "INA": "ID", "IND": "IN", "IRI": "IR",
   "IRL": "IE", "ISL": "IS", "ISR": "IL", "ITA": "IT", "JPN": "JP",
   "KAZ": "KZ", "KOR": "KR", "KOS": "XK", "LTU": "LT", "MAD": "MG",
@@ -73,28 +76,28 @@ const ISO2: Record<string, string> = {
   "ARE": "AE",
 };
 
-function toFlag(iso2: string): string {
-  // UK is not a real ISO code, map to GB for flag
-  const code = iso2 === "UK" ? "GB" : iso2;
-  if (code.length !== 2) return "";
+export function toFlag(iso2: string): string {
+  if (iso2.length !== 2) return "";
   return String.fromCodePoint(
-    0x1f1e6 + code.charCodeAt(0) - 65,
-    0x1f1e6 + code.charCodeAt(1) - 65
+    0x1f1e6 + iso2.charCodeAt(0) - 65,
+    0x1f1e6 + iso2.charCodeAt(1) - 65
   );
 }
 
+/** ISO-3166 alpha-2 code for a single country string, or "" if unknown. */
+export function countryCode(raw: string): string {
+  // Non-breaking and doubled spaces turn up in pasted values
+  const value = raw.replace(/\s+/g, " ").trim();
+  if (!value) return "";
+  // Try exact match first (case-sensitive for codes), then lowercase for
+  // full names, then uppercase for 2/3-letter codes
+  const code = ISO2[value] || ISO2[value.toLowerCase()] || ISO2[value.toUpperCase()] || "";
+  // UK is not a real ISO code
+  return code === "UK" ? "GB" : code;
+}
+
 export function countryFlag(raw: string): string {
   if (!raw) return "";
   // Handle dual countries like "Brazil/USA" — use first
-  const primary = raw.split("/")[0].trim();
-  // Try exact match first (case-sensitive for codes)
-  const exact = ISO2[primary];
-  if (exact) return toFlag(exact);
-  // Try lowercase for full names
-  const lower = ISO2[primary.toLowerCase()];
-  if (lower) return toFlag(lower);
-  // Try uppercase for 2/3-letter codes
-  const upper = ISO2[primary.toUpperCase()];
-  if (upper) return toFlag(upper);
-  return "";
+  return toFlag(countryCode(raw.split("/")[0]));
 }
@@ -0,0 +1,313 @@
+/**
+ * Dataset checks shared by the app loaders and `npm run lint-data`. Records that fail are
+ * quarantined (left out of the returned data) and reported as issues instead of crashing a render.
+ */
+
+import type { z } from "zod";
+import type { Person, NetworkCompany } from "@/lib/types";
+import type { GraphData, GraphEdge, GraphNode } from "@/lib/graph-types";
+import type { Pipeline } from "@/lib/pipeline";
+import type { NotesFile } from "@/lib/notes";
+import type { Watchlist } from "@/lib/watchlists";
+import type { SavedView } from "@/lib/views";
+import type { ScoringProfile } from "@/lib/scoring";
+import type { MergeLog } from "@/lib/duplicates";
+import {
+  PersonSchema,
+  NetworkCompanySchema,
+  GraphNodeSchema,
+  GraphEdgeSchema,
+  RecommendationSchema,
+  GraphStatsSchema,
+  PipelineRecordSchema,
+  SubjectNoteSchema,
+  CommentSchema,
+  WatchlistSchema,
+  SavedViewSchema,
+  ScoringProfileSchema,
+  MergeRecordSchema,
+  DismissedPairSchema,
+  formatPath,
+} from "@/lib/schemas";
+
+export const DATA_FILES = {
+  people: "data/people.json",
+  companies: "data/network_companies.json",
+  graph: "data/graph_data.json",
+  pipeline: "data/pipeline.json",
+  notes: "data/notes.json",
+  watchlists: "data/watchlists.json",
+  views: "data/views.json",
+  scoring: "data/scoring.json",
+  merges: "data/merges.json",
+} as const;
+
+export interface DataIssue {
+  file: string;
+  /** Where in the file, e.g. "[12].companyUrl" or "edges[40].target" */
+  location: string;
+  /** Human handle for the record ("#1234 Jane Doe", "@cursor_ai"), when known */
+  record?: string;
+  message: string;
+  /** "error" records were quarantined; "warning" data was kept (possibly repaired) */
+  severity: "error" | "warning";
+}
+
+export interface Checked<T> {
+  data: T;
+  issues: DataIssue[];
+}
+
+/** Validate each element on its own so one bad record doesn't sink the file. */
+function checkList<T>(
+  file: string,
+  path: (string | number)[],
+  schema: z.ZodType<T>,
+  raw: unknown,
+  issues: DataIssue[],
+  label: (item: Record<string, unknown>) => string | undefined
+): { item: T; index: number }[] {
+  if (!Array.isArray(raw)) {
+    issues.push({ file, location: formatPath(path) || "(root)", message: "Expected an array", severity: "error" });
+    return [];
+  }
+  const result: { item: T; index: number }[] = [];
+  raw.forEach((item, index) => {
+    const parsed = schema.safeParse(item);
+    if (parsed.success) {
+      // Keep the original object, and so its key order, so rewriting a file only changes what changed
+      result.push({ item: item as T, index });
+      return;
+    }
+    const record = item && typeof item === "object" ? label(item as Record<string, unknown>) : undefined;
+    for (const issue of parsed.error.issues) {
+      issues.push({ file, location: formatPath([...path, index, ...issue.path]), record, message: issue.message, severity: "error" });
+    }
+  });
+  return result;
+}
+
+/** Keep the first record for each key; later duplicates are quarantined. */
+function dedupe<T>(
+  entries: { item: T; index: number }[],
+  key: (item: T) => string | number,
+  report: (entry: { item: T; index: number }, firstIndex: number) => void
+): { item: T; index: number }[] {
+  const first = new Map<string | number, number>();
+  return entries.filter((entry) => {
+    const k = key(entry.item);
+    const seen = first.get(k);
+    if (seen !== undefined) {
+      report(entry, seen);
+      return false;
+    }
+    first.set(k, entry.index);
+    return true;
+  });
+}
+
+const personLabel = (p: Record<string, unknown>) => [p.id !== undefined && `#${p.id}`, p.name].filter(Boolean).join(" ") || undefined;
+
+export function checkPeople(raw: unknown, file: string = DATA_FILES.people): Checked<Person[]> {
+  const issues: DataIssue[] = [];
+  const valid = checkList(file, [], PersonSchema, raw, issues, personLabel);
+  const unique = dedupe(valid, (p) => p.id, ({ item, index }, firstIndex) =>
+    issues.push({
+      file,
+      location: `[${index}].id`,
+      record: personLabel(item as unknown as Record<string, unknown>),
+      message: `Duplicate id ${item.id} (first used at [${firstIndex}])`,
+      severity: "error",
+    })
+  );
+  return { data: unique.map((e) => e.item), issues };
+}
+
+export function checkPipeline(raw: unknown, file: string = DATA_FILES.pipeline): Checked<Pipeline> {
+  const issues: DataIssue[] = [];
+  const byKey = (r: Record<string, unknown>) => (typeof r.key === "string" ? r.key : undefined);
+  const unique = dedupe(checkList(file, [], PipelineRecordSchema, raw, issues, byKey), (r) => r.key, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `[${index}].key`, record: item.key, message: `Duplicate key (first used at [${firstIndex}])`, severity: "error" })
+  );
+  return { data: Object.fromEntries(unique.map(({ item }) => [item.key, item])), issues };
+}
+
+export function checkNotes(raw: unknown, file: string = DATA_FILES.notes): Checked<NotesFile> {
+  const issues: DataIssue[] = [];
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const byKey = (r: Record<string, unknown>) => (typeof r.key === "string" ? r.key : undefined);
+  const notes = dedupe(checkList(file, ["notes"], SubjectNoteSchema, obj.notes, issues, byKey), (n) => n.key, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `notes[${index}].key`, record: item.key, message: `Duplicate note (first at notes[${firstIndex}])`, severity: "error" })
+  ).map((e) => e.item);
+  const comments = dedupe(checkList(file, ["comments"], CommentSchema, obj.comments, issues, byKey), (c) => c.id, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `comments[${index}].id`, record: item.key, message: `Duplicate comment id (first at comments[${firstIndex}])`, severity: "error" })
+  ).map((e) => e.item);
+  const ids = new Set(comments.map((c) => c.id));
+  comments.forEach((c, index) => {
+    if (c.parentId !== null && !ids.has(c.parentId)) {
+      issues.push({ file, location: `comments[${index}].parentId`, record: c.key, message: `Replies to missing comment "${c.parentId}"; shown as a top-level comment`, severity: "warning" });
+    }
+  });
+  return { data: { notes, comments }, issues };
+}
+
+export function checkWatchlists(raw: unknown, file: string = DATA_FILES.watchlists): Checked<Watchlist[]> {
+  const issues: DataIssue[] = [];
+  const byName = (r: Record<string, unknown>) => (typeof r.name === "string" ? r.name : undefined);
+  const lists = dedupe(checkList(file, [], WatchlistSchema, raw, issues, byName), (w) => w.id, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `[${index}].id`, record: item.name, message: `Duplicate list id "${item.id}" (first used at [${firstIndex}])`, severity: "error" })
+  ).map(({ item, index }) => {
+    const entries = dedupe(item.entries.map((entry, i) => ({ item: entry, index: i })), (e) => e.key, (entry) =>
+      issues.push({ file, location: `[${index}].entries[${entry.index}].key`, record: item.name, message: `${entry.item.key} is listed twice; the later entry is dropped`, severity: "warning" })
+    );
+    return { ...item, entries: entries.map((e) => e.item) };
+  });
+  return { data: lists, issues };
+}
+
+export function checkViews(raw: unknown, file: string = DATA_FILES.views): Checked<SavedView[]> {
+  const issues: DataIssue[] = [];
+  const byName = (r: Record<string, unknown>) => (typeof r.name === "string" ? r.name : undefined);
+  const views = dedupe(checkList(file, [], SavedViewSchema, raw, issues, byName), (v) => v.id, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `[${index}].id`, record: item.name, message: `Duplicate view id (first used at [${firstIndex}])`, severity: "error" })
+  );
+  return { data: views.map((e) => e.item), issues };
+}
+
+export function checkScoringProfiles(raw: unknown, file: string = DATA_FILES.scoring): Checked<ScoringProfile[]> {
+  const issues: DataIssue[] = [];
+  const byName = (r: Record<string, unknown>) => (typeof r.name === "string" ? r.name : undefined);
+  const profiles = dedupe(checkList(file, [], ScoringProfileSchema, raw, issues, byName), (s) => s.id, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `[${index}].id`, record: item.name, message: `Duplicate scoring profile id (first used at [${firstIndex}])`, severity: "error" })
+  );
+  return { data: profiles.map((e) => e.item), issues };
+}
+
+export function checkMergeLog(raw: unknown, file: string = DATA_FILES.merges): Checked<MergeLog> {
+  const issues: DataIssue[] = [];
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const byMerged = (r: Record<string, unknown>) => (typeof r.mergedId === "number" ? `#${r.mergedId}` : undefined);
+  const merges = dedupe(checkList(file, ["merges"], MergeRecordSchema, obj.merges, issues, byMerged), (m) => m.mergedId, ({ item, index }, firstIndex) =>
+    issues.push({ file, location: `merges[${index}].mergedId`, record: `#${item.mergedId}`, message: `Merged twice (first at merges[${firstIndex}])`, severity: "error" })
+  ).map((e) => e.item);
+  const dismissed = checkList(file, ["dismissed"], DismissedPairSchema, obj.dismissed, issues, () => undefined).map((e) => e.item);
+  return { data: { merges, dismissed }, issues };
+}
+
+export function checkCompanies(raw: unknown, file: string = DATA_FILES.companies): Checked<Record<string, NetworkCompany>> {
+  const issues: DataIssue[] = [];
+  const data: Record<string, NetworkCompany> = {};
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) {
+    issues.push({ file, location: "(root)", message: "Expected an object keyed by Twitter handle", severity: "error" });
+    return { data, issues };
+  }
+  for (const [handle, entry] of Object.entries(raw)) {
+    const parsed = NetworkCompanySchema.safeParse(entry);
+    if (!parsed.success) {
+      for (const issue of parsed.error.issues) {
+        issues.push({ file, location: formatPath([handle, ...issue.path]), record: `@${handle}`, message: issue.message, severity: "error" });
+      }
+      continue;
+    }
+    // Bios are matched against lower-cased @mentions
+    if (handle !== handle.toLowerCase()) {
+      issues.push({ file, location: handle, record: `@${handle}`, message: "Handle key should be lower case", severity: "warning" });
+    }
+    data[handle.toLowerCase()] = parsed.data;
+  }
+  return { data, issues };
+}
+
+export function checkGraph(raw: unknown, file: string = DATA_FILES.graph): Checked<GraphData> {
+  const issues: DataIssue[] = [];
+  const obj = (raw && typeof raw === "object" ? raw : {}) as Record<string, unknown>;
+  const byId = (item: Record<string, unknown>) => (typeof item.id === "string" ? item.id : undefined);
+
+  const nodes = dedupe(
+    checkList(file, ["nodes"], GraphNodeSchema, obj.nodes, issues, byId),
+    (n) => n.id,
+    ({ item, index }, firstIndex) =>
+      issues.push({ file, location: `nodes[${index}].id`, record: item.id, message: `Duplicate node id (first used at nodes[${firstIndex}])`, severity: "error" })
+  ).map((e) => e.item);
+  const nodeIds = new Set(nodes.map((n) => n.id));
+  const hubIds = new Set(nodes.filter((n) => n.type === "hub").map((n) => n.id));
+
+  // Hub-to-hub edges were exported without a type; the source alone says which kind it is
+  const centerIds = new Set(nodes.filter((n) => n.type === "center").map((n) => n.id));
+  const untyped: number[] = [];
+  const rawEdges = Array.isArray(obj.edges)
+    ? obj.edges.map((e, index) => {
+        if (!e || typeof e !== "object" || "type" in e) return e;
+        untyped.push(index);
+        return { ...e, type: centerIds.has((e as { source?: string }).source ?? "") ? "ethan_follows" : "hub_follows" };
+      })
+    : obj.edges;
+  if (untyped.length > 0) {
+    const more = untyped.length > 1 ? ` and ${untyped.length - 1} more` : "";
+    issues.push({ file, location: `edges[${untyped[0]}].type${more}`, message: "Missing type; inferred from the source node", severity: "warning" });
+  }
+
+  const edges: GraphEdge[] = [];
+  for (const { item, index } of checkList(file, ["edges"], GraphEdgeSchema, rawEdges, issues, () => undefined)) {
+    const missing = (["source", "target"] as const).filter((end) => !nodeIds.has(item[end]));
+    for (const end of missing) {
+      issues.push({ file, location: `edges[${index}].${end}`, record: item[end], message: "Edge points at a missing node", severity: "error" });
+    }
+    if (missing.length === 0) edges.push(item);
+  }
+
+  const recommendations = dedupe(
+    checkList(file, ["recommendations"], RecommendationSchema, obj.recommendations, issues, (r) => (typeof r.username === "string" ? `@${r.username}` : undefined)),
+    (r) => r.id,
+    ({ item, index }, firstIndex) =>
+      issues.push({ file, location: `recommendations[${index}].id`, record: `@${item.username}`, message: `Duplicate recommendation id (first used at recommendations[${firstIndex}])`, severity: "error" })
+  ).map(({ item, index }) => {
+    const strays = item.followed_by.filter((h) => !hubIds.has(h));
+    if (strays.length === 0) return item;
+    issues.push({
+      file,
+      location: `recommendations[${index}].followed_by`,
+      record: `@${item.username}`,
+      message: `Not hubs, dropped: ${strays.join(", ")}`,
+      severity: "warning",
+    });
+    return { ...item, followed_by: item.followed_by.filter((h) => hubIds.has(h)) };
+  });
+
+  const statsParsed = GraphStatsSchema.safeParse(obj.stats);
+  let stats: GraphData["stats"];
+  if (statsParsed.success) {
+    stats = statsParsed.data;
+    const expected: [keyof GraphData["stats"], number][] = [
+      ["hubs_fetched", hubIds.size],
+      ["total_edges", edges.length],
+      ["total_recommendations", recommendations.length],
+    ];
+    for (const [key, actual] of expected) {
+      if (stats[key] !== actual) {
+        issues.push({ file, location: `stats.${key}`, message: `Says ${stats[key]} but the file has ${actual}`, severity: "warning" });
+      }
+    }
+  } else {
+    for (const issue of statsParsed.error.issues) {
+      issues.push({ file, location: formatPath(["stats", ...issue.path]), message: issue.message, severity: "error" });
+    }
+    // Fall back to what the file actually contains
+    stats = { ethan_following: 0, hubs_fetched: hubIds.size, total_edges: edges.length, total_recommendations: recommendations.length, min_hub_threshold: 0 };
+  }
+
+  return { data: { nodes: nodes as GraphNode[], edges, recommendations, stats }, issues };
+}
+
+/** One line per issue: "data/people.json [12].companyUrl (#12 Jane Doe): Invalid URL" */
+export function formatIssue(issue: DataIssue): string {
+  const record = issue.record ? ` (${issue.record})` : "";
+  return `${issue.file} ${issue.location}${record}: ${issue.message}`;
+}
+
+/** Summarize quarantined data once at load time so bad records don't vanish silently. Repaired warnings stay quiet. */
+export function warnIssues(issues: DataIssue[]): void {
+  const errors = issues.filter((i) => i.severity === "error");
+  if (errors.length === 0) return;
+  console.warn(`[data] ${errors.length} record error(s) quarantined; run \`npm run lint-data\` for details. First: ${formatIssue(errors[0])}`);
+}
@@ -0,0 +1,70 @@
+import { checkMergeLog, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import { MergeError, findDuplicates, mergeRecords, type DuplicateCandidate, type MergeLog, type MergePicks, type MergeRecord } from "@/lib/duplicates";
+import { getPeople, getRecordIds, updatePeople } from "@/lib/people-data";
+import { movePipelineRecord } from "@/lib/pipeline-data";
+import { moveWatchlistEntries } from "@/lib/watchlists-data";
+import { moveNotes } from "@/lib/notes-data";
+import { personKey } from "@/lib/subjects";
+import type { Person } from "@/lib/types";
+
+const store = jsonStore<MergeLog>(DATA_FILES.merges, checkMergeLog, (log) => JSON.stringify(log, null, 2) + "\n");
+
+/** Every merge and dismissed pair. Server only; clients go through `/api/duplicates`. */
+export function getMergeLog(): MergeLog {
+  return store.get();
+}
+
+/**
+ * Ids a new person may not take: those of every record, quarantined or not, and every id merged away,
+ * whose profile link still redirects to the record that absorbed it.
+ */
+export function takenPersonIds(): number[] {
+  return [...getRecordIds(), ...getMergeLog().merges.map((m) => m.mergedId)];
+}
+
+// Finding candidates takes about a second, so it reruns only when the dataset is replaced
+let cached: { people: Person[]; candidates: DuplicateCandidate[] } | null = null;
+
+/** Candidate pairs still to review: neither merged away nor dismissed. */
+export function getDuplicateQueue(): DuplicateCandidate[] {
+  const people = getPeople();
+  if (cached?.people !== people) cached = { people, candidates: findDuplicates(people) };
+  const dismissed = new Set(getMergeLog().dismissed.map((d) => d.ids.join("-")));
+  return cached.candidates.filter((c) => !dismissed.has(`${c.a.id}-${c.b.id}`));
+}
+
+/** Record that two people are different, so the pair leaves the queue. */
+export function dismissPair(ids: [number, number], author: string): Promise<void> {
+  const sorted: [number, number] = ids[0] < ids[1] ? ids : [ids[1], ids[0]];
+  return store.update((log) => {
+    if (log.dismissed.some((d) => d.ids[0] === sorted[0] && d.ids[1] === sorted[1])) return { result: undefined };
+    const dismissed = [...log.dismissed, { ids: sorted, dismissedBy: author, dismissedAt: new Date().toISOString() }];
+    return { next: { ...log, dismissed }, result: undefined };
+  });
+}
+
+/**
+ * Replace two records with one, under `keepId`. The pipeline record, list entries, notes and comments
+ * of the dropped record move to the kept one. The merge is logged, with the dropped record as it was,
+ * before anything else is written, so a failed write later on can be traced and undone from the log.
+ * Moving the pipeline, lists and notes again is harmless.
+ */
+export async function mergePeople(keepId: number, dropId: number, picks: MergePicks, author: string): Promise<{ person: Person; merge: MergeRecord }> {
+  if (keepId === dropId) throw new MergeError("Pick two different people");
+  const result = await updatePeople(async (people) => {
+    const keep = people.find((p) => p.id === keepId);
+    const drop = people.find((p) => p.id === dropId);
+    if (!keep || !drop) throw new MergeError(`No person #${keep ? dropId : keepId}`);
+    const person = mergeRecords(keep, drop, picks);
+    const merge: MergeRecord = { keptId: keepId, mergedId: dropId, merged: drop, picks, mergedBy: author, mergedAt: new Date().toISOString() };
+    await store.update((log) => ({ next: { ...log, merges: [...log.merges, merge] }, result: undefined }));
+    return { next: people.filter((p) => p.id !== dropId).map((p) => (p.id === keepId ? person : p)), result: { person, merge } };
+  });
+
+  const [from, to] = [personKey(dropId), personKey(keepId)];
+  await movePipelineRecord(from, to);
+  await moveWatchlistEntries(from, to);
+  await moveNotes(from, to);
+  return result;
+}
@@ -0,0 +1,188 @@
+/**
+ * Finding the same human twice in `people.json`. The sources (chess, poker, programming, esports)
+ * were merged without ids in common, so records are compared on handle, name, company and country.
+ */
+
+import type { Person } from "@/lib/types";
+import { IMPORT_FIELDS, type ImportField } from "@/lib/person-import";
+import { nameKey, twitterKey } from "@/lib/match-keys";
+import { resolveCountries } from "@/lib/countries";
+
+export interface DuplicateCandidate {
+  /** Lower id first */
+  a: Person;
+  b: Person;
+  /** Higher is more likely the same person; `MIN_SCORE` and up are listed */
+  score: number;
+  reasons: string[];
+}
+
+const MIN_SCORE = 45;
+// A name token shared by more people than this ("li", "john") is too common to compare everyone on
+const MAX_BLOCK = 200;
+
+/** "Abasov, Nijat" → "nijat abasov": rosters list some players surname first. */
+export function comparableName(name: string): string {
+  const [last, first, ...rest] = name.split(",");
+  return nameKey(first !== undefined && rest.length === 0 ? `${first} ${last}` : name);
+}
+
+function levenshtein(a: string, b: string): number {
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      row[j] = Math.min(prev[j] + 1, row[j - 1] + 1, prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    prev = row;
+  }
+  return prev[b.length];
+}
+
+/** 1 for the same words in any order, falling with the edits between them. */
+export function nameSimilarity(a: string, b: string): number {
+  const sorted = (name: string) => comparableName(name).split(" ").sort().join(" ");
+  const [x, y] = [sorted(a), sorted(b)];
+  if (!x || !y) return 0;
+  return 1 - levenshtein(x, y) / Math.max(x.length, y.length);
+}
+
+function compare(a: Person, b: Person): DuplicateCandidate | null {
+  let score = 0;
+  const reasons: string[] = [];
+  const [ha, hb] = [twitterKey(a.twitter), twitterKey(b.twitter)];
+  if (ha && ha === hb) {
+    score += 60;
+    reasons.push(`Same Twitter handle ${a.twitter}`);
+  } else if (ha && hb) {
+    score -= 50;
+    reasons.push(`Different Twitter handles (${a.twitter}, ${b.twitter})`);
+  }
+
+  const similarity = nameSimilarity(a.name, b.name);
+  if (similarity === 1) {
+    score += 40;
+    reasons.push(a.name === b.name ? "Same name" : `Same name, written differently ("${a.name}", "${b.name}")`);
+  } else if (similarity >= 0.85) {
+    score += Math.round(40 * similarity) - 5;
+    reasons.push(`Similar names ("${a.name}", "${b.name}", ${Math.round(similarity * 100)}%)`);
+  }
+
+  if (a.company && nameKey(a.company) === nameKey(b.company)) {
+    score += 15;
+    reasons.push(`Both at ${a.company}`);
+  }
+
+  const [ca, cb] = [resolveCountries(a.country), resolveCountries(b.country)];
+  const shared = ca.find((c) => cb.some((d) => d.code === c.code));
+  if (shared) {
+    score += 5;
+    reasons.push(a.country === b.country ? `Both in ${shared.name}` : `Both in ${shared.name} ("${a.country}", "${b.country}")`);
+  } else if (ca.length > 0 && cb.length > 0) {
+    score -= 10;
+    reasons.push(`Different countries (${a.country}, ${b.country})`);
+  }
+
+  return score >= MIN_SCORE ? { a, b, score, reasons } : null;
+}
+
+/**
+ * Likely duplicate pairs, most likely first. Only records sharing a handle or a name word are
+ * compared, so a typo in every word of a name goes unnoticed.
+ */
+export function findDuplicates(people: Person[]): DuplicateCandidate[] {
+  const blocks = new Map<string, Person[]>();
+  const add = (key: string, p: Person) => {
+    const block = blocks.get(key);
+    if (block) block.push(p);
+    else blocks.set(key, [p]);
+  };
+  for (const p of people) {
+    if (p.twitter) add(`@${twitterKey(p.twitter)}`, p);
+    for (const word of new Set(comparableName(p.name).split(" "))) if (word.length > 1) add(word, p);
+  }
+
+  const seen = new Set<string>();
+  const candidates: DuplicateCandidate[] = [];
+  for (const block of blocks.values()) {
+    if (block.length < 2 || block.length > MAX_BLOCK) continue;
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const [a, b] = block[i].id < block[j].id ? [block[i], block[j]] : [block[j], block[i]];
+        const key = `${a.id}-${b.id}`;
+        if (seen.has(key)) continue;
+        seen.add(key);
+        const candidate = compare(a, b);
+        if (candidate) candidates.push(candidate);
+      }
+    }
+  }
+  return candidates.sort((x, y) => y.score - x.score || x.a.id - y.a.id || x.b.id - y.b.id);
+}
+
+// ---------------------------------------------------------------------------
+// Merging
+// ---------------------------------------------------------------------------
+
+/** Fields whose values from both records can be kept together. */
+export const COMBINABLE_FIELDS = ["categories", "achievements", "notes"] as const satisfies readonly ImportField[];
+
+/** Which record each field comes from, by id; "both" combines the two for `COMBINABLE_FIELDS`. */
+export type MergePicks = Partial<Record<ImportField, number | "both">>;
+
+export class MergeError extends Error {}
+
+/**
+ * The record that replaces `keep` and `drop`: `keep`'s id, with each field taken from the record
+ * `picks` names. Unpicked fields stay as `keep` has them.
+ */
+export function mergeRecords(keep: Person, drop: Person, picks: MergePicks): Person {
+  const merged: Person = { ...keep };
+  for (const field of IMPORT_FIELDS) {
+    const pick = picks[field] ?? keep.id;
+    if (pick === "both") {
+      if (!(COMBINABLE_FIELDS as readonly string[]).includes(field)) throw new MergeError(`${field} can't combine both records`);
+      if (field === "categories") merged.categories = [...new Set([...keep.categories, ...drop.categories])];
+      else merged[field as "notes"] = [...new Set([keep[field as "notes"], drop[field as "notes"]].filter(Boolean))].join(" | ");
+    } else if (pick === drop.id) {
+      (merged as Record<ImportField, unknown>)[field] = drop[field];
+    } else if (pick !== keep.id) {
+      throw new MergeError(`${field}: #${pick} is not one of the records being merged`);
+    }
+  }
+  return merged;
+}
+
+/** A merge, kept so old ids and links can be traced to the record that absorbed them. */
+export interface MergeRecord {
+  /** The id that survives */
+  keptId: number;
+  mergedId: number;
+  /** The removed record as it was */
+  merged: Person;
+  picks: MergePicks;
+  mergedBy: string;
+  /** ISO timestamp */
+  mergedAt: string;
+}
+
+/** A pair a reviewer decided are different people, so the queue stops offering it. */
+export interface DismissedPair {
+  ids: [number, number];
+  dismissedBy: string;
+  /** ISO timestamp */
+  dismissedAt: string;
+}
+
+export interface MergeLog {
+  merges: MergeRecord[];
+  dismissed: DismissedPair[];
+}
+
+/** Follow merges from `id` to the record that holds it now. */
+export function resolveMergedId(id: number, merges: MergeRecord[]): number {
+  const byMerged = new Map(merges.map((m) => [m.mergedId, m.keptId]));
+  let current = id;
+  for (let hops = 0; byMerged.has(current) && hops < merges.length; hops++) current = byMerged.get(current)!;
+  return current;
+}
@@ -0,0 +1,234 @@
+/** Extract structured numbers from `Person.fundingInfo` prose ("$175M+ raised at $1.62B valuation", "Raised $12M (Thiel)"…). */
+
+import { normalizeInvestor } from "@/lib/investors";
+import { stageRank } from "@/lib/stages";
+
+export type Currency = "USD" | "EUR" | "GBP" | "AUD" | "CAD";
+
+/**
+ * How far to trust the parse: "high" when every figure is labelled, "medium" for
+ * approximate or inferred figures, "low" for prose about several companies or
+ * only intended raises, "none" when nothing was extracted.
+ */
+export type FundingConfidence = "high" | "medium" | "low" | "none";
+
+export interface FundingFacts {
+  totalRaised: number | null;
+  lastRound: number | null;
+  /** e.g. "Seed", "Series B", "Round" */
+  lastRoundType: string | null;
+  valuation: number | null;
+  currency: Currency | null;
+  year: number | null;
+  leadInvestor: string | null;
+  confidence: FundingConfidence;
+}
+
+/** Rough fixed rates, only good enough to sort and filter mixed currencies side by side. */
+const USD_PER: Record<Currency, number> = { USD: 1, EUR: 1.08, GBP: 1.27, AUD: 0.66, CAD: 0.73 };
+
+export function toUsd(amount: number | null, currency: Currency | null): number | null {
+  if (amount === null) return null;
+  return Math.round(amount * USD_PER[currency ?? "USD"]);
+}
+
+const AMOUNT_RE =
+  /(?:\b(AUD|CAD|USD|US|EUR|GBP)\s*)?([$€£])?\s?(~)?(\d+(?:\.\d+)?)(?:\s*-\s*\d+(?:\.\d+)?)?\s*(k|m|b|bn|million|billion)\b(\+)?(?:\s*(EUR|USD|GBP|AUD|CAD)\b)?/gi;
+
+const MULTIPLIER: Record<string, number> = { k: 1e3, m: 1e6, million: 1e6, b: 1e9, bn: 1e9, billion: 1e9 };
+const SYMBOL_CURRENCY: Record<string, Currency> = { "$": "USD", "€": "EUR", "£": "GBP" };
+
+const INTENT_RE = /(seeking|targeting|eyeing|raising|pitching|in talks)\b[^.;|]*$/i;
+const EXIT_RE = /(acquired|acquisition|bought)\b[^.;|]*$/i;
+const NON_FUNDING_AFTER_RE = /^\s*(in )?(contracts|deal|revenue|arr|stake|assets|aum|market cap|under management|fund\b|across fund)/i;
+// Fund sizes, and parts of a figure already counted ("$935M Series A (including $520M extension)")
+const NON_FUNDING_BEFORE_RE = /(\bfund\b[^.;|]*|manages\s*|including\s*)$/i;
+const VALUATION_AFTER_RE = /^\s*((post|pre)-money |headline )?(valuation|val)\b/i;
+const VALUATION_BEFORE_RE = /(valued( at)?|valuation( of)?|val|\bat)\s*[~(]*$/i;
+const ROUND_AFTER_RE = /^\s*(pre-seed|seed|series [a-h]|(initial |second |latest |growth )?round|extension)\b/i;
+// "Series A of $10M", and a label written before its figure: "Series B: $40M", "Seed $3M"
+const ROUND_BEFORE_RE = /(pre-seed|seed|series [a-h]|round)( round)?( of|:)?\s*[~(]*$/i;
+const TOTAL_AFTER_RE = /^\s*(total|raised|in (total|funding)|total funding|funding|across)\b/i;
+const TOTAL_BEFORE_RE = /(total raised:?|raised|total|funding of)\s*[~(]*$/i;
+
+type AmountKind = "total" | "round" | "valuation" | "unlabelled";
+
+interface Amount {
+  value: number;
+  currency: Currency;
+  kind: AmountKind;
+  roundType: string | null;
+  approximate: boolean;
+  /** Who led this figure's round, from the text between it and the next figure */
+  lead: string | null;
+}
+
+function roundLabel(raw: string): string {
+  const lower = raw.toLowerCase().trim();
+  if (lower === "pre-seed") return "Pre-Seed";
+  if (lower === "seed") return "Seed";
+  if (lower.startsWith("series")) return `Series ${lower.slice(-1).toUpperCase()}`;
+  return "Round";
+}
+
+/** Leading text of the clause the amount sits in, and the text up to the next amount. */
+function contexts(text: string, start: number, end: number, nextStart: number) {
+  let clauseStart = start;
+  // A "." only ends a clause when followed by whitespace, so "$1.62B" stays whole
+  while (clauseStart > 0 && !/^([;|]|\.\s)/.test(text.slice(clauseStart - 1, clauseStart + 1))) clauseStart--;
+  return { before: text.slice(clauseStart, start), after: text.slice(end, nextStart) };
+}
+
+// "(Series D)", "(growth rounds)", "(oversubscribed)" describe the round, not who led it
+const NOT_A_LEAD_RE =
+  /^(pre-seed|seed|series|growth|early|round|oversubscribed|extension|undisclosed|unannounced|announced|reported|rumou?red|est|estimated|approx|bridge|convertible|safe|debt|equity|total|combined|including|post|pre|first|second|initial|latest|led)\b/i;
+
+function leadName(raw: string | undefined): string | null {
+  if (!raw || NOT_A_LEAD_RE.test(raw.trim())) return null;
+  const first = raw.split(/,| and | & /)[0];
+  return normalizeInvestor(first)?.name ?? null;
+}
+
+/** The lead named anywhere in `text`, for prose with at most one round. */
+function findLead(text: string): string | null {
+  const led = /\b(?:co-)?led by ([^.;|,()]+)/i.exec(text);
+  const from = /\b(?:seed|series [a-h]|round|raised \$?[\d.]+\s*[kmb]\+?)\s+from\s+([A-Z][^.;|,()]*)/i.exec(text);
+  const paren = /(?:seed|series [a-h]|round|raised \$[\d.]+\s*[kmb]\+?|\$[\d.]+\s*[kmb]\+?)\s*\(([A-Za-z][^)$\d]*)\)/i.exec(text);
+  return leadName(led?.[1] ?? from?.[1] ?? paren?.[1]);
+}
+
+const LEAD_LED_RE = /^[^.;|]*?\b(?:co-)?led by ([^.;|,()]+)/i;
+const LEAD_FROM_RE = /^\s*(?:(?:pre-seed|seed|series [a-h]|(?:initial |second |latest |growth )?round|extension)\s*)*from\s+([A-Z][^.;|,()]*)/i;
+const LEAD_PAREN_RE = /^\s*(?:(?:pre-seed|seed|series [a-h]|(?:initial |second |latest |growth )?round|extension)\s*)*\(([A-Za-z][^)$\d]*)\)/i;
+
+/** The lead of the figure that `after` follows: " Series A (Canaan)", " seed led by Accel", " round from Index". */
+function leadAfter(after: string): string | null {
+  return leadName(LEAD_LED_RE.exec(after)?.[1] ?? LEAD_FROM_RE.exec(after)?.[1] ?? LEAD_PAREN_RE.exec(after)?.[1]);
+}
+
+const EMPTY: FundingFacts = {
+  totalRaised: null,
+  lastRound: null,
+  lastRoundType: null,
+  valuation: null,
+  currency: null,
+  year: null,
+  leadInvestor: null,
+  confidence: "none",
+};
+
+const cache = new Map<string, FundingFacts>();
+
+export function parseFunding(text: string): FundingFacts {
+  if (!text) return EMPTY;
+  const hit = cache.get(text);
+  if (hit) return hit;
+
+  const matches = [...text.matchAll(AMOUNT_RE)].filter((m) => m[1] || m[2] || m[7]);
+  let skipped = false;
+  const amounts: Amount[] = [];
+  matches.forEach((m, i) => {
+    const start = m.index!;
+    const end = start + m[0].length;
+    const nextStart = matches[i + 1]?.index ?? text.length;
+    const { before, after } = contexts(text, start, end, nextStart);
+    if (NON_FUNDING_AFTER_RE.test(after) || NON_FUNDING_BEFORE_RE.test(before)) return;
+    // Planned raises and exit prices are not money raised; keep them out but trust the rest less
+    if (INTENT_RE.test(before) || EXIT_RE.test(before) || /^\s*(valuation )?target/i.test(after)) {
+      skipped = true;
+      return;
+    }
+    const code = (m[1] || m[7] || "").toUpperCase();
+    const currency: Currency = code && code !== "US" ? (code as Currency) : SYMBOL_CURRENCY[m[2] ?? "$"] ?? "USD";
+    const value = parseFloat(m[4]) * MULTIPLIER[m[5].toLowerCase()];
+    const round = ROUND_AFTER_RE.exec(after) ?? ROUND_BEFORE_RE.exec(before);
+    let kind: AmountKind = "unlabelled";
+    if (VALUATION_AFTER_RE.test(after) || VALUATION_BEFORE_RE.test(before)) kind = "valuation";
+    else if (round) kind = "round";
+    else if (TOTAL_AFTER_RE.test(after) || TOTAL_BEFORE_RE.test(before)) kind = "total";
+    amounts.push({
+      value,
+      currency,
+      kind,
+      roundType: round ? roundLabel(round[1]) : null,
+      approximate: !!m[3] || !!m[6] || /\best\.?\s*$/i.test(before),
+      lead: leadAfter(after),
+    });
+  });
+
+  // Figures in a second currency are conversions of the first ("€30M … (~$350M)")
+  const currency = amounts[0]?.currency ?? null;
+  const kept = amounts.filter((a) => a.currency === currency);
+  if (kept.length === 0) {
+    const facts = { ...EMPTY, confidence: skipped ? "low" : "none" } as FundingFacts;
+    cache.set(text, facts);
+    return facts;
+  }
+
+  const of = (kind: AmountKind) => kept.filter((a) => a.kind === kind);
+  const rounds = of("round");
+  const totals = of("total");
+  const valuations = of("valuation");
+  let unlabelled = of("unlabelled");
+  // A lone unlabelled figure in prose about raising money is the amount raised
+  const inferredTotal = totals.length === 0 && rounds.length === 0 && unlabelled.length > 0 && /rais|fund|total|backed|led by|seed|series|round|valuation/i.test(text);
+  if (inferredTotal) {
+    totals.push(unlabelled[0]);
+    unlabelled = unlabelled.slice(1);
+  }
+
+  // Rounds are usually listed oldest first, but not always: "Series B $40M … earlier $10M Series A"
+  const rank = (a: Amount) => (a.roundType ? stageRank(a.roundType) : null);
+  const lastRound = rounds.reduce<Amount | null>((latest, a) => {
+    if (!latest) return a;
+    const [r, l] = [rank(a), rank(latest)];
+    return r !== null && l !== null && r < l ? latest : a;
+  }, null);
+  const valuation = valuations.length > 0 ? Math.max(...valuations.map((a) => a.value)) : null;
+  const roundSum = rounds.reduce((sum, a) => sum + a.value, 0);
+  let totalRaised = totals.length > 0 ? Math.max(...totals.map((a) => a.value)) : rounds.length > 0 ? roundSum : null;
+  if (totalRaised !== null && lastRound) totalRaised = Math.max(totalRaised, lastRound.value);
+
+  const years = [...text.matchAll(/\b(19[89]\d|20[0-3]\d)\b/g)].map((m) => Number(m[1]));
+  // "Databricks: $43B valuation. Anyscale: $200M+ raised." mixes several companies
+  const subjects = text.match(/(^|[.;|]\s*)[A-Z][\w .&-]*:\s*[~$€£\d]/g)?.length ?? 0;
+
+  let confidence: FundingConfidence = "high";
+  if (inferredTotal || unlabelled.length > 0 || kept.some((a) => a.approximate)) confidence = "medium";
+  if (subjects > 1 || skipped) confidence = "low";
+  if (totalRaised === null && valuation === null) confidence = skipped ? "low" : "none";
+
+  const facts: FundingFacts = {
+    totalRaised,
+    lastRound: lastRound?.value ?? null,
+    lastRoundType: lastRound?.roundType ?? null,
+    valuation,
+    currency,
+    year: years.length > 0 ? years[years.length - 1] : null,
+    // The lead belongs to the last round; with several rounds a lead named elsewhere is another round's
+    leadInvestor: lastRound?.lead ?? (rounds.length <= 1 ? findLead(text) : null),
+    confidence,
+  };
+  cache.set(text, facts);
+  return facts;
+}
+
+/** "$1.62B", "€30M", "$700K" */
+export function formatMoney(amount: number | null, currency: Currency | null = "USD"): string {
+  if (amount === null) return "";
+  const symbol = { USD: "$", EUR: "€", GBP: "£", AUD: "A$", CAD: "C$" }[currency ?? "USD"];
+  const [value, unit] =
+    amount >= 1e9 ? [amount / 1e9, "B"] : amount >= 1e6 ? [amount / 1e6, "M"] : amount >= 1e3 ? [amount / 1e3, "K"] : [amount, ""];
+  return `${symbol}${Number(value.toFixed(value >= 100 ? 0 : value >= 10 ? 1 : 2))}${unit}`;
+}
+
+/** Short labelled figures for display, e.g. ["Raised $12M", "Seed $3M", "2021"]. */
+export function fundingSummary(facts: FundingFacts): string[] {
+  return [
+    facts.totalRaised !== null && `Raised ${formatMoney(facts.totalRaised, facts.currency)}`,
+    facts.lastRound !== null && `${facts.lastRoundType ?? "Last round"} ${formatMoney(facts.lastRound, facts.currency)}`,
+    facts.valuation !== null && `Valuation ${formatMoney(facts.valuation, facts.currency)}`,
+    facts.year !== null && String(facts.year),
+    facts.leadInvestor && `Lead: ${facts.leadInvestor}`,
+  ].filter((s): s is string => !!s);
+}
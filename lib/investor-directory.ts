@@ -0,0 +1,20 @@
+import type { Person } from "@/lib/types";
+import { getPeople } from "@/lib/people-data";
+import { networkCompanies } from "@/lib/network-data";
+import { buildInvestorDirectory, type InvestorEntity } from "@/lib/investors";
+
+export { networkCompanies };
+
+let directory: { people: Person[]; entities: InvestorEntity[] } | null = null;
+
+/** Every investor backing someone in the people pool or a network company, most-backing first. */
+export function getInvestorDirectory(): InvestorEntity[] {
+  const people = getPeople();
+  // Rebuilt after an import replaces the people dataset
+  if (directory?.people !== people) directory = { people, entities: buildInvestorDirectory(people, networkCompanies) };
+  return directory.entities;
+}
+
+export function getInvestor(slug: string): InvestorEntity | undefined {
+  return getInvestorDirectory().find((i) => i.slug === slug);
+}
@@ -0,0 +1,143 @@
+/** Turn free-text investor lists ("Greenoaks, a16z, Lightspeed…") into canonical investor entities. */
+
+export interface InvestorRef {
+  slug: string;
+  name: string;
+}
+
+/** Canonical name → other spellings. Spellings that only differ by a generic suffix ("Capital", "Ventures"…) need no entry. */
+const ALIASES: Record<string, string[]> = {
+  "Andreessen Horowitz": ["a16z", "andreessen", "a16z crypto", "a16z speedrun", "a16z games", "a16z/seed ecosystem"],
+  "Y Combinator": ["yc", "yc ecosystem", "y combinator ecosystem"],
+  "GV": ["google ventures"],
+  "NEA": ["new enterprise associates"],
+  "Nvidia": ["nventures", "nvidia inception"],
+  "Kleiner Perkins": ["kleiner"],
+  "Khosla Ventures": ["khosla-led ecosystem"],
+  "DST Global": ["dst"],
+  "Sequoia Capital": ["sequoia capital scout"],
+  "Tiger Global": ["tiger", "tiger global management"],
+  "ICONIQ Capital": ["iconiq growth"],
+  "Union Square Ventures": ["usv"],
+  "Jeff Bezos": ["bezos", "bezos expeditions"],
+  "Eric Schmidt": ["schmidt"],
+  "Cisco": ["cisco investments"],
+  "Gigafund": ["giga fund"],
+  "Creandum": ["creandum ecosystem"],
+  "Samsung": ["samsung next", "samsung catalyst fund"],
+};
+
+/** Entries that describe the funding situation rather than name an investor. */
+const NON_INVESTOR_RE = /^(not (publicly )?disclosed|undisclosed|self-funded|bootstrapped|others?$|various|in (fundraising|talks)|none yet|n\/a|public markets|public \(|angel investors|fundraising in progress|targeting|multiple|top |professional management|lps? |lp-|operator-led|early strategic|deep-tech investors)/i;
+
+const GENERIC_SUFFIX_RE = /\s+(ventures?|venture partners|venture capital|capital|partners|management|group|vc)$/;
+
+function aliasKey(name: string): string {
+  let key = name.toLowerCase().replace(/\s+/g, " ").trim();
+  let prev;
+  do {
+    prev = key;
+    key = key.replace(GENERIC_SUFFIX_RE, "");
+  } while (key !== prev && key.includes(" "));
+  return key;
+}
+
+const CANONICAL = new Map<string, string>();
+for (const [canonical, aliases] of Object.entries(ALIASES)) {
+  CANONICAL.set(aliasKey(canonical), canonical);
+  for (const a of aliases) CANONICAL.set(aliasKey(a), canonical);
+}
+
+export function investorSlug(name: string): string {
+  return aliasKey(name)
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+}
+
+/** Split on commas and semicolons that are not inside parentheses. */
+function splitList(text: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = "";
+  for (const ch of text) {
+    if (ch === "(") depth++;
+    if (ch === ")") depth = Math.max(0, depth - 1);
+    if ((ch === "," || ch === ";") && depth === 0) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += ch;
+    }
+  }
+  parts.push(current);
+  return parts;
+}
+
+/** Canonical entity for one investor name, or null if the text isn't an investor. */
+export function normalizeInvestor(raw: string): InvestorRef | null {
+  // "GV (Alphabet)" → "GV"; qualifiers in parentheses never change who the investor is
+  const name = raw.replace(/\([^)]*\)?/g, "").replace(/\s+/g, " ").trim();
+  if (!name || NON_INVESTOR_RE.test(name)) return null;
+  const canonical = CANONICAL.get(aliasKey(name)) ?? name;
+  return { slug: investorSlug(canonical), name: canonical };
+}
+
+const cache = new Map<string, InvestorRef[]>();
+
+/** Parse a free-text investor list into distinct canonical investors, in order of mention. */
+export function parseInvestors(text: string): InvestorRef[] {
+  if (!text) return [];
+  const hit = cache.get(text);
+  if (hit) return hit;
+  const seen = new Set<string>();
+  const result: InvestorRef[] = [];
+  for (const part of splitList(text)) {
+    const ref = normalizeInvestor(part);
+    if (!ref || seen.has(ref.slug)) continue;
+    seen.add(ref.slug);
+    result.push(ref);
+  }
+  cache.set(text, result);
+  return result;
+}
+
+// ---------------------------------------------------------------------------
+// Directory across people and network companies
+// ---------------------------------------------------------------------------
+
+export interface InvestorEntity extends InvestorRef {
+  /** Ids of people whose company this investor backs */
+  people: number[];
+  /** Handles of network companies this investor backs */
+  companies: string[];
+}
+
+export type InvestorSummary = InvestorRef & { people: number; companies: number };
+
+/** Group every investor mention by entity. Names not in the alias table take their most common spelling. */
+export function buildInvestorDirectory(
+  people: { id: number; investors: string }[],
+  companies: Record<string, { investors: string }>
+): InvestorEntity[] {
+  const bySlug = new Map<string, InvestorEntity & { spellings: Map<string, number> }>();
+  const add = (ref: InvestorRef) => {
+    let entity = bySlug.get(ref.slug);
+    if (!entity) bySlug.set(ref.slug, (entity = { ...ref, people: [], companies: [], spellings: new Map() }));
+    entity.spellings.set(ref.name, (entity.spellings.get(ref.name) ?? 0) + 1);
+    return entity;
+  };
+  for (const p of people) {
+    for (const ref of parseInvestors(p.investors)) add(ref).people.push(p.id);
+  }
+  for (const [handle, co] of Object.entries(companies)) {
+    for (const ref of parseInvestors(co.investors)) add(ref).companies.push(handle);
+  }
+  return [...bySlug.values()]
+    .map(({ spellings, ...entity }) => ({
+      ...entity,
+      name: [...spellings].sort((a, b) => b[1] - a[1])[0][0],
+    }))
+    .sort((a, b) => b.people.length + b.companies.length - (a.people.length + a.companies.length) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,64 @@
+import { readFileSync, statSync } from "node:fs";
+import { rename, stat, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { warnIssues, type Checked } from "@/lib/data-validation";
+
+/** What an update leaves behind: the next state, or none to leave the store as it is, and the caller's result. */
+export interface StoreUpdate<T, R> {
+  next?: T;
+  result: R;
+}
+
+export interface JsonStore<T> {
+  /** The current state, read and checked on first use and again whenever the file changed on disk. */
+  get(): T;
+  /**
+   * Run `change` on the current state once every earlier update has been written, so concurrent
+   * requests never start from the same state. Throwing rejects this update only.
+   */
+  update<R>(change: (current: T) => StoreUpdate<T, R> | Promise<StoreUpdate<T, R>>): Promise<R>;
+}
+
+/**
+ * A data file the app writes to. It is read from disk at runtime rather than bundled, so a restarted
+ * server sees what was last saved, and it is read again when another process, such as
+ * `npm run import-people`, replaced it. The next state is written to a temp file that is renamed into
+ * place, so readers never see half a file, and it replaces the state in memory once that succeeds.
+ */
+export function jsonStore<T>(file: string, check: (raw: unknown) => Checked<T>, serialize: (data: T) => string): JsonStore<T> {
+  const fullPath = path.join(process.cwd(), file);
+  let data: T | undefined;
+  // Modification time of the file `data` was read from or written to
+  let loadedAt = 0;
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const get = (): T => {
+    const modified = statSync(fullPath).mtimeMs;
+    if (data === undefined || modified !== loadedAt) {
+      const checked = check(JSON.parse(readFileSync(fullPath, "utf8")));
+      warnIssues(checked.issues);
+      data = checked.data;
+      loadedAt = modified;
+    }
+    return data;
+  };
+
+  const update = <R>(change: (current: T) => StoreUpdate<T, R> | Promise<StoreUpdate<T, R>>): Promise<R> => {
+    const run = queue.then(async () => {
+      const { next, result } = await change(get());
+      if (next !== undefined) {
+        const temp = `${fullPath}.${process.pid}.tmp`;
+        await writeFile(temp, serialize(next));
+        await rename(temp, fullPath);
+        // Only once it is on disk, so a failed write leaves the state as it was saved
+        data = next;
+        loadedAt = (await stat(fullPath)).mtimeMs;
+      }
+      return result;
+    });
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return { get, update };
+}
@@ -0,0 +1,26 @@
+/**
+ * Keys for matching people and accounts across sources: import batches, the people pool and the
+ * Twitter graph. Kept free of schemas so client components can use them.
+ */
+
+/** "https://x.com/Foo", "twitter.com/foo", "foo" → "@Foo"; null when it can't be a handle. */
+export function normalizeTwitter(raw: string): string | null {
+  const handle = raw
+    .trim()
+    .replace(/^https?:\/\//i, "")
+    .replace(/^(www\.)?(twitter|x)\.com\//i, "")
+    .replace(/[/?#].*$/, "")
+    .replace(/^@/, "");
+  if (!handle) return "";
+  return /^\w{1,15}$/.test(handle) ? `@${handle}` : null;
+}
+
+/** Lower-case handle without "@", for matching. */
+export function twitterKey(handle: string): string {
+  return handle.replace(/^@/, "").toLowerCase();
+}
+
+/** Case-, accent- and spacing-insensitive name for matching. */
+export function nameKey(name: string): string {
+  return name.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase().replace(/[^a-z0-9]+/g, " ").trim();
+}
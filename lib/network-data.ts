@@ -0,0 +1,19 @@
+import type { NetworkCompany } from "@/lib/types";
+import type { GraphData } from "@/lib/graph-types";
+import { checkCompanies, checkGraph, warnIssues } from "@/lib/data-validation";
+import { recommendationsByHandle } from "@/lib/network-join";
+import graphRaw from "@/data/graph_data.json";
+import companiesRaw from "@/data/network_companies.json";
+
+const graphChecked = checkGraph(graphRaw);
+const companiesChecked = checkCompanies(companiesRaw);
+warnIssues([...graphChecked.issues, ...companiesChecked.issues]);
+
+/** The Twitter network graph with bad nodes, edges and recommendations quarantined. */
+export const graphData: GraphData = graphChecked.data;
+
+/** Recommendations keyed by normalized handle, for joining with `Person.twitter`. */
+export const recommendationsByUsername = recommendationsByHandle(graphData.recommendations);
+
+/** Network companies keyed by lower-case Twitter handle, bad records quarantined. */
+export const networkCompanies: Record<string, NetworkCompany> = companiesChecked.data;
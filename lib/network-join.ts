@@ -0,0 +1,56 @@
+/**
+ * The join between the people pool and the Twitter graph. `Person.twitter` ("@ilyasut") and
+ * `Recommendation.username` ("ilyasut") name the same accounts once handles are normalized.
+ */
+
+import type { Person } from "@/lib/types";
+import type { Recommendation } from "@/lib/graph-types";
+import { normalizeTwitter, twitterKey } from "@/lib/match-keys";
+import { parseSpikeTags } from "@/lib/spike-tags";
+
+/** Lower-case handle without "@" for either side; profile URLs reduce to their handle. */
+export function handleKey(handle: string): string {
+  return twitterKey(normalizeTwitter(handle) || handle);
+}
+
+/** Recommendations keyed by `handleKey`. */
+export function recommendationsByHandle(recs: Recommendation[]): Map<string, Recommendation> {
+  return new Map(recs.map((r) => [handleKey(r.username), r]));
+}
+
+/** The person's account in the Twitter graph, if the network surfaced it. */
+export function personRecommendation(p: Person, byHandle: Map<string, Recommendation>): Recommendation | undefined {
+  return p.twitter ? byHandle.get(handleKey(p.twitter)) : undefined;
+}
+
+/** Outlier score from which a person counts as a high outlier. */
+export const HIGH_OUTLIER_SCORE = 85;
+/** Share of seed accounts (`hub_pct`) following someone from which they count as socially close. */
+export const CLOSE_HUB_PCT = 30;
+
+/** Both signals at once: an exceptional record, and many trusted accounts already following them. */
+export function isHighAndClose(outlierScore: number, rec: Recommendation): boolean {
+  return outlierScore >= HIGH_OUTLIER_SCORE && rec.hub_pct >= CLOSE_HUB_PCT;
+}
+
+/** What the Twitter tab shows about a recommendation that is also in the people pool. */
+export interface PoolMatch {
+  id: number;
+  name: string;
+  outlierScore: number;
+  spikes: string[];
+}
+
+/** People pool matches keyed by the recommendation's `handleKey`; the highest outlier score wins a shared handle. */
+export function poolMatches(people: Person[], recs: Recommendation[]): Record<string, PoolMatch> {
+  const byHandle = recommendationsByHandle(recs);
+  const matches: Record<string, PoolMatch> = {};
+  for (const p of people) {
+    const rec = personRecommendation(p, byHandle);
+    if (!rec) continue;
+    const key = handleKey(rec.username);
+    if (matches[key] && matches[key].outlierScore >= p.outlierScore) continue;
+    matches[key] = { id: p.id, name: p.name, outlierScore: p.outlierScore, spikes: parseSpikeTags(p.achievements || "").tags };
+  }
+  return matches;
+}
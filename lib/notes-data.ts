@@ -0,0 +1,80 @@
+import { randomUUID } from "node:crypto";
+import { checkNotes, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import { findMentions, type Comment, type NotesFile, type SubjectNote, type SubjectThread } from "@/lib/notes";
+import { getPipeline } from "@/lib/pipeline-data";
+import { pipelineOwners } from "@/lib/pipeline";
+
+const store = jsonStore<NotesFile>(DATA_FILES.notes, checkNotes, (notes) => JSON.stringify(notes, null, 2) + "\n");
+
+/** Everyone who owns a pipeline record or has written a note or comment. */
+export function getTeammates(): string[] {
+  const { notes, comments } = store.get();
+  const names = [...pipelineOwners(getPipeline()), ...notes.map((n) => n.author), ...comments.map((c) => c.author)];
+  return [...new Set(names)];
+}
+
+export function getThread(key: string): SubjectThread {
+  const { notes, comments } = store.get();
+  return {
+    note: notes.find((n) => n.key === key) ?? null,
+    comments: comments.filter((c) => c.key === key),
+    teammates: getTeammates(),
+  };
+}
+
+/** Replace the subject's note; an empty body removes it. */
+export function saveNote(key: string, body: string, author: string): Promise<SubjectNote | null> {
+  return store.update((current) => {
+    const note = body.trim() ? { key, body, author, updatedAt: new Date().toISOString() } : null;
+    const notes = current.notes.filter((n) => n.key !== key);
+    if (note) notes.push(note);
+    return { next: { ...current, notes }, result: note };
+  });
+}
+
+export class CommentError extends Error {}
+
+export function addComment(key: string, body: string, author: string, parentId: string | null): Promise<Comment> {
+  return store.update((current) => {
+    if (parentId !== null) {
+      const parent = current.comments.find((c) => c.id === parentId);
+      if (!parent || parent.key !== key) throw new CommentError(`No comment "${parentId}" on ${key}`);
+      // Keep threads one level deep
+      if (parent.parentId !== null) parentId = parent.parentId;
+    }
+    const comment: Comment = {
+      id: randomUUID(),
+      key,
+      parentId,
+      author,
+      body,
+      mentions: findMentions(body, [...getTeammates(), author]),
+      createdAt: new Date().toISOString(),
+    };
+    return { next: { ...current, comments: [...current.comments, comment] }, result: comment };
+  });
+}
+
+/** For merged people: `from`'s comments move to `to`, and its note is added below `to`'s. */
+export function moveNotes(from: string, to: string): Promise<void> {
+  return store.update((current) => {
+    const note = current.notes.find((n) => n.key === from);
+    const target = current.notes.find((n) => n.key === to);
+    if (!note && !current.comments.some((c) => c.key === from)) return { result: undefined };
+    const notes = current.notes.filter((n) => n.key !== from && n.key !== to);
+    if (note || target) {
+      const kept = note && target ? { ...target, body: `${target.body}\n\n${note.body}` } : { ...(target ?? note!), key: to };
+      notes.push(kept);
+    }
+    return { next: { notes, comments: current.comments.map((c) => (c.key === from ? { ...c, key: to } : c)) }, result: undefined };
+  });
+}
+
+/** Delete a comment and its replies. */
+export function deleteComment(id: string): Promise<void> {
+  return store.update((current) => {
+    if (!current.comments.some((c) => c.id === id)) throw new CommentError(`No comment "${id}"`);
+    return { next: { ...current, comments: current.comments.filter((c) => c.id !== id && c.parentId !== id) }, result: undefined };
+  });
+}
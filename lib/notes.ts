@@ -0,0 +1,65 @@
+/** The team's own notes and comment threads on people and recommendations, keyed like the pipeline (`lib/subjects`). */
+
+/** One editable note per subject; the last writer signs it. */
+export interface SubjectNote {
+  key: string;
+  /** Markdown */
+  body: string;
+  author: string;
+  /** ISO timestamp */
+  updatedAt: string;
+}
+
+export interface Comment {
+  id: string;
+  key: string;
+  /** The comment this replies to; replies are one level deep */
+  parentId: string | null;
+  author: string;
+  /** Markdown */
+  body: string;
+  /** Teammates @-mentioned in `body`, as their full names */
+  mentions: string[];
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+export interface NotesFile {
+  notes: SubjectNote[];
+  comments: Comment[];
+}
+
+/** Everything the detail dialogs show for one subject. */
+export interface SubjectThread {
+  note: SubjectNote | null;
+  /** Oldest first */
+  comments: Comment[];
+  /** Names that can be @-mentioned */
+  teammates: string[];
+}
+
+// "@dana" or "@DanaLee", not the middle of an email address
+export const MENTION_RE = /(^|[^\p{L}\p{N}_.])@([\p{L}\p{N}_.-]*[\p{L}\p{N}_])/gu;
+
+/** "Dana Lee" is mentioned as @DanaLee (any case). */
+export const mentionHandle = (name: string) => name.replace(/\s+/g, "");
+
+/** The teammate an @handle refers to: a full-name handle wins over a first-name match. */
+export function resolveMention(handle: string, teammates: string[]): string | null {
+  const h = handle.toLowerCase();
+  return (
+    teammates.find((t) => mentionHandle(t).toLowerCase() === h) ??
+    teammates.find((t) => t.split(/\s+/)[0].toLowerCase() === h) ??
+    null
+  );
+}
+
+/** Teammates mentioned in a comment body, in order of first mention. */
+export function findMentions(body: string, teammates: string[]): string[] {
+  const found: string[] = [];
+  for (const m of body.matchAll(MENTION_RE)) {
+    const name = resolveMention(m[2], teammates);
+    if (name && !found.includes(name)) found.push(name);
+  }
+  return found;
+}
@@ -0,0 +1,70 @@
+import type { Person } from "@/lib/types";
+import { buildSearchIndex, type SearchIndex } from "@/lib/people-search";
+import { checkPeople, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore, type StoreUpdate } from "@/lib/json-store";
+import { serializePeople } from "@/lib/person-import";
+
+/** `people.json` as read, quarantined records included so that saving never drops them, and the valid people in it. */
+interface PeopleFile {
+  records: unknown[];
+  people: Person[];
+}
+
+const store = jsonStore<PeopleFile>(
+  DATA_FILES.people,
+  (raw) => {
+    const checked = checkPeople(raw);
+    return { data: { records: Array.isArray(raw) ? raw : [], people: checked.data }, issues: checked.issues };
+  },
+  (file) => serializePeople(file.records)
+);
+
+/**
+ * The file with its valid people replaced by `next`: changed people stay where they were, missing ones
+ * are removed and new ones are appended. Quarantined records are kept as they are.
+ */
+function withPeople(file: PeopleFile, next: Person[]): PeopleFile {
+  const valid = new Set<unknown>(file.people);
+  const byId = new Map(next.map((p) => [p.id, p]));
+  const records = file.records.flatMap((record) => {
+    if (!valid.has(record)) return [record];
+    const id = (record as Person).id;
+    const person = byId.get(id);
+    byId.delete(id);
+    return person ? [person] : [];
+  });
+  return { records: [...records, ...byId.values()], people: next };
+}
+
+let index: { people: Person[]; index: SearchIndex } | null = null;
+
+/** The full people dataset, minus quarantined records. Import only from server code — it is several MB. */
+export function getPeople(): Person[] {
+  return store.get().people;
+}
+
+/** Full-text index over the people dataset, built on first use and again after each change. */
+export function getPeopleIndex(): SearchIndex {
+  const people = getPeople();
+  if (index?.people !== people) index = { people, index: buildSearchIndex(people) };
+  return index.index;
+}
+
+/** The id of every record in `people.json`, quarantined ones included where they have one. */
+export function getRecordIds(): number[] {
+  return store.get().records.flatMap((record) => {
+    const id = (record as { id?: unknown } | null)?.id;
+    return typeof id === "number" ? [id] : [];
+  });
+}
+
+/**
+ * Replace the dataset on disk and in memory with what `change` makes of the current people, after any
+ * earlier change has been written. Derived caches rebuild on next use.
+ */
+export function updatePeople<R>(change: (people: Person[]) => StoreUpdate<Person[], R> | Promise<StoreUpdate<Person[], R>>): Promise<R> {
+  return store.update(async (file) => {
+    const { next, result } = await change(file.people);
+    return { next: next && withPeople(file, next), result };
+  });
+}
@@ -0,0 +1,199 @@
+import type { Person } from "@/lib/types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import { CONFLICT_STATUS_META, evaluateConflicts, type ConflictStatus } from "@/lib/conflicts";
+import { countryByCode, UNKNOWN_COUNTRY } from "@/lib/countries";
+import { formatMoney, parseFunding } from "@/lib/funding";
+import { UNTRACKED, type Pipeline } from "@/lib/pipeline";
+import { personKey } from "@/lib/subjects";
+import { categoryLabel, personCategories } from "@/lib/categories";
+import { BONUS_KINDS, customScore, type BonusKind, type ScoringWeights } from "@/lib/scoring";
+import { NETWORK_FILTER_LABELS, PEOPLE_METRIC_LABELS, SCORE_METRICS, type PeopleMetric, type PeopleQuery } from "@/lib/people-query";
+
+export const EXPORT_FORMATS = ["csv", "json", "md"] as const;
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  json: "application/json; charset=utf-8",
+  md: "text/markdown; charset=utf-8",
+};
+
+export interface ExportField {
+  label: string;
+  value: (p: Person, pipeline: Pipeline) => string | number | string[];
+}
+
+const money = (metric: "totalRaised" | "lastRound" | "valuation") => (p: Person) => {
+  const facts = parseFunding(p.fundingInfo);
+  return formatMoney(facts[metric], facts.currency);
+};
+
+/** What each DataTable column exports. Cells truncate or summarise, so columns expand to the full text behind them. */
+const COLUMN_FIELDS: Record<string, ExportField[]> = {
+  outlierScore: [{ label: PEOPLE_METRIC_LABELS.outlierScore, value: (p) => p.outlierScore }],
+  startupLikelihood: [{ label: PEOPLE_METRIC_LABELS.startupLikelihood, value: (p) => p.startupLikelihood }],
+  combinedScore: [{ label: PEOPLE_METRIC_LABELS.combinedScore, value: (p) => Math.round(p.combinedScore * 10) / 10 }],
+  name: [
+    { label: "Name", value: (p) => p.name },
+    { label: "Twitter", value: (p) => p.twitter },
+  ],
+  achievements: [
+    { label: "Spike tags", value: (p) => parseSpikeTags(p.achievements).tags },
+    { label: "Achievements", value: (p) => parseSpikeTags(p.achievements).rest },
+  ],
+  company: [
+    { label: "Company", value: (p) => p.company },
+    { label: "Company URL", value: (p) => p.companyUrl },
+  ],
+  categories: [{ label: "Categories", value: (p) => personCategories(p).map(categoryLabel) }],
+  fundingSeries: [{ label: "Stage", value: (p) => p.fundingSeries }],
+  investors: [{ label: "Investors", value: (p) => p.investors }],
+  conflict: [
+    { label: "Conflict", value: (p) => CONFLICT_STATUS_META[evaluateConflicts(p.investors).status].label },
+    { label: "Conflict funds", value: (p) => evaluateConflicts(p.investors).decisive.map((m) => m.rule.label) },
+  ],
+  status: [
+    { label: "Status", value: (p, pipeline) => pipeline[personKey(p.id)]?.stage ?? "" },
+    { label: "Owner", value: (p, pipeline) => pipeline[personKey(p.id)]?.owner ?? "" },
+  ],
+  raised: [{ label: PEOPLE_METRIC_LABELS.raised, value: money("totalRaised") }],
+  lastRound: [{ label: PEOPLE_METRIC_LABELS.lastRound, value: money("lastRound") }],
+  valuation: [{ label: PEOPLE_METRIC_LABELS.valuation, value: money("valuation") }],
+  fundingInfo: [{ label: "Funding", value: (p) => p.fundingInfo }],
+  currentActivity: [{ label: "Current", value: (p) => p.currentActivity }],
+};
+
+// Not shown as columns, but always wanted outside the app
+const TRAILING_FIELDS: ExportField[] = [
+  { label: "Notes", value: (p) => p.notes },
+  { label: "Country", value: (p) => p.country },
+  { label: "Categories", value: (p) => p.categories },
+  { label: "ID", value: (p) => p.id },
+];
+
+export const EXPORT_COLUMNS = Object.keys(COLUMN_FIELDS);
+
+/**
+ * Fields for the given column ids, in that order. Unknown ids are skipped; notes, country and id always come last.
+ * The "custom" column needs the query's `scoring` weights.
+ */
+export function exportFields(columns: string[], scoring: ScoringWeights | null = null): ExportField[] {
+  const fields = columns.flatMap((c): ExportField[] =>
+    c === "custom" ? (scoring ? [{ label: "Custom score", value: (p) => customScore(p, scoring) }] : []) : COLUMN_FIELDS[c] ?? []
+  );
+  return [...fields, ...TRAILING_FIELDS.filter((t) => !fields.some((f) => f.label === t.label))];
+}
+
+const SORT_LABELS: Record<string, string> = {
+  ...Object.fromEntries(Object.entries(COLUMN_FIELDS).map(([id, fields]) => [id, fields[0].label])),
+  country: "Country",
+  relevance: "Search relevance",
+  custom: "Custom score",
+};
+
+function rangeLabel(metric: PeopleMetric, min: number | null, max: number | null): string {
+  const label = PEOPLE_METRIC_LABELS[metric];
+  const format = (SCORE_METRICS as readonly string[]).includes(metric) ? String : formatMoney;
+  if (min !== null && max !== null) return `${label}: ${format(min)}–${format(max)}`;
+  return min !== null ? `${label}: ≥ ${format(min)}` : `${label}: ≤ ${format(max)}`;
+}
+
+/** "Scoring: outlier ×1, startup likelihood ×0.5; Chess +10, Norway +5" */
+function scoringLabel(weights: ScoringWeights): string {
+  const name = (kind: BonusKind, key: string) =>
+    kind === "categories" ? categoryLabel(key) : kind === "countries" ? countryByCode(key)?.name ?? key : key;
+  const bonuses = BONUS_KINDS.flatMap((kind) =>
+    Object.entries(weights[kind]).map(([key, points]) => `${name(kind, key)} ${points < 0 ? points : `+${points}`}`)
+  );
+  const base = `outlier ×${weights.outlierScore}, startup likelihood ×${weights.startupLikelihood}`;
+  return `Scoring: ${base}${bonuses.length > 0 ? `; ${bonuses.join(", ")}` : ""}`;
+}
+
+/**
+ * Human-readable lines describing the filters and sort behind an export, e.g. "Stage: Seed, Series A".
+ * `investorName` resolves investor slugs and `listName` watchlist ids.
+ */
+export function describeQuery(query: PeopleQuery, investorName: (slug: string) => string, listName: (id: string) => string): string[] {
+  const countryName = (code: string) => (code === UNKNOWN_COUNTRY ? "No country" : countryByCode(code)?.name ?? code);
+  const lines = [
+    query.q && `Search: "${query.q}"`,
+    query.company.length === 1 && `Has company: ${query.company[0]}`,
+    query.conflicts.length > 0 && `Conflict: ${query.conflicts.map((s) => CONFLICT_STATUS_META[s as ConflictStatus].label).join(", ")}`,
+    query.stages.length > 0 && `Stage: ${query.stages.join(", ")}`,
+    query.spikes.length > 0 && `Spikes: ${query.spikes.join(", ")}`,
+    query.categories.length > 0 &&
+      `Categories (${query.categoryMode === "all" ? "all of" : "any of"}): ${query.categories.map(categoryLabel).join(", ")}`,
+    query.investors.length > 0 && `Investors: ${query.investors.map(investorName).join(", ")}`,
+    query.countries.length > 0 && `Country: ${query.countries.map(countryName).join(", ")}`,
+    query.regions.length > 0 && `Region: ${query.regions.map((r) => (r === UNKNOWN_COUNTRY ? "No country" : r)).join(", ")}`,
+    query.statuses.length > 0 && `Status: ${query.statuses.map((s) => (s === UNTRACKED ? "Not in pipeline" : s)).join(", ")}`,
+    query.lists.length > 0 && `List: ${query.lists.map(listName).join(", ")}`,
+    query.network.length > 0 && `Twitter network: ${query.network.map((f) => NETWORK_FILTER_LABELS[f]).join(", ")}`,
+    ...Object.entries(query.ranges).map(([metric, r]) => rangeLabel(metric as PeopleMetric, r.min, r.max)),
+    query.scoring && scoringLabel(query.scoring),
+  ].filter((s): s is string => !!s);
+  if (lines.length === 0) lines.push("No filters");
+  lines.push(`Sorted by ${SORT_LABELS[query.sort] ?? query.sort}${query.sort === "relevance" ? "" : query.desc ? ", descending" : ", ascending"}`);
+  return lines;
+}
+
+export interface ExportMeta {
+  exportedAt: string;
+  rows: number;
+  /** From `describeQuery` */
+  filters: string[];
+}
+
+const text = (v: string | number | string[]) => (Array.isArray(v) ? v.join(", ") : String(v));
+
+// Spreadsheets run a cell that starts like a formula; numbers such as "-3" are left alone
+const FORMULA_START_RE = /^[=+\-@\t\r]/;
+const NUMBER_RE = /^-?\d+(\.\d+)?$/;
+
+function csvCell(raw: string): string {
+  const value = FORMULA_START_RE.test(raw) && !NUMBER_RE.test(raw) ? `'${raw}` : raw;
+  return /[",\r\n]/.test(value) || /^\s|\s$/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+function markdownCell(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, "<br>");
+}
+
+/**
+ * Render people as a file. CSV keeps the header as its first row and carries the metadata below the
+ * rows, after a blank line, one cell per line; Markdown has it as a bullet list above the table.
+ */
+export function renderExport(format: ExportFormat, people: Person[], fields: ExportField[], pipeline: Pipeline, meta: ExportMeta): string {
+  const summary = [`Exported ${meta.exportedAt}`, `${meta.rows} people`, ...meta.filters];
+  switch (format) {
+    case "json":
+      return JSON.stringify(
+        {
+          meta,
+          columns: fields.map((f) => f.label),
+          rows: people.map((p) => Object.fromEntries(fields.map((f) => [f.label, f.value(p, pipeline)]))),
+        },
+        null,
+        2
+      );
+    case "md":
+      return [
+        "# People export",
+        "",
+        ...summary.map((line) => `- ${markdownCell(line)}`),
+        "",
+        `| ${fields.map((f) => markdownCell(f.label)).join(" | ")} |`,
+        `| ${fields.map(() => "---").join(" | ")} |`,
+        ...people.map((p) => `| ${fields.map((f) => markdownCell(text(f.value(p, pipeline)))).join(" | ")} |`),
+        "",
+      ].join("\n");
+    case "csv":
+      return [
+        fields.map((f) => csvCell(f.label)).join(","),
+        ...people.map((p) => fields.map((f) => csvCell(text(f.value(p, pipeline)))).join(",")),
+        "",
+        ...summary.map((line) => csvCell(line.replace(/\r?\n/g, " "))),
+        "",
+      ].join("\r\n");
+  }
+}
@@ -0,0 +1,526 @@
+import type { Person } from "@/lib/types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import { parseInvestors } from "@/lib/investors";
+import { CONFLICT_STATUSES, evaluateConflicts } from "@/lib/conflicts";
+import { resolveCountries, UNKNOWN_COUNTRY } from "@/lib/countries";
+import { parseFunding, toUsd } from "@/lib/funding";
+import { parseStage, stageRank } from "@/lib/stages";
+import { PIPELINE_STAGES, UNTRACKED, pipelineStatus, type Pipeline } from "@/lib/pipeline";
+import { personKey } from "@/lib/subjects";
+import { personCategories } from "@/lib/categories";
+import { ScoringError, customScore, decodeWeights, encodeWeights, type ScoringWeights } from "@/lib/scoring";
+import type { Watchlist } from "@/lib/watchlists";
+import type { Recommendation } from "@/lib/graph-types";
+import { isHighAndClose, personRecommendation } from "@/lib/network-join";
+import type { SearchIndex } from "@/lib/people-search";
+
+export const PEOPLE_SORT_KEYS = [
+  "outlierScore",
+  "startupLikelihood",
+  "combinedScore",
+  "name",
+  "country",
+  "achievements",
+  "company",
+  "fundingSeries",
+  "investors",
+  "fundingInfo",
+  "currentActivity",
+] as const satisfies readonly (keyof Person)[];
+
+/** Numbers derived from a person, in USD where they are money. People without a value sort last and fail any range filter on it. */
+export const PEOPLE_METRICS = {
+  outlierScore: (p: Person) => p.outlierScore,
+  startupLikelihood: (p: Person) => p.startupLikelihood,
+  combinedScore: (p: Person) => p.combinedScore,
+  raised: (p: Person) => {
+    const f = parseFunding(p.fundingInfo);
+    return toUsd(f.totalRaised, f.currency);
+  },
+  lastRound: (p: Person) => {
+    const f = parseFunding(p.fundingInfo);
+    return toUsd(f.lastRound, f.currency);
+  },
+  valuation: (p: Person) => {
+    const f = parseFunding(p.fundingInfo);
+    return toUsd(f.valuation, f.currency);
+  },
+} satisfies Record<string, (p: Person) => number | null>;
+
+export type PeopleMetric = keyof typeof PEOPLE_METRICS;
+export const PEOPLE_METRIC_KEYS = Object.keys(PEOPLE_METRICS) as PeopleMetric[];
+
+export const PEOPLE_METRIC_LABELS: Record<PeopleMetric, string> = {
+  outlierScore: "Outlier",
+  startupLikelihood: "Startup likelihood",
+  combinedScore: "Combined",
+  raised: "Raised",
+  lastRound: "Last round",
+  valuation: "Valuation",
+};
+
+/** The 0–100 scores, which come back with every page as histograms. */
+export const SCORE_METRICS = ["outlierScore", "startupLikelihood", "combinedScore"] as const satisfies readonly PeopleMetric[];
+export type ScoreMetric = (typeof SCORE_METRICS)[number];
+
+/** People per equal-width bin from `min` to `max`; the last bin includes `max`. */
+export interface Histogram {
+  min: number;
+  max: number;
+  counts: number[];
+}
+
+const SCORE_BINS = 20;
+
+/** Inclusive bounds; null leaves that side open. */
+export interface NumberRange {
+  min: number | null;
+  max: number | null;
+}
+
+/** "relevance" ranks by search score and only makes sense together with `q`; "custom" needs `scoring`. */
+export type PeopleSortKey = (typeof PEOPLE_SORT_KEYS)[number] | PeopleMetric | "relevance" | "custom";
+
+export const DEFAULT_PAGE_SIZE = 100;
+export const MAX_PAGE_SIZE = 500;
+
+/** Filters, sort and page position understood by `/api/people`. The company yes/no filter only applies when exactly one side is picked, like its dropdown. */
+export interface PeopleQuery {
+  q: string;
+  company: string[];
+  /** Conflict statuses to keep (see `CONFLICT_STATUSES`) */
+  conflicts: string[];
+  /** Stages from `STAGES`; compared against the parsed `fundingSeries` */
+  stages: string[];
+  spikes: string[];
+  /** Normalized category keys (see `lib/categories`) */
+  categories: string[];
+  /** "any" keeps people in at least one picked category, "all" only those in every one */
+  categoryMode: CategoryMode;
+  /** Investor slugs; a person matches when any of them backs their company */
+  investors: string[];
+  /** ISO country codes or "unknown"; a person matches when any of their countries is picked */
+  countries: string[];
+  /** Subregion names or "unknown" */
+  regions: string[];
+  /** Pipeline stages or "untracked" */
+  statuses: string[];
+  /** Watchlist ids; a person matches when they are on any of them */
+  lists: string[];
+  /** "in" keeps people the Twitter network recommends, "close" only those also scoring high (see `lib/network-join`) */
+  network: NetworkFilter[];
+  /** Sent as `<metric>Min` / `<metric>Max`, e.g. `raisedMax=5000000` */
+  ranges: Partial<Record<PeopleMetric, NumberRange>>;
+  /** Weights for the custom score, which the "custom" sort ranks by */
+  scoring: ScoringWeights | null;
+  sort: PeopleSortKey;
+  desc: boolean;
+  cursor: string | null;
+  limit: number;
+}
+
+export interface PeoplePage {
+  items: Person[];
+  nextCursor: string | null;
+  total: number;
+  matched: number;
+  facets: FacetCounts;
+  /** Like the facets, each ignores its own range filter */
+  histograms: Record<ScoreMetric, Histogram>;
+}
+
+export const CATEGORY_MODES = ["any", "all"] as const;
+export type CategoryMode = (typeof CATEGORY_MODES)[number];
+
+export const NETWORK_FILTERS = ["in", "close"] as const;
+export type NetworkFilter = (typeof NETWORK_FILTERS)[number];
+
+export const NETWORK_FILTER_LABELS: Record<NetworkFilter, string> = {
+  in: "In network",
+  close: "High outlier + socially close",
+};
+
+export class PeopleQueryError extends Error {}
+
+export const DEFAULT_PEOPLE_QUERY: PeopleQuery = {
+  q: "",
+  company: [],
+  conflicts: [],
+  stages: [],
+  spikes: [],
+  categories: [],
+  categoryMode: "any",
+  investors: [],
+  countries: [],
+  regions: [],
+  statuses: [],
+  lists: [],
+  network: [],
+  ranges: {},
+  scoring: null,
+  sort: "outlierScore",
+  desc: true,
+  cursor: null,
+  limit: DEFAULT_PAGE_SIZE,
+};
+
+// ---------------------------------------------------------------------------
+// URL encoding (shared by the route and its clients)
+// ---------------------------------------------------------------------------
+
+export function peopleQueryToParams(query: PeopleQuery): URLSearchParams {
+  const params = new URLSearchParams();
+  if (query.q) params.set("q", query.q);
+  for (const v of query.company) params.append("company", v);
+  for (const v of query.conflicts) params.append("conflict", v);
+  for (const v of query.stages) params.append("stage", v);
+  for (const v of query.spikes) params.append("spike", v);
+  for (const v of query.categories) params.append("category", v);
+  if (query.categoryMode !== "any") params.set("categoryMode", query.categoryMode);
+  for (const v of query.investors) params.append("investor", v);
+  for (const v of query.countries) params.append("country", v);
+  for (const v of query.regions) params.append("region", v);
+  for (const v of query.statuses) params.append("status", v);
+  for (const v of query.lists) params.append("list", v);
+  for (const v of query.network) params.append("network", v);
+  for (const [metric, range] of Object.entries(query.ranges)) {
+    if (range.min !== null) params.set(`${metric}Min`, String(range.min));
+    if (range.max !== null) params.set(`${metric}Max`, String(range.max));
+  }
+  if (query.scoring) params.set("scoring", encodeWeights(query.scoring));
+  params.set("sort", query.sort);
+  params.set("dir", query.desc ? "desc" : "asc");
+  if (query.cursor) params.set("cursor", query.cursor);
+  params.set("limit", String(query.limit));
+  return params;
+}
+
+function yesNo(params: URLSearchParams, name: string): string[] {
+  const values = params.getAll(name);
+  for (const v of values) {
+    if (v !== "yes" && v !== "no") throw new PeopleQueryError(`${name} must be "yes" or "no"`);
+  }
+  return values;
+}
+
+function conflictStatuses(params: URLSearchParams): string[] {
+  const values = params.getAll("conflict");
+  for (const v of values) {
+    if (!(CONFLICT_STATUSES as readonly string[]).includes(v)) throw new PeopleQueryError(`Unknown conflict status "${v}"`);
+  }
+  return values;
+}
+
+function categoryMode(params: URLSearchParams): CategoryMode {
+  const mode = params.get("categoryMode") ?? "any";
+  if (!(CATEGORY_MODES as readonly string[]).includes(mode)) throw new PeopleQueryError(`categoryMode must be "any" or "all"`);
+  return mode as CategoryMode;
+}
+
+function pipelineStatuses(params: URLSearchParams): string[] {
+  const values = params.getAll("status");
+  for (const v of values) {
+    if (v !== UNTRACKED && !(PIPELINE_STAGES as readonly string[]).includes(v)) throw new PeopleQueryError(`Unknown pipeline status "${v}"`);
+  }
+  return values;
+}
+
+function networkFilters(params: URLSearchParams): NetworkFilter[] {
+  const values = params.getAll("network");
+  for (const v of values) {
+    if (!(NETWORK_FILTERS as readonly string[]).includes(v)) throw new PeopleQueryError(`network must be "in" or "close"`);
+  }
+  return values as NetworkFilter[];
+}
+
+function numberParam(params: URLSearchParams, name: string): number | null {
+  const raw = params.get(name);
+  if (raw === null || raw === "") return null;
+  const value = Number(raw);
+  if (!Number.isFinite(value)) throw new PeopleQueryError(`${name} must be a number`);
+  return value;
+}
+
+function ranges(params: URLSearchParams): PeopleQuery["ranges"] {
+  const result: PeopleQuery["ranges"] = {};
+  for (const metric of PEOPLE_METRIC_KEYS) {
+    const min = numberParam(params, `${metric}Min`);
+    const max = numberParam(params, `${metric}Max`);
+    if (min !== null || max !== null) result[metric] = { min, max };
+  }
+  return result;
+}
+
+function scoring(params: URLSearchParams): ScoringWeights | null {
+  const raw = params.get("scoring");
+  if (!raw) return null;
+  try {
+    return decodeWeights(raw);
+  } catch (err) {
+    if (err instanceof ScoringError) throw new PeopleQueryError(err.message);
+    throw err;
+  }
+}
+
+export function parsePeopleQuery(params: URLSearchParams): PeopleQuery {
+  const sort = params.get("sort") ?? DEFAULT_PEOPLE_QUERY.sort;
+  const sortKeys: readonly string[] = [...PEOPLE_SORT_KEYS, ...PEOPLE_METRIC_KEYS, "relevance", "custom"];
+  if (!sortKeys.includes(sort)) {
+    throw new PeopleQueryError(`Unknown sort key "${sort}"`);
+  }
+  const weights = scoring(params);
+  if (sort === "custom" && !weights) throw new PeopleQueryError(`Sorting by "custom" needs scoring weights`);
+  const dir = params.get("dir") ?? "desc";
+  if (dir !== "asc" && dir !== "desc") throw new PeopleQueryError(`dir must be "asc" or "desc"`);
+  const limitRaw = params.get("limit");
+  const limit = limitRaw === null ? DEFAULT_PAGE_SIZE : Number(limitRaw);
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+    throw new PeopleQueryError(`limit must be an integer between 1 and ${MAX_PAGE_SIZE}`);
+  }
+  return {
+    q: params.get("q")?.trim() ?? "",
+    company: yesNo(params, "company"),
+    conflicts: conflictStatuses(params),
+    stages: params.getAll("stage"),
+    spikes: params.getAll("spike"),
+    categories: params.getAll("category"),
+    categoryMode: categoryMode(params),
+    investors: params.getAll("investor"),
+    countries: params.getAll("country"),
+    regions: params.getAll("region"),
+    statuses: pipelineStatuses(params),
+    lists: params.getAll("list"),
+    network: networkFilters(params),
+    ranges: ranges(params),
+    scoring: weights,
+    sort: sort as PeopleSortKey,
+    desc: dir === "desc",
+    cursor: params.get("cursor"),
+    limit,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Filtering, sorting and keyset pagination (server side)
+// ---------------------------------------------------------------------------
+
+/** Facets whose value counts come back with every page. A facet's counts ignore its own filter. */
+export const PEOPLE_FACETS = {
+  country: (p: Person) => {
+    const countries = resolveCountries(p.country);
+    return countries.length > 0 ? countries.map((c) => c.code) : [UNKNOWN_COUNTRY];
+  },
+  region: (p: Person) => {
+    const countries = resolveCountries(p.country);
+    return countries.length > 0 ? [...new Set(countries.map((c) => c.subregion))] : [UNKNOWN_COUNTRY];
+  },
+  category: personCategories,
+} satisfies Record<string, (p: Person) => string[]>;
+
+export type PeopleFacet = keyof typeof PEOPLE_FACETS;
+export type FacetCounts = Record<PeopleFacet, Record<string, number>>;
+
+interface Predicate {
+  facet?: PeopleFacet;
+  /** Set on range filters, so the metric's histogram can leave them out */
+  metric?: PeopleMetric;
+  test: (p: Person) => boolean;
+}
+
+function anyOf(facet: PeopleFacet, selected: string[]): Predicate {
+  const values = new Set(selected);
+  return { facet, test: (p) => PEOPLE_FACETS[facet](p).some((v) => values.has(v)) };
+}
+
+/** Server-side state a query runs against besides the people themselves. */
+export interface PeopleContext {
+  index: SearchIndex;
+  pipeline: Pipeline;
+  watchlists: Watchlist[];
+  /** Twitter recommendations keyed by normalized handle */
+  network: Map<string, Recommendation>;
+}
+
+function predicates(query: PeopleQuery, { pipeline, watchlists, network }: Omit<PeopleContext, "index">): Predicate[] {
+  const preds: Predicate[] = [];
+  if (query.company.length === 1) {
+    const want = query.company[0] === "yes";
+    preds.push({ test: (p) => !!p.company === want });
+  }
+  if (query.conflicts.length > 0) {
+    const statuses = new Set(query.conflicts);
+    preds.push({ test: (p) => statuses.has(evaluateConflicts(p.investors).status) });
+  }
+  if (query.stages.length > 0) {
+    const stages = new Set(query.stages);
+    preds.push({ test: (p) => stages.has(parseStage(p.fundingSeries)?.stage ?? "") });
+  }
+  if (query.spikes.length > 0) {
+    preds.push({
+      test: (p) => {
+        const { tags } = parseSpikeTags(p.achievements || "");
+        return query.spikes.every((f) => tags.includes(f));
+      },
+    });
+  }
+  if (query.categories.length > 0) {
+    if (query.categoryMode === "any") preds.push(anyOf("category", query.categories));
+    // Left untagged so category counts narrow too: each shows what adding it would leave
+    else preds.push({ test: (p) => query.categories.every((c) => personCategories(p).includes(c)) });
+  }
+  if (query.investors.length > 0) {
+    const slugs = new Set(query.investors);
+    preds.push({ test: (p) => parseInvestors(p.investors).some((i) => slugs.has(i.slug)) });
+  }
+  if (query.countries.length > 0) preds.push(anyOf("country", query.countries));
+  if (query.regions.length > 0) preds.push(anyOf("region", query.regions));
+  if (query.statuses.length > 0) {
+    const statuses = new Set(query.statuses);
+    preds.push({ test: (p) => statuses.has(pipelineStatus(pipeline, personKey(p.id))) });
+  }
+  if (query.lists.length > 0) {
+    const keys = new Set<string>();
+    for (const id of query.lists) {
+      const list = watchlists.find((w) => w.id === id);
+      if (!list) throw new PeopleQueryError(`Unknown list "${id}"`);
+      for (const e of list.entries) keys.add(e.key);
+    }
+    preds.push({ test: (p) => keys.has(personKey(p.id)) });
+  }
+  if (query.network.length > 0) {
+    const anyRec = query.network.includes("in");
+    preds.push({
+      test: (p) => {
+        const rec = personRecommendation(p, network);
+        return !!rec && (anyRec || isHighAndClose(p.outlierScore, rec));
+      },
+    });
+  }
+  for (const [metric, range] of Object.entries(query.ranges) as [PeopleMetric, NumberRange][]) {
+    preds.push({
+      metric,
+      test: (p) => {
+        const value = PEOPLE_METRICS[metric](p);
+        return value !== null && (range.min === null || value >= range.min) && (range.max === null || value <= range.max);
+      },
+    });
+  }
+  return preds;
+}
+
+export function filterPeople(data: Person[], query: PeopleQuery, ctx: Omit<PeopleContext, "index">): Person[] {
+  const preds = predicates(query, ctx);
+  return data.filter((p) => preds.every((pred) => pred.test(p)));
+}
+
+/** Count facet values among people passing every filter except the facet's own. */
+function countFacets(data: Person[], preds: Predicate[]): FacetCounts {
+  const counts = {} as FacetCounts;
+  for (const facet of Object.keys(PEOPLE_FACETS) as PeopleFacet[]) {
+    const others = preds.filter((pred) => pred.facet !== facet);
+    const byValue: Record<string, number> = {};
+    for (const p of data) {
+      if (!others.every((pred) => pred.test(p))) continue;
+      for (const v of PEOPLE_FACETS[facet](p)) byValue[v] = (byValue[v] ?? 0) + 1;
+    }
+    counts[facet] = byValue;
+  }
+  return counts;
+}
+
+/** Bin each score among people passing every filter except the score's own range. */
+function countHistograms(data: Person[], preds: Predicate[]): Record<ScoreMetric, Histogram> {
+  const histograms = {} as Record<ScoreMetric, Histogram>;
+  for (const metric of SCORE_METRICS) {
+    const others = preds.filter((pred) => pred.metric !== metric);
+    const counts = new Array<number>(SCORE_BINS).fill(0);
+    for (const p of data) {
+      if (!others.every((pred) => pred.test(p))) continue;
+      const value = Math.min(100, Math.max(0, PEOPLE_METRICS[metric](p)));
+      counts[Math.min(SCORE_BINS - 1, Math.floor((value / 100) * SCORE_BINS))]++;
+    }
+    histograms[metric] = { min: 0, max: 100, counts };
+  }
+  return histograms;
+}
+
+type SortValue = string | number | null;
+type CursorKey = [value: SortValue, id: number];
+
+function compareKeys(a: CursorKey, b: CursorKey, desc: boolean): number {
+  const [av, bv] = [a[0], b[0]];
+  // Missing values go last in either direction
+  if (av === null || bv === null) return av === bv ? a[1] - b[1] : av === null ? 1 : -1;
+  let cmp =
+    typeof av === "number" && typeof bv === "number"
+      ? av - bv
+      : String(av).localeCompare(String(bv), undefined, { numeric: true });
+  if (desc) cmp = -cmp;
+  return cmp || a[1] - b[1];
+}
+
+function encodeCursor(key: CursorKey): string {
+  return Buffer.from(JSON.stringify(key)).toString("base64url");
+}
+
+function decodeCursor(cursor: string): CursorKey {
+  try {
+    const key = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (Array.isArray(key) && key.length === 2 && typeof key[1] === "number") return key as CursorKey;
+  } catch {
+    // fall through
+  }
+  throw new PeopleQueryError("Invalid cursor");
+}
+
+/**
+ * Filter and sort, ties broken by id. With a search query only people matching every term
+ * are kept; "relevance" sorts by their score.
+ */
+function rankPeople(data: Person[], query: PeopleQuery, ctx: PeopleContext) {
+  const scores = query.q ? ctx.index.search(query.q) : null;
+  const sort = query.sort;
+  const keyOf = (p: Person): CursorKey =>
+    sort === "relevance"
+      ? [scores?.get(p.id) ?? 0, p.id]
+      : sort === "custom" && query.scoring
+        ? [customScore(p, query.scoring), p.id]
+        : sort in PEOPLE_METRICS
+          ? [PEOPLE_METRICS[sort as PeopleMetric](p), p.id]
+          : sort === "fundingSeries"
+            ? [stageRank(p.fundingSeries), p.id]
+            : [p[sort as (typeof PEOPLE_SORT_KEYS)[number]] ?? "", p.id];
+  const preds = predicates(query, ctx);
+  if (scores) preds.push({ test: (p) => scores.has(p.id) });
+  const sorted = data
+    .filter((p) => preds.every((pred) => pred.test(p)))
+    .map((p) => ({ p, key: keyOf(p) }))
+    .sort((a, b) => compareKeys(a.key, b.key, query.desc));
+  return { sorted, preds };
+}
+
+/** Every person matching `query`, in its sort order; the cursor and limit are ignored. */
+export function matchPeople(data: Person[], query: PeopleQuery, ctx: PeopleContext): Person[] {
+  return rankPeople(data, query, ctx).sorted.map((r) => r.p);
+}
+
+/** The page of matching people that starts after `query.cursor`. */
+export function queryPeople(data: Person[], query: PeopleQuery, ctx: PeopleContext): PeoplePage {
+  const { sorted, preds } = rankPeople(data, query, ctx);
+  let start = 0;
+  if (query.cursor) {
+    const after = decodeCursor(query.cursor);
+    start = sorted.findIndex((r) => compareKeys(r.key, after, query.desc) > 0);
+    if (start === -1) start = sorted.length;
+  }
+  const page = sorted.slice(start, start + query.limit);
+  const hasMore = start + query.limit < sorted.length;
+  return {
+    items: page.map((r) => r.p),
+    nextCursor: hasMore && page.length > 0 ? encodeCursor(page[page.length - 1].key) : null,
+    total: data.length,
+    matched: sorted.length,
+    facets: countFacets(data, preds),
+    histograms: countHistograms(data, preds),
+  };
+}
@@ -0,0 +1,108 @@
+import type { Person } from "@/lib/types";
+
+/** Indexed fields and how much a hit in each counts toward the rank. */
+export const SEARCH_FIELDS = {
+  name: 5,
+  twitter: 4,
+  company: 3,
+  currentActivity: 2,
+  achievements: 2,
+  investors: 1.5,
+  notes: 1,
+} as const satisfies Partial<Record<keyof Person, number>>;
+
+type SearchField = keyof typeof SEARCH_FIELDS;
+
+const STOPWORDS = new Set([
+  "a", "an", "and", "at", "by", "for", "from", "in", "is", "of", "on", "or", "the", "to", "who", "with",
+]);
+
+const WORD_RE = /[\p{L}\p{N}]+/gu;
+
+/** Lowercase and strip diacritics so "Łukasz" and "lukasz" meet. */
+export function normalizeWord(word: string): string {
+  return word.normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase();
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD_RE) ?? []).map(normalizeWord);
+}
+
+/** Tokens of a search box query: stopwords dropped, duplicates removed. */
+export function queryTerms(q: string): string[] {
+  return [...new Set(tokenize(q).filter((t) => !STOPWORDS.has(t)))];
+}
+
+/** Whether `word` is hit by a query term — exact for one-letter terms, prefix otherwise. */
+export function matchesTerm(word: string, term: string): boolean {
+  return term.length < 2 ? word === term : word.startsWith(term);
+}
+
+export interface SearchIndex {
+  /** Score every person matching all terms of `q`, or null when `q` has no searchable terms. */
+  search(q: string): Map<number, number> | null;
+}
+
+const PREFIX_PENALTY = 0.5;
+
+export function buildSearchIndex(people: Person[]): SearchIndex {
+  // term → person id → summed field weight of the fields containing the term
+  const postings = new Map<string, Map<number, number>>();
+  for (const p of people) {
+    for (const field of Object.keys(SEARCH_FIELDS) as SearchField[]) {
+      const weight = SEARCH_FIELDS[field];
+      for (const term of new Set(tokenize(p[field] || ""))) {
+        let byPerson = postings.get(term);
+        if (!byPerson) postings.set(term, (byPerson = new Map()));
+        byPerson.set(p.id, (byPerson.get(p.id) ?? 0) + weight);
+      }
+    }
+  }
+  const terms = [...postings.keys()].sort();
+
+  /** Index of the first term >= `prefix` in the sorted term list. */
+  const lowerBound = (prefix: string) => {
+    let lo = 0;
+    let hi = terms.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (terms[mid] < prefix) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+
+  const scoreTerm = (queryTerm: string): Map<number, number> => {
+    const scores = new Map<number, number>();
+    for (let i = lowerBound(queryTerm); i < terms.length && matchesTerm(terms[i], queryTerm); i++) {
+      const factor = terms[i] === queryTerm ? 1 : PREFIX_PENALTY;
+      for (const [id, weight] of postings.get(terms[i])!) {
+        scores.set(id, Math.max(scores.get(id) ?? 0, weight * factor));
+      }
+    }
+    return scores;
+  };
+
+  return {
+    search(q) {
+      const qTerms = queryTerms(q);
+      if (qTerms.length === 0) return null;
+      let result: Map<number, number> | null = null;
+      for (const term of qTerms) {
+        const scores = scoreTerm(term);
+        if (!result) {
+          result = scores;
+          continue;
+        }
+        const next = new Map<number, number>();
+        for (const [id, score] of scores) {
+          const prev = result.get(id);
+          if (prev !== undefined) next.set(id, prev + score);
+        }
+        result = next;
+        if (result.size === 0) break;
+      }
+      return result ?? new Map();
+    },
+  };
+}
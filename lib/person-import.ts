@@ -0,0 +1,364 @@
+/**
+ * Turn a scout's CSV or JSON batch into `Person` records: map columns to fields, normalize
+ * values, assign ids and detect people we already have. Shared by `npm run import-people`
+ * and the /import page (through `/api/people/import`).
+ */
+
+import type { Person } from "@/lib/types";
+import { PersonSchema, formatPath } from "@/lib/schemas";
+import { parseStage } from "@/lib/stages";
+import { nameKey, normalizeTwitter, twitterKey } from "@/lib/match-keys";
+
+// ---------------------------------------------------------------------------
+// Reading batches
+// ---------------------------------------------------------------------------
+
+export type BatchRow = Record<string, unknown>;
+
+export interface Batch {
+  /** Column names in file order */
+  columns: string[];
+  rows: BatchRow[];
+}
+
+export class ImportError extends Error {}
+
+/** RFC 4180 CSV: quoted fields, doubled quotes, newlines inside quotes. The first row is the header. */
+export function parseCsv(text: string): Batch {
+  const records: string[][] = [];
+  let record: string[] = [];
+  let field = "";
+  let quoted = false;
+  const src = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < src.length; i++) {
+    const ch = src[i];
+    if (quoted) {
+      if (ch === '"' && src[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      record.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && src[i + 1] === "\n") i++;
+      record.push(field);
+      records.push(record);
+      record = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (quoted) throw new ImportError("Unterminated quoted field");
+  if (field || record.length > 0) {
+    record.push(field);
+    records.push(record);
+  }
+
+  const nonEmpty = records.filter((r) => r.some((v) => v.trim()));
+  if (nonEmpty.length === 0) throw new ImportError("The file is empty");
+  const columns = nonEmpty[0].map((c) => c.trim());
+  const rows = nonEmpty.slice(1).map((r) => Object.fromEntries(columns.map((c, i) => [c, r[i] ?? ""])));
+  return { columns, rows };
+}
+
+/** A JSON array of objects; columns are the union of their keys. */
+export function parseJsonBatch(text: string): Batch {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (err) {
+    throw new ImportError(`Invalid JSON: ${(err as Error).message}`);
+  }
+  if (!Array.isArray(data) || data.some((r) => !r || typeof r !== "object" || Array.isArray(r))) {
+    throw new ImportError("Expected a JSON array of objects");
+  }
+  const columns = [...new Set(data.flatMap((r) => Object.keys(r)))];
+  return { columns, rows: data as BatchRow[] };
+}
+
+export function parseBatch(text: string, filename: string): Batch {
+  return /\.json$/i.test(filename) || /^\s*\[/.test(text) ? parseJsonBatch(text) : parseCsv(text);
+}
+
+// ---------------------------------------------------------------------------
+// Column mapping
+// ---------------------------------------------------------------------------
+
+/** Fields a batch may fill, in `people.json` key order. Ids are always assigned on import. */
+export const IMPORT_FIELDS = [
+  "name",
+  "twitter",
+  "country",
+  "outlierScore",
+  "startupLikelihood",
+  "combinedScore",
+  "categories",
+  "achievements",
+  "notes",
+  "currentActivity",
+  "fundingInfo",
+  "company",
+  "investors",
+  "fundingSeries",
+  "companyUrl",
+] as const satisfies readonly (keyof Person)[];
+
+export type ImportField = (typeof IMPORT_FIELDS)[number];
+
+/** Column → field; columns left out are ignored. */
+export type ColumnMapping = Record<string, ImportField>;
+
+// Header spellings scouts use, after `headerKey()`
+const FIELD_ALIASES: Record<ImportField, string[]> = {
+  name: ["name", "full name", "person"],
+  twitter: ["twitter", "x", "handle", "twitter handle", "x handle", "twitter url", "x url"],
+  country: ["country", "nationality", "location"],
+  outlierScore: ["outlier score", "outlier", "score"],
+  startupLikelihood: ["startup likelihood", "likelihood"],
+  combinedScore: ["combined score", "combined"],
+  categories: ["categories", "category", "domains", "domain", "tags"],
+  achievements: ["achievements", "spikes", "accomplishments"],
+  notes: ["notes", "note", "comments", "comment"],
+  currentActivity: ["current activity", "current", "activity", "doing now"],
+  fundingInfo: ["funding info", "funding"],
+  company: ["company", "startup"],
+  investors: ["investors", "backers"],
+  fundingSeries: ["funding series", "stage", "series", "funding stage"],
+  companyUrl: ["company url", "website", "url", "company website"],
+};
+
+/** "outlierScore", "Outlier_Score", "outlier-score" → "outlier score" */
+function headerKey(column: string): string {
+  return column
+    .replace(/([a-z])([A-Z])/g, "$1 $2")
+    .toLowerCase()
+    .replace(/[_\-.]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/** Best-effort mapping from header names; each field is used at most once. */
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const used = new Set<ImportField>();
+  for (const column of columns) {
+    const key = headerKey(column);
+    const field = IMPORT_FIELDS.find((f) => !used.has(f) && FIELD_ALIASES[f].includes(key));
+    if (field) {
+      mapping[column] = field;
+      used.add(field);
+    }
+  }
+  return mapping;
+}
+
+// ---------------------------------------------------------------------------
+// Normalizing values
+// ---------------------------------------------------------------------------
+
+function text(value: unknown): string {
+  if (value === null || value === undefined) return "";
+  return String(value).trim();
+}
+
+const NUMBER_FIELDS = new Set<ImportField>(["outlierScore", "startupLikelihood", "combinedScore"]);
+
+const EMPTY_PERSON: Omit<Person, "id"> = {
+  name: "",
+  twitter: "",
+  country: "",
+  outlierScore: 0,
+  startupLikelihood: 0,
+  combinedScore: 0,
+  categories: [],
+  achievements: "",
+  notes: "",
+  currentActivity: "",
+  fundingInfo: "",
+  company: "",
+  investors: "",
+  fundingSeries: "",
+  companyUrl: "",
+};
+
+interface RowResult {
+  person: Omit<Person, "id">;
+  /** Fields the row actually filled; only these count as changes to an existing person */
+  provided: ImportField[];
+  warnings: string[];
+  errors: string[];
+}
+
+function buildRow(row: BatchRow, mapping: ColumnMapping): RowResult {
+  const person: Omit<Person, "id"> = { ...EMPTY_PERSON, categories: [] };
+  const provided: ImportField[] = [];
+  const warnings: string[] = [];
+  const errors: string[] = [];
+
+  for (const [column, field] of Object.entries(mapping)) {
+    const value = row[column];
+    if (field === "categories") {
+      const list = Array.isArray(value) ? value.map(text) : text(value).split(/[,;|]/).map((c) => c.trim());
+      person.categories = list.filter(Boolean);
+      if (person.categories.length > 0) provided.push(field);
+      continue;
+    }
+    const raw = text(value);
+    if (!raw) continue;
+    if (NUMBER_FIELDS.has(field)) {
+      const n = Number(raw);
+      if (!Number.isFinite(n)) {
+        errors.push(`${column}: "${raw}" is not a number`);
+        continue;
+      }
+      person[field as "outlierScore"] = n;
+    } else if (field === "twitter") {
+      const handle = normalizeTwitter(raw);
+      if (handle === null) {
+        warnings.push(`${column}: "${raw}" is not a Twitter handle; left empty`);
+        continue;
+      }
+      person.twitter = handle;
+    } else if (field === "companyUrl") {
+      person.companyUrl = /^https?:\/\//i.test(raw) ? raw : `https://${raw}`;
+    } else if (field === "fundingSeries") {
+      person.fundingSeries = parseStage(raw)?.stage ?? raw;
+    } else {
+      person[field as "name"] = raw;
+    }
+    provided.push(field);
+  }
+  return { person, provided, warnings, errors };
+}
+
+// ---------------------------------------------------------------------------
+// Planning and applying an import
+// ---------------------------------------------------------------------------
+
+export interface FieldChange {
+  field: ImportField;
+  from: Person[ImportField];
+  to: Person[ImportField];
+}
+
+export interface ImportedRow {
+  /** 1-based data row in the file (the CSV header is row 0) */
+  row: number;
+  person: Person;
+  warnings: string[];
+}
+
+export interface ImportDuplicate extends ImportedRow {
+  existing: Person;
+  /** A shared Twitter handle is certain; a shared name alone is only likely */
+  match: "twitter" | "name";
+  changes: FieldChange[];
+}
+
+export interface ImportRejection {
+  row: number;
+  messages: string[];
+}
+
+export interface ImportPlan {
+  added: ImportedRow[];
+  duplicates: ImportDuplicate[];
+  rejected: ImportRejection[];
+}
+
+function sameValue(field: ImportField, a: unknown, b: unknown): boolean {
+  if (field === "twitter") return twitterKey(String(a)) === twitterKey(String(b));
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Work out what importing `rows` would do to `existing`, without changing anything. New people are
+ * numbered after both `existing` and `takenIds`, ids that must not be handed out again.
+ */
+export function planImport(rows: BatchRow[], mapping: ColumnMapping, existing: Person[], takenIds: number[]): ImportPlan {
+  if (!Object.values(mapping).includes("name")) throw new ImportError("Map a column to name");
+
+  const byTwitter = new Map<string, Person>();
+  const byName = new Map<string, Person>();
+  for (const p of existing) {
+    if (p.twitter) byTwitter.set(twitterKey(p.twitter), p);
+    if (!byName.has(nameKey(p.name))) byName.set(nameKey(p.name), p);
+  }
+  // Rows already taken in this batch, so a scout's repeated row isn't imported twice
+  const batchTwitter = new Map<string, number>();
+  const batchName = new Map<string, { row: number; twitter: string }>();
+
+  let nextId = takenIds.reduce((max, id) => Math.max(max, id), existing.reduce((max, p) => Math.max(max, p.id), 0)) + 1;
+  const plan: ImportPlan = { added: [], duplicates: [], rejected: [] };
+
+  rows.forEach((raw, i) => {
+    const row = i + 1;
+    const { person: fields, provided, warnings, errors } = buildRow(raw, mapping);
+    const parsed = PersonSchema.safeParse({ id: 0, ...fields });
+    if (errors.length > 0 || !parsed.success) {
+      const messages = [...errors, ...(parsed.success ? [] : parsed.error.issues.map((e) => `${formatPath(e.path)}: ${e.message}`))];
+      plan.rejected.push({ row, messages });
+      return;
+    }
+
+    const tKey = fields.twitter ? twitterKey(fields.twitter) : "";
+    const nKey = nameKey(fields.name);
+    // A different handle under the same name is a namesake, not a duplicate
+    const batchNameHit = batchName.get(nKey);
+    const earlier = (tKey && batchTwitter.get(tKey)) || (batchNameHit && (!tKey || !batchNameHit.twitter) ? batchNameHit.row : undefined);
+    if (earlier) {
+      plan.rejected.push({ row, messages: [`Same person as row ${earlier}`] });
+      return;
+    }
+
+    const byNameHit = byName.get(nKey);
+    const existingMatch = (tKey && byTwitter.get(tKey)) || (byNameHit && (!tKey || !byNameHit.twitter) ? byNameHit : undefined);
+    if (existingMatch) {
+      const changes: FieldChange[] = provided
+        .filter((f) => !sameValue(f, fields[f], existingMatch[f]))
+        .map((f) => ({ field: f, from: existingMatch[f], to: fields[f] }));
+      plan.duplicates.push({
+        row,
+        person: { id: existingMatch.id, ...fields },
+        warnings,
+        existing: existingMatch,
+        match: tKey && byTwitter.get(tKey) ? "twitter" : "name",
+        changes,
+      });
+    } else {
+      plan.added.push({ row, person: { id: nextId++, ...fields }, warnings });
+    }
+    if (tKey) batchTwitter.set(tKey, row);
+    if (!batchName.has(nKey)) batchName.set(nKey, { row, twitter: tKey });
+  });
+  return plan;
+}
+
+/** The dataset after the import. Duplicates only change existing people when `updateDuplicates` is set. */
+export function applyImport(existing: Person[], plan: ImportPlan, updateDuplicates: boolean): Person[] {
+  const updates = new Map<number, FieldChange[]>();
+  if (updateDuplicates) {
+    for (const d of plan.duplicates) if (d.changes.length > 0) updates.set(d.existing.id, d.changes);
+  }
+  const merged = existing.map((p) => {
+    const changes = updates.get(p.id);
+    if (!changes) return p;
+    const next = { ...p };
+    for (const c of changes) (next as Record<ImportField, unknown>)[c.field] = c.to;
+    return next;
+  });
+  return [...merged, ...plan.added.map((a) => a.person)];
+}
+
+/** `people.json` layout: two-space indent, no trailing newline. */
+export function serializePeople(people: unknown[]): string {
+  return JSON.stringify(people, null, 2);
+}
@@ -0,0 +1,42 @@
+import { checkPipeline, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import type { Pipeline, PipelineRecord, PipelineStage } from "@/lib/pipeline";
+
+// Sorted by key so diffs stay small
+const store = jsonStore<Pipeline>(DATA_FILES.pipeline, checkPipeline, (pipeline) => {
+  const records = Object.values(pipeline).sort((a, b) => a.key.localeCompare(b.key, undefined, { numeric: true }));
+  return JSON.stringify(records, null, 2) + "\n";
+});
+
+/** Every pipeline record by key. Server only; clients go through `/api/pipeline`. */
+export function getPipeline(): Pipeline {
+  return store.get();
+}
+
+/** Set the stage and owner for `key`, creating the record on first use, or drop it when `update` is null. */
+export function savePipelineRecord(key: string, update: { stage: PipelineStage; owner: string } | null): Promise<PipelineRecord | null> {
+  return store.update((pipeline) => {
+    const next = { ...pipeline };
+    let record: PipelineRecord | null = null;
+    if (update) {
+      const now = new Date().toISOString();
+      record = { key, ...update, createdAt: pipeline[key]?.createdAt ?? now, updatedAt: now };
+      next[key] = record;
+    } else {
+      delete next[key];
+    }
+    return { next, result: record };
+  });
+}
+
+/** For merged people: `from`'s record moves to `to` unless `to` already has one, and is dropped either way. */
+export function movePipelineRecord(from: string, to: string): Promise<void> {
+  return store.update((pipeline) => {
+    const record = pipeline[from];
+    if (!record) return { result: undefined };
+    const next = { ...pipeline };
+    delete next[from];
+    if (!next[to]) next[to] = { ...record, key: to };
+    return { next, result: undefined };
+  });
+}
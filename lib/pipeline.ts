@@ -0,0 +1,42 @@
+/** Sourcing pipeline: what we have done about a person from the people pool or a network recommendation. */
+
+export const PIPELINE_STAGES = ["New", "Researching", "Reached out", "Meeting", "Passed", "Invested"] as const;
+export type PipelineStage = (typeof PIPELINE_STAGES)[number];
+
+/** Filter value for people with no pipeline record */
+export const UNTRACKED = "untracked";
+
+export const PIPELINE_STAGE_COLORS: Record<PipelineStage, string> = {
+  "New": "bg-gray-100 text-gray-700",
+  "Researching": "bg-sky-100 text-sky-800",
+  "Reached out": "bg-amber-100 text-amber-800",
+  "Meeting": "bg-violet-100 text-violet-800",
+  "Passed": "bg-red-50 text-red-700",
+  "Invested": "bg-emerald-100 text-emerald-800",
+};
+
+export interface PipelineRecord {
+  /** `personKey()` or `recommendationKey()` from `lib/subjects` */
+  key: string;
+  stage: PipelineStage;
+  /** Who on the team is driving it */
+  owner: string;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Records by key */
+export type Pipeline = Record<string, PipelineRecord>;
+
+/** The record's stage, or `UNTRACKED`; for matching against a status filter. */
+export function pipelineStatus(pipeline: Pipeline, key: string): PipelineStage | typeof UNTRACKED {
+  return pipeline[key]?.stage ?? UNTRACKED;
+}
+
+/** Owners seen so far, most frequent first, for suggestions. */
+export function pipelineOwners(pipeline: Pipeline): string[] {
+  const counts = new Map<string, number>();
+  for (const r of Object.values(pipeline)) if (r.owner) counts.set(r.owner, (counts.get(r.owner) ?? 0) + 1);
+  return [...counts].sort((a, b) => b[1] - a[1]).map(([owner]) => owner);
+}
@@ -0,0 +1,118 @@
+/**
+ * The "Venn-diagram overlap" finder: how often each pair of traits (categories and spike tags)
+ * occurs together across the pool, and who holds the rarest pairs.
+ */
+
+import type { Person } from "@/lib/types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import { categoryLabel, personCategories } from "@/lib/categories";
+
+export type TraitKind = "spike" | "category";
+
+export interface Trait {
+  /** "spike:Technical Builder", "category:chess" */
+  key: string;
+  kind: TraitKind;
+  /** The spike tag or category key the trait stands for */
+  value: string;
+  label: string;
+  /** People with the trait */
+  count: number;
+}
+
+export interface CooccurrenceMatrix {
+  /** People counted */
+  total: number;
+  /** Most common first */
+  traits: Trait[];
+  /** People with both traits, keyed by `pairKey()`; pairs nobody holds are left out */
+  pairs: Record<string, number>;
+}
+
+export interface RareCombo {
+  person: Person;
+  /** The person's least common pair of trait keys */
+  pair: [string, string];
+  /** People holding that pair, the person included */
+  shared: number;
+  /** How many would hold it if the two traits were independent */
+  expected: number;
+  /** -log2 of the pair's share of the pool: 10 bits is about 1 in 1,000 */
+  bits: number;
+}
+
+export const traitKey = (kind: TraitKind, value: string) => `${kind}:${value}`;
+
+export function parseTraitKey(key: string): { kind: TraitKind; value: string } {
+  const at = key.indexOf(":");
+  return { kind: key.slice(0, at) as TraitKind, value: key.slice(at + 1) };
+}
+
+export function traitLabel(key: string): string {
+  const { kind, value } = parseTraitKey(key);
+  return kind === "spike" ? value : categoryLabel(value);
+}
+
+/** Order-independent key for two traits. */
+export const pairKey = (a: string, b: string) => (a < b ? `${a}|${b}` : `${b}|${a}`);
+
+export function personTraits(p: Person): string[] {
+  const spikes = [...new Set(parseSpikeTags(p.achievements || "").tags)].map((t) => traitKey("spike", t));
+  return [...spikes, ...personCategories(p).map((c) => traitKey("category", c))];
+}
+
+function pairsOf(traits: string[]): [string, string][] {
+  return traits.flatMap((a, i) => traits.slice(i + 1).map((b): [string, string] => [a, b]));
+}
+
+export function cooccurrence(people: Person[]): CooccurrenceMatrix {
+  const counts = new Map<string, number>();
+  const pairs: Record<string, number> = {};
+  for (const p of people) {
+    const traits = personTraits(p);
+    for (const t of traits) counts.set(t, (counts.get(t) ?? 0) + 1);
+    for (const [a, b] of pairsOf(traits)) pairs[pairKey(a, b)] = (pairs[pairKey(a, b)] ?? 0) + 1;
+  }
+  const traits = [...counts].map(([key, count]) => ({ key, ...parseTraitKey(key), label: traitLabel(key), count }));
+  traits.sort((a, b) => b.count - a.count || a.label.localeCompare(b.label));
+  return { total: people.length, traits, pairs };
+}
+
+const rarestFirst = (a: RareCombo, b: RareCombo) => b.bits - a.bits || b.expected - a.expected;
+
+/**
+ * People ranked by how rare their least common trait pair is, rarest first. Among equally rare pairs,
+ * the one chance predicts most often ranks first: two common traits that almost never meet beat a
+ * pair that is rare only because one trait is. People with fewer than two traits are left out.
+ */
+export function rankRareCombos(people: Person[], matrix: CooccurrenceMatrix, limit: number): RareCombo[] {
+  const count = new Map(matrix.traits.map((t) => [t.key, t.count]));
+  const combos: RareCombo[] = [];
+  for (const person of people) {
+    const pairs = pairsOf(personTraits(person));
+    if (pairs.length === 0) continue;
+    const candidates = pairs.map((pair): RareCombo => {
+      const shared = matrix.pairs[pairKey(...pair)] ?? 0;
+      const expected = ((count.get(pair[0]) ?? 0) * (count.get(pair[1]) ?? 0)) / matrix.total;
+      return { person, pair, shared, expected, bits: Math.log2(matrix.total / shared) };
+    });
+    combos.push(candidates.sort(rarestFirst)[0]);
+  }
+  combos.sort((a, b) => rarestFirst(a, b) || b.person.outlierScore - a.person.outlierScore || a.person.id - b.person.id);
+  return combos.slice(0, limit);
+}
+
+/** `/api/people` parameters for everyone holding all of `traits`. */
+export function traitQuery(traits: string[]): URLSearchParams {
+  const params = new URLSearchParams();
+  let categories = 0;
+  for (const key of traits) {
+    const { kind, value } = parseTraitKey(key);
+    params.append(kind, value);
+    if (kind === "category") categories++;
+  }
+  if (categories > 1) params.set("categoryMode", "all");
+  params.set("sort", "outlierScore");
+  params.set("dir", "desc");
+  return params;
+}
@@ -0,0 +1,181 @@
+/** Runtime schemas for the JSON datasets in `data/`, kept in step with the interfaces they check. */
+
+import { z } from "zod";
+import type { Person, NetworkCompany } from "@/lib/types";
+import type { GraphNode, Recommendation, GraphData } from "@/lib/graph-types";
+import { PIPELINE_STAGES, type PipelineRecord } from "@/lib/pipeline";
+import { SUBJECT_KEY_MESSAGE, SUBJECT_KEY_RE } from "@/lib/subjects";
+import type { Comment, SubjectNote } from "@/lib/notes";
+import type { Watchlist } from "@/lib/watchlists";
+import { VIEW_TABS, type SavedView } from "@/lib/views";
+import type { ScoringProfile } from "@/lib/scoring";
+import type { DismissedPair, MergeRecord } from "@/lib/duplicates";
+
+export function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === "http:" || url.protocol === "https:";
+  } catch {
+    return false;
+  }
+}
+
+const httpUrl = z.string().refine(isHttpUrl, "Invalid URL");
+/** Optional text fields are empty strings in the data, never null */
+const optionalUrl = z.union([z.literal(""), httpUrl]);
+const score = z.number().min(0).max(100);
+
+export const PersonSchema: z.ZodType<Person> = z.object({
+  id: z.number().int(),
+  name: z.string().min(1),
+  twitter: z.string(),
+  country: z.string(),
+  outlierScore: score,
+  startupLikelihood: score,
+  combinedScore: score,
+  categories: z.array(z.string()),
+  achievements: z.string(),
+  notes: z.string(),
+  currentActivity: z.string(),
+  fundingInfo: z.string(),
+  company: z.string(),
+  companyUrl: optionalUrl,
+  investors: z.string(),
+  fundingSeries: z.string(),
+});
+
+export const NetworkCompanySchema: z.ZodType<NetworkCompany> = z.object({
+  name: z.string().min(1),
+  description: z.string(),
+  stage: z.string(),
+  investors: z.string(),
+  website: optionalUrl.optional(),
+});
+
+const count = z.number().int().min(0);
+
+export const GraphNodeSchema: z.ZodType<GraphNode> = z.object({
+  id: z.string().min(1),
+  name: z.string(),
+  type: z.enum(["center", "hub", "recommendation"]),
+  followers_count: count,
+  hub_count: count,
+  description: z.string().optional(),
+});
+
+export const GraphEdgeSchema = z.object({
+  source: z.string().min(1),
+  target: z.string().min(1),
+  type: z.enum(["ethan_follows", "hub_follows"]),
+});
+
+export const RecommendationSchema: z.ZodType<Recommendation> = z.object({
+  id: z.string().min(1),
+  username: z.string().min(1),
+  name: z.string(),
+  description: z.string(),
+  followers_count: count,
+  following_count: count,
+  hub_count: count,
+  hub_pct: z.number().min(0).max(100),
+  followed_by: z.array(z.string()),
+});
+
+export const GraphStatsSchema: z.ZodType<GraphData["stats"]> = z.object({
+  ethan_following: count,
+  hubs_fetched: count,
+  total_edges: count,
+  total_recommendations: count,
+  min_hub_threshold: count,
+});
+
+const subjectKey = z.string().regex(SUBJECT_KEY_RE, SUBJECT_KEY_MESSAGE);
+
+export const PipelineRecordSchema: z.ZodType<PipelineRecord> = z.object({
+  key: subjectKey,
+  stage: z.enum(PIPELINE_STAGES),
+  owner: z.string(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const SubjectNoteSchema: z.ZodType<SubjectNote> = z.object({
+  key: subjectKey,
+  body: z.string().min(1),
+  author: z.string().min(1),
+  updatedAt: z.iso.datetime(),
+});
+
+export const CommentSchema: z.ZodType<Comment> = z.object({
+  id: z.string().min(1),
+  key: subjectKey,
+  parentId: z.string().nullable(),
+  author: z.string().min(1),
+  body: z.string().min(1),
+  mentions: z.array(z.string()),
+  createdAt: z.iso.datetime(),
+});
+
+export const WatchlistSchema: z.ZodType<Watchlist> = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, "Expected lowercase letters, digits and dashes"),
+  name: z.string().min(1),
+  description: z.string(),
+  createdBy: z.string(),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+  entries: z.array(
+    z.object({
+      key: subjectKey,
+      addedBy: z.string(),
+      addedAt: z.iso.datetime(),
+    })
+  ),
+});
+
+export const SavedViewSchema: z.ZodType<SavedView> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  tab: z.enum(VIEW_TABS),
+  query: z.string(),
+  createdBy: z.string(),
+  createdAt: z.iso.datetime(),
+});
+
+const bonuses = z.record(z.string(), z.number());
+
+export const ScoringProfileSchema: z.ZodType<ScoringProfile> = z.object({
+  id: z.string().min(1),
+  name: z.string().min(1),
+  owner: z.string(),
+  weights: z.object({
+    outlierScore: z.number().min(0),
+    startupLikelihood: z.number().min(0),
+    spikes: bonuses,
+    categories: bonuses,
+    stages: bonuses,
+    countries: bonuses,
+  }),
+  createdAt: z.iso.datetime(),
+  updatedAt: z.iso.datetime(),
+});
+
+export const MergeRecordSchema: z.ZodType<MergeRecord> = z.object({
+  keptId: z.number().int(),
+  mergedId: z.number().int(),
+  merged: PersonSchema,
+  // Keyed by import field; not checked against the list here, which would import `lib/person-import` in a cycle
+  picks: z.record(z.string(), z.union([z.number().int(), z.literal("both")])),
+  mergedBy: z.string(),
+  mergedAt: z.iso.datetime(),
+});
+
+export const DismissedPairSchema: z.ZodType<DismissedPair> = z.object({
+  ids: z.tuple([z.number().int(), z.number().int()]),
+  dismissedBy: z.string(),
+  dismissedAt: z.iso.datetime(),
+});
+
+/** "[12].companyUrl", "nodes[3].type" */
+export function formatPath(path: readonly PropertyKey[]): string {
+  return path.map((p) => (typeof p === "number" ? `[${p}]` : `.${String(p)}`)).join("").replace(/^\./, "");
+}
@@ -0,0 +1,32 @@
+import { randomUUID } from "node:crypto";
+import { checkScoringProfiles, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import { ScoringError, type ScoringProfile, type ScoringWeights } from "@/lib/scoring";
+
+const store = jsonStore<ScoringProfile[]>(DATA_FILES.scoring, checkScoringProfiles, (profiles) => JSON.stringify(profiles, null, 2) + "\n");
+
+const ownedBy = (profiles: ScoringProfile[], owner: string) => profiles.filter((s) => s.owner.toLowerCase() === owner.toLowerCase());
+
+/** One teammate's scoring profiles, in the order they were saved. Server only; clients go through `/api/scoring`. */
+export function getScoringProfiles(owner: string): ScoringProfile[] {
+  return ownedBy(store.get(), owner);
+}
+
+/** Save weights under a name; the owner's profile with that name is overwritten. */
+export function saveScoringProfile(name: string, owner: string, weights: ScoringWeights): Promise<ScoringProfile> {
+  return store.update((profiles) => {
+    const existing = ownedBy(profiles, owner).find((s) => s.name.toLowerCase() === name.toLowerCase());
+    const now = new Date().toISOString();
+    const profile: ScoringProfile = existing
+      ? { ...existing, weights, updatedAt: now }
+      : { id: randomUUID(), name, owner, weights, createdAt: now, updatedAt: now };
+    return { next: existing ? profiles.map((s) => (s.id === profile.id ? profile : s)) : [...profiles, profile], result: profile };
+  });
+}
+
+export function deleteScoringProfile(id: string): Promise<void> {
+  return store.update((profiles) => {
+    if (!profiles.some((s) => s.id === id)) throw new ScoringError(`No scoring profile "${id}"`);
+    return { next: profiles.filter((s) => s.id !== id), result: undefined };
+  });
+}
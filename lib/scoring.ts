@@ -0,0 +1,110 @@
+/**
+ * Custom scores a partner tunes in the scoring panel, as an alternative to the precomputed
+ * `combinedScore`. Some partners want raw talent and others want founder-readiness.
+ */
+
+import type { Person } from "@/lib/types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import { parseStage } from "@/lib/stages";
+import { resolveCountries } from "@/lib/countries";
+import { personCategories } from "@/lib/categories";
+
+export interface ScoringWeights {
+  /** How much each 0–100 score counts; the base of the custom score is their weighted average */
+  outlierScore: number;
+  startupLikelihood: number;
+  /** Points added for a spike tag, keyed by tag */
+  spikes: Record<string, number>;
+  /** Points added for a category, keyed by `categoryKey()` */
+  categories: Record<string, number>;
+  /** Points added for a parsed funding stage, keyed by `STAGES` entry */
+  stages: Record<string, number>;
+  /** Points added for a country, keyed by ISO code */
+  countries: Record<string, number>;
+}
+
+export const BONUS_KINDS = ["spikes", "categories", "stages", "countries"] as const;
+export type BonusKind = (typeof BONUS_KINDS)[number];
+
+export const DEFAULT_WEIGHTS: ScoringWeights = {
+  outlierScore: 1,
+  startupLikelihood: 1,
+  spikes: {},
+  categories: {},
+  stages: {},
+  countries: {},
+};
+
+export interface ScoringProfile {
+  id: string;
+  name: string;
+  /** The teammate who saved it; profiles are listed per teammate */
+  owner: string;
+  weights: ScoringWeights;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+}
+
+export class ScoringError extends Error {}
+
+/** The values of `person` each bonus kind is keyed by. */
+function bonusKeys(p: Person): Record<BonusKind, string[]> {
+  const stage = parseStage(p.fundingSeries)?.stage;
+  return {
+    spikes: parseSpikeTags(p.achievements).tags,
+    categories: personCategories(p),
+    stages: stage ? [stage] : [],
+    countries: resolveCountries(p.country).map((c) => c.code),
+  };
+}
+
+/** Weighted average of the two scores plus every matching bonus, to one decimal. */
+export function customScore(p: Person, weights: ScoringWeights): number {
+  const total = weights.outlierScore + weights.startupLikelihood;
+  let score = total > 0 ? (weights.outlierScore * p.outlierScore + weights.startupLikelihood * p.startupLikelihood) / total : 0;
+  const keys = bonusKeys(p);
+  for (const kind of BONUS_KINDS) {
+    for (const key of new Set(keys[kind])) score += weights[kind][key] ?? 0;
+  }
+  return Math.round(score * 10) / 10;
+}
+
+const BONUS_PREFIX: Record<BonusKind, string> = { spikes: "spike", categories: "category", stages: "stage", countries: "country" };
+
+/** Compact URL form: "outlier:1,startup:0.5,spike.Competition%20Winner:10,country.NO:5". Zero bonuses are dropped. */
+export function encodeWeights(weights: ScoringWeights): string {
+  const parts = [`outlier:${weights.outlierScore}`, `startup:${weights.startupLikelihood}`];
+  for (const kind of BONUS_KINDS) {
+    for (const [key, points] of Object.entries(weights[kind])) {
+      if (points !== 0) parts.push(`${BONUS_PREFIX[kind]}.${encodeURIComponent(key)}:${points}`);
+    }
+  }
+  return parts.join(",");
+}
+
+export function decodeWeights(encoded: string): ScoringWeights {
+  const weights: ScoringWeights = { ...DEFAULT_WEIGHTS, spikes: {}, categories: {}, stages: {}, countries: {} };
+  for (const part of encoded.split(",").filter(Boolean)) {
+    const at = part.lastIndexOf(":");
+    const name = part.slice(0, at);
+    const value = Number(part.slice(at + 1));
+    if (at === -1 || !Number.isFinite(value)) throw new ScoringError(`Bad scoring weight "${part}"`);
+    if (name === "outlier" || name === "startup") {
+      if (value < 0) throw new ScoringError(`The ${name} weight can't be negative`);
+      weights[name === "outlier" ? "outlierScore" : "startupLikelihood"] = value;
+      continue;
+    }
+    const dot = name.indexOf(".");
+    const kind = BONUS_KINDS.find((k) => BONUS_PREFIX[k] === name.slice(0, dot));
+    if (dot === -1 || !kind) throw new ScoringError(`Unknown scoring weight "${name}"`);
+    let key: string;
+    try {
+      key = decodeURIComponent(name.slice(dot + 1));
+    } catch {
+      throw new ScoringError(`Bad scoring weight "${part}"`);
+    }
+    weights[kind][key] = value;
+  }
+  return weights;
+}
@@ -0,0 +1,77 @@
+/** "People like this one" for the profile page, from traits the dataset records explicitly. */
+
+import type { Person } from "@/lib/types";
+import { parseSpikeTags } from "@/lib/spike-tags";
+import { parseInvestors } from "@/lib/investors";
+import { countryByCode, resolveCountries } from "@/lib/countries";
+import { parseStage } from "@/lib/stages";
+
+export interface SimilarPerson {
+  person: Person;
+  score: number;
+  /** What they share, most telling first, e.g. "Competition Winner", "Backed by Sequoia" */
+  reasons: string[];
+}
+
+interface Traits {
+  tags: Set<string>;
+  categories: Set<string>;
+  investors: Map<string, string>;
+  countries: Set<string>;
+  stage: string | null;
+}
+
+function traitsOf(p: Person): Traits {
+  return {
+    tags: new Set(parseSpikeTags(p.achievements || "").tags),
+    categories: new Set(p.categories),
+    investors: new Map(parseInvestors(p.investors).map((i) => [i.slug, i.name])),
+    countries: new Set(resolveCountries(p.country).map((c) => c.code)),
+    stage: parseStage(p.fundingSeries)?.stage ?? null,
+  };
+}
+
+// A shared investor or spike says more than sharing a country or stage
+const WEIGHTS = { tag: 3, category: 2, investor: 2, country: 1, stage: 1 };
+const MIN_SCORE = 4;
+
+/** The people sharing the most with `person`, ties broken by outlier score. */
+export function similarPeople(person: Person, people: Person[], limit = 8): SimilarPerson[] {
+  const mine = traitsOf(person);
+  const results: SimilarPerson[] = [];
+  for (const other of people) {
+    if (other.id === person.id) continue;
+    const theirs = traitsOf(other);
+    const reasons: string[] = [];
+    let score = 0;
+    for (const [slug, name] of mine.investors) {
+      if (theirs.investors.has(slug)) {
+        score += WEIGHTS.investor;
+        reasons.push(`Backed by ${name}`);
+      }
+    }
+    for (const tag of mine.tags) {
+      if (theirs.tags.has(tag)) {
+        score += WEIGHTS.tag;
+        reasons.push(tag);
+      }
+    }
+    for (const category of mine.categories) {
+      if (theirs.categories.has(category)) {
+        score += WEIGHTS.category;
+        reasons.push(category);
+      }
+    }
+    const country = [...mine.countries].find((c) => theirs.countries.has(c));
+    if (country) {
+      score += WEIGHTS.country;
+      reasons.push(countryByCode(country)?.name ?? country);
+    }
+    if (mine.stage && mine.stage === theirs.stage) {
+      score += WEIGHTS.stage;
+      reasons.push(mine.stage);
+    }
+    if (score >= MIN_SCORE) results.push({ person: other, score, reasons });
+  }
+  return results.sort((a, b) => b.score - a.score || b.person.outlierScore - a.person.outlierScore).slice(0, limit);
+}
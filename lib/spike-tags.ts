@@ -0,0 +1,21 @@
+export const SPIKE_TAGS: { key: string; char: string; color: string }[] = [
+  { key: "Academic Research", char: "A", color: "bg-blue-100 text-blue-700" },
+  { key: "Technical Builder", char: "T", color: "bg-emerald-100 text-emerald-700" },
+  { key: "Operator/Exec", char: "O", color: "bg-amber-100 text-amber-700" },
+  { key: "Creative/Media", char: "M", color: "bg-purple-100 text-purple-700" },
+  { key: "Competition Winner", char: "W", color: "bg-rose-100 text-rose-700" },
+];
+export const SPIKE_TAG_MAP = Object.fromEntries(SPIKE_TAGS.map((t) => [t.key, t]));
+
+/** Split leading "[Tag][Tag] text" achievements into spike tags and the remaining prose. */
+export function parseSpikeTags(text: string): { tags: string[]; rest: string } {
+  const tags: string[] = [];
+  let remaining = text;
+  const re = /^\s*\[([^\]]+)\]/;
+  let match;
+  while ((match = re.exec(remaining))) {
+    tags.push(match[1]);
+    remaining = remaining.slice(match[0].length);
+  }
+  return { tags, rest: remaining.trim() };
+}
@@ -0,0 +1,81 @@
+/** One funding-stage model for people (`fundingSeries`) and network companies (`stage`), which spell stages differently. */
+
+/** In true stage order; exits come after every private stage. */
+export const STAGES = [
+  "Bootstrapped",
+  "Pre-Seed",
+  "Seed",
+  "Series A",
+  "Series B",
+  "Series C",
+  "Series D+",
+  "Growth",
+  "IPO",
+  "Acquired",
+  "Defunct",
+] as const;
+export type Stage = (typeof STAGES)[number];
+
+export type StageStatus = "private" | "public" | "acquired" | "defunct";
+
+export interface StageInfo {
+  /** Where the company stands now; an exit outranks the last private round */
+  stage: Stage;
+  /** Last private stage when the text names one, e.g. "Series C" for "Series C (Acquired 2025)" */
+  round: Stage | null;
+  status: StageStatus;
+  exitYear: number | null;
+}
+
+export const STAGE_COLORS: Record<Stage, string> = {
+  "Bootstrapped": "bg-orange-100 text-orange-700",
+  "Pre-Seed": "bg-gray-100 text-gray-700",
+  "Seed": "bg-amber-100 text-amber-800",
+  "Series A": "bg-blue-100 text-blue-800",
+  "Series B": "bg-indigo-100 text-indigo-800",
+  "Series C": "bg-violet-100 text-violet-800",
+  "Series D+": "bg-purple-100 text-purple-800",
+  "Growth": "bg-fuchsia-100 text-fuchsia-800",
+  "IPO": "bg-emerald-100 text-emerald-800",
+  "Acquired": "bg-pink-100 text-pink-800",
+  "Defunct": "bg-stone-200 text-stone-600",
+};
+
+// First match wins, so the more specific spellings come first
+const ROUND_PATTERNS: [RegExp, Stage][] = [
+  [/\bpre-?seed\b/i, "Pre-Seed"],
+  [/\bseed\b/i, "Seed"],
+  [/\bseries a\b/i, "Series A"],
+  [/\bseries b\b/i, "Series B"],
+  [/\bseries c\b/i, "Series C"],
+  [/\bseries ([d-z]|d\+)/i, "Series D+"],
+  [/\bearly stage\b/i, "Seed"],
+  [/\bgrowth\b/i, "Growth"],
+  [/\b(bootstrapped|self-funded)\b/i, "Bootstrapped"],
+];
+
+const cache = new Map<string, StageInfo | null>();
+
+/** Null for empty text and for entries that aren't startups ("VC Firm", "Nonprofit", "Google Product"…). */
+export function parseStage(raw: string): StageInfo | null {
+  if (!raw) return null;
+  const hit = cache.get(raw);
+  if (hit !== undefined) return hit;
+
+  const round = ROUND_PATTERNS.find(([re]) => re.test(raw))?.[1] ?? null;
+  const year = /\b(19|20)\d{2}\b/.exec(raw);
+  let info: StageInfo | null = null;
+  if (/\bacquired\b/i.test(raw)) info = { stage: "Acquired", round, status: "acquired", exitYear: year ? Number(year[0]) : null };
+  else if (/\bdefunct\b/i.test(raw)) info = { stage: "Defunct", round, status: "defunct", exitYear: year ? Number(year[0]) : null };
+  else if (/\b(ipo|public)\b/i.test(raw)) info = { stage: "IPO", round, status: "public", exitYear: year ? Number(year[0]) : null };
+  else if (round) info = { stage: round, round, status: "private", exitYear: null };
+
+  cache.set(raw, info);
+  return info;
+}
+
+/** Position in `STAGES`, or null when the text isn't a stage. */
+export function stageRank(raw: string): number | null {
+  const info = parseStage(raw);
+  return info ? STAGES.indexOf(info.stage) : null;
+}
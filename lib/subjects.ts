@@ -0,0 +1,13 @@
+/**
+ * Keys for the two kinds of people the team tracks: `Person` records from the people pool and
+ * `Recommendation`s from the Twitter graph. Pipeline records, notes and list
+ * entries are stored under them.
+ */
+
+export const personKey = (id: number) => `person:${id}`;
+/** Twitter usernames are case-insensitive */
+export const recommendationKey = (username: string) => `rec:${username.toLowerCase()}`;
+export const isRecommendationKey = (key: string) => key.startsWith("rec:");
+
+export const SUBJECT_KEY_RE = /^(person:\d+|rec:[a-z0-9_]+)$/;
+export const SUBJECT_KEY_MESSAGE = "Expected person:<id> or rec:<username>";
@@ -0,0 +1,14 @@
+/**
+ * Who is using this browser. There are no accounts; the name typed as a pipeline owner or comment
+ * author is remembered and offered next time. Client only.
+ */
+
+const STORAGE_KEY = "teammate";
+
+export function currentTeammate(): string {
+  return localStorage.getItem(STORAGE_KEY) ?? "";
+}
+
+export function rememberTeammate(name: string): void {
+  if (name.trim()) localStorage.setItem(STORAGE_KEY, name.trim());
+}
@@ -16,3 +16,12 @@ export interface Person {
   investors: string;
   fundingSeries: string;
 }
+
+/** A company from `network_companies.json`, keyed there by its Twitter handle. */
+export interface NetworkCompany {
+  name: string;
+  description: string;
+  stage: string;
+  investors: string;
+  website?: string;
+}
@@ -0,0 +1,16 @@
+import { useEffect } from "react";
+import { parseViewHref, viewHref } from "@/lib/views";
+
+/**
+ * Keep the address bar in step with what a tab shows, so its link reproduces the view. `view` holds
+ * the tab's own parameters; the `tab` already in the URL is kept. Null leaves the URL to another
+ * component. Client only.
+ */
+export function useViewInUrl(view: URLSearchParams | null) {
+  const query = view?.toString() ?? null;
+  useEffect(() => {
+    if (query === null) return;
+    const { tab } = parseViewHref(window.location.search);
+    window.history.replaceState(window.history.state, "", viewHref(tab, query));
+  }, [query]);
+}
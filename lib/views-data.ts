@@ -0,0 +1,33 @@
+import { randomUUID } from "node:crypto";
+import { checkViews, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import type { SavedView, ViewTab } from "@/lib/views";
+
+const store = jsonStore<SavedView[]>(DATA_FILES.views, checkViews, (views) => JSON.stringify(views, null, 2) + "\n");
+
+export class ViewError extends Error {}
+/** The view named doesn't exist; routes answer 404 rather than 400. */
+export class ViewNotFoundError extends ViewError {}
+
+/** Every saved view, in the order they were saved. Server only; clients go through `/api/views`. */
+export function getViews(): SavedView[] {
+  return store.get();
+}
+
+/** Save a view; a name already in use replaces that view's link so re-saving updates it. */
+export function saveView(name: string, tab: ViewTab, query: string, author: string): Promise<SavedView> {
+  return store.update((views) => {
+    const existing = views.find((v) => v.name.toLowerCase() === name.toLowerCase());
+    const view: SavedView = existing
+      ? { ...existing, tab, query }
+      : { id: randomUUID(), name, tab, query, createdBy: author, createdAt: new Date().toISOString() };
+    return { next: existing ? views.map((v) => (v.id === view.id ? view : v)) : [...views, view], result: view };
+  });
+}
+
+export function deleteView(id: string): Promise<void> {
+  return store.update((views) => {
+    if (!views.some((v) => v.id === id)) throw new ViewNotFoundError(`No view "${id}"`);
+    return { next: views.filter((v) => v.id !== id), result: undefined };
+  });
+}
@@ -0,0 +1,37 @@
+/** Saved views: a named link to a tab with its filters, sort and page, kept for the whole team. */
+
+export const VIEW_TABS = ["people", "network", "pipeline", "combos"] as const;
+export type ViewTab = (typeof VIEW_TABS)[number];
+
+export const VIEW_TAB_LABELS: Record<ViewTab, string> = {
+  people: "Outliers",
+  network: "Twitter",
+  pipeline: "Pipeline",
+  combos: "Rare combos",
+};
+
+export interface SavedView {
+  id: string;
+  name: string;
+  tab: ViewTab;
+  /** The tab's own URL parameters, without `tab`, e.g. "stage=Seed&sort=name&dir=asc" */
+  query: string;
+  createdBy: string;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/** Where a view opens: "/?tab=network&role=Founder". The people tab is the default and is left out. */
+export function viewHref(tab: ViewTab, query: string): string {
+  const params = new URLSearchParams(tab === "people" ? "" : `tab=${tab}`);
+  for (const [k, v] of new URLSearchParams(query)) params.append(k, v);
+  return params.size > 0 ? `/?${params}` : "/";
+}
+
+/** The tab and its own parameters from a page URL's query string; unknown tabs fall back to people. */
+export function parseViewHref(search: string): { tab: ViewTab; params: URLSearchParams } {
+  const params = new URLSearchParams(search);
+  const tab = params.get("tab");
+  params.delete("tab");
+  return { tab: (VIEW_TABS as readonly string[]).includes(tab ?? "") ? (tab as ViewTab) : "people", params };
+}
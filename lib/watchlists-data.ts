@@ -0,0 +1,89 @@
+import { checkWatchlists, DATA_FILES } from "@/lib/data-validation";
+import { jsonStore } from "@/lib/json-store";
+import { watchlistId, type Watchlist } from "@/lib/watchlists";
+
+const store = jsonStore<Watchlist[]>(DATA_FILES.watchlists, checkWatchlists, (lists) => JSON.stringify(lists, null, 2) + "\n");
+
+export class WatchlistError extends Error {}
+/** The list named doesn't exist; routes answer 404 rather than 400. */
+export class WatchlistNotFoundError extends WatchlistError {}
+
+/** Every list, in creation order. Server only; clients go through `/api/watchlists`. */
+export function getWatchlists(): Watchlist[] {
+  return store.get();
+}
+
+function find(watchlists: Watchlist[], id: string): Watchlist {
+  const list = watchlists.find((w) => w.id === id);
+  if (!list) throw new WatchlistNotFoundError(`No list "${id}"`);
+  return list;
+}
+
+function checkName(watchlists: Watchlist[], name: string, except?: string): void {
+  if (watchlists.some((w) => w.id !== except && w.name.toLowerCase() === name.toLowerCase())) {
+    throw new WatchlistError(`A list called "${name}" already exists`);
+  }
+}
+
+/** Apply `change` to list `id` and save it, unless it returns the list unchanged. */
+function updateList(id: string, change: (list: Watchlist, watchlists: Watchlist[]) => Watchlist): Promise<Watchlist> {
+  return store.update((watchlists) => {
+    const list = find(watchlists, id);
+    const next = change(list, watchlists);
+    if (next === list) return { result: list };
+    return { next: watchlists.map((w) => (w.id === id ? next : w)), result: next };
+  });
+}
+
+/** New empty list; its id comes from the name, with a number added if taken. */
+export function createWatchlist(name: string, description: string, author: string): Promise<Watchlist> {
+  return store.update((watchlists) => {
+    checkName(watchlists, name);
+    const base = watchlistId(name);
+    let id = base;
+    for (let n = 2; watchlists.some((w) => w.id === id); n++) id = `${base}-${n}`;
+    const now = new Date().toISOString();
+    const list: Watchlist = { id, name, description, createdBy: author, createdAt: now, updatedAt: now, entries: [] };
+    return { next: [...watchlists, list], result: list };
+  });
+}
+
+/** Rename or redescribe a list; the id stays so shared links keep working. */
+export function updateWatchlist(id: string, update: { name?: string; description?: string }): Promise<Watchlist> {
+  return updateList(id, (list, watchlists) => {
+    if (update.name !== undefined) checkName(watchlists, update.name, id);
+    return { ...list, ...update, updatedAt: new Date().toISOString() };
+  });
+}
+
+export function deleteWatchlist(id: string): Promise<void> {
+  return store.update((watchlists) => {
+    find(watchlists, id);
+    return { next: watchlists.filter((w) => w.id !== id), result: undefined };
+  });
+}
+
+/** For merged people: entries for `from` become entries for `to`, once per list. */
+export function moveWatchlistEntries(from: string, to: string): Promise<void> {
+  return store.update((watchlists) => {
+    if (!watchlists.some((w) => w.entries.some((e) => e.key === from))) return { result: undefined };
+    const next = watchlists.map((w) => {
+      if (!w.entries.some((e) => e.key === from)) return w;
+      const has = w.entries.some((e) => e.key === to);
+      const entries = has ? w.entries.filter((e) => e.key !== from) : w.entries.map((e) => (e.key === from ? { ...e, key: to } : e));
+      return { ...w, entries };
+    });
+    return { next, result: undefined };
+  });
+}
+
+/** Add `key` to the list, or take it off when `member` is false. Adding twice keeps the first entry. */
+export function setWatchlistEntry(id: string, key: string, member: boolean, author: string): Promise<Watchlist> {
+  return updateList(id, (list) => {
+    const has = list.entries.some((e) => e.key === key);
+    if (has === member) return list;
+    const now = new Date().toISOString();
+    const entries = member ? [...list.entries, { key, addedBy: author, addedAt: now }] : list.entries.filter((e) => e.key !== key);
+    return { ...list, entries, updatedAt: now };
+  });
+}
@@ -0,0 +1,38 @@
+/** Named lists the team keeps of people and recommendations ("AI infra seed", "Chess → founders"). */
+
+export interface WatchlistEntry {
+  /** `personKey()` or `recommendationKey()` from `lib/subjects` */
+  key: string;
+  addedBy: string;
+  /** ISO timestamp */
+  addedAt: string;
+}
+
+export interface Watchlist {
+  /** URL-safe, derived from the name when the list is created */
+  id: string;
+  name: string;
+  description: string;
+  createdBy: string;
+  /** ISO timestamps */
+  createdAt: string;
+  updatedAt: string;
+  /** Oldest first */
+  entries: WatchlistEntry[];
+}
+
+/** "AI infra seed" → "ai-infra-seed"; "list" when nothing usable is left. */
+export function watchlistId(name: string): string {
+  const slug = name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/\p{M}/gu, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-|-$/g, "");
+  return slug || "list";
+}
+
+/** Lists that contain `key`. */
+export function watchlistsWith(watchlists: Watchlist[], key: string): Watchlist[] {
+  return watchlists.filter((w) => w.entries.some((e) => e.key === key));
+}
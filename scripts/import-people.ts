@@ -0,0 +1,94 @@
+/**
+ * Import a scout's CSV or JSON batch into data/people.json.
+ *
+ *   npm run import-people -- batch.csv                      preview only
+ *   npm run import-people -- batch.csv --map "X Handle=twitter" --update --write
+ *
+ * Columns are mapped by header name; `--map` overrides or adds a mapping ("Column=" drops one).
+ * `--update` lets duplicate rows fill in changed fields on the existing person.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import { DATA_FILES } from "@/lib/data-validation";
+import { takenPersonIds } from "@/lib/duplicates-data";
+import { getPeople, updatePeople } from "@/lib/people-data";
+import { IMPORT_FIELDS, ImportError, applyImport, guessMapping, parseBatch, planImport, type ImportField } from "@/lib/person-import";
+
+const root = path.resolve(__dirname, "..");
+
+function usage(message: string): never {
+  console.error(`${message}\nUsage: npm run import-people -- <file.csv|file.json> [--map "Column=field"]... [--update] [--write]`);
+  process.exit(2);
+}
+
+const args = process.argv.slice(2);
+const files: string[] = [];
+const overrides: [string, string][] = [];
+let write = false;
+let update = false;
+for (let i = 0; i < args.length; i++) {
+  const arg = args[i];
+  if (arg === "--write") write = true;
+  else if (arg === "--update") update = true;
+  else if (arg === "--map") {
+    const spec = args[++i] ?? usage("--map needs a value");
+    const eq = spec.lastIndexOf("=");
+    if (eq === -1) usage(`--map "${spec}" must look like "Column=field"`);
+    overrides.push([spec.slice(0, eq), spec.slice(eq + 1)]);
+  } else if (arg.startsWith("--")) usage(`Unknown option ${arg}`);
+  else files.push(arg);
+}
+if (files.length !== 1) usage("Pass exactly one batch file");
+
+const show = (v: unknown) => JSON.stringify(v);
+const batchFile = path.resolve(files[0]);
+// The data stores resolve their files from the working directory
+process.chdir(root);
+
+async function main(): Promise<void> {
+  const batch = parseBatch(readFileSync(batchFile, "utf8"), files[0]);
+  const mapping = guessMapping(batch.columns);
+  for (const [column, field] of overrides) {
+    if (!batch.columns.includes(column)) usage(`No column named "${column}"`);
+    if (!field) delete mapping[column];
+    else if ((IMPORT_FIELDS as readonly string[]).includes(field)) mapping[column] = field as ImportField;
+    else usage(`Unknown field "${field}"; one of ${IMPORT_FIELDS.join(", ")}`);
+  }
+
+  console.log(`${files[0]}: ${batch.rows.length} row(s)`);
+  for (const column of batch.columns) console.log(`  ${column} → ${mapping[column] ?? "(ignored)"}`);
+
+  // Written the way the app writes, so a running server picks the change up and quarantined records are kept
+  const plan = write
+    ? await updatePeople((people) => {
+        const plan = planImport(batch.rows, mapping, people, takenPersonIds());
+        return { next: applyImport(people, plan, update), result: plan };
+      })
+    : planImport(batch.rows, mapping, getPeople(), takenPersonIds());
+
+  console.log(`\nNew (${plan.added.length})`);
+  for (const { row, person, warnings } of plan.added) {
+    console.log(`  + row ${row} → #${person.id} ${person.name}${person.twitter ? ` ${person.twitter}` : ""}${person.company ? ` — ${person.company}` : ""}`);
+    for (const w of warnings) console.log(`      warn: ${w}`);
+  }
+  console.log(`\nAlready in the dataset (${plan.duplicates.length})`);
+  for (const d of plan.duplicates) {
+    console.log(`  = row ${d.row} → #${d.existing.id} ${d.existing.name} (same ${d.match})${d.changes.length === 0 ? ", no changes" : ""}`);
+    for (const c of d.changes) console.log(`      ${c.field}: ${show(c.from)} → ${show(c.to)}`);
+  }
+  console.log(`\nRejected (${plan.rejected.length})`);
+  for (const r of plan.rejected) console.log(`  ! row ${r.row}: ${r.messages.join("; ")}`);
+
+  if (!write) {
+    console.log(`\nPreview only; pass --write to save${update ? "" : " (and --update to apply changes to existing people)"}.`);
+  } else {
+    const updated = update ? plan.duplicates.filter((d) => d.changes.length > 0).length : 0;
+    console.log(`\nWrote ${DATA_FILES.people}: ${plan.added.length} added, ${updated} updated.`);
+  }
+}
+
+main().catch((err) => {
+  if (err instanceof ImportError) usage(err.message);
+  throw err;
+});
@@ -0,0 +1,60 @@
+/**
+ * Report schema violations and integrity problems in the JSON datasets.
+ *
+ *   npm run lint-data
+ *
+ * Exits non-zero when any record would be quarantined by the app.
+ */
+
+import { readFileSync } from "node:fs";
+import path from "node:path";
+import {
+  DATA_FILES,
+  checkCompanies,
+  checkGraph,
+  checkPeople,
+  checkPipeline,
+  checkNotes,
+  checkWatchlists,
+  checkViews,
+  checkScoringProfiles,
+  checkMergeLog,
+  formatIssue,
+  type DataIssue,
+} from "@/lib/data-validation";
+
+const root = path.resolve(__dirname, "..");
+
+function load(file: string, check: (raw: unknown, file: string) => { issues: DataIssue[] }): DataIssue[] {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(readFileSync(path.join(root, file), "utf8"));
+  } catch (err) {
+    return [{ file, location: "(file)", message: (err as Error).message, severity: "error" }];
+  }
+  return check(raw, file).issues;
+}
+
+const issues = [
+  ...load(DATA_FILES.people, checkPeople),
+  ...load(DATA_FILES.companies, checkCompanies),
+  ...load(DATA_FILES.graph, checkGraph),
+  ...load(DATA_FILES.pipeline, checkPipeline),
+  ...load(DATA_FILES.notes, checkNotes),
+  ...load(DATA_FILES.watchlists, checkWatchlists),
+  ...load(DATA_FILES.views, checkViews),
+  ...load(DATA_FILES.scoring, checkScoringProfiles),
+  ...load(DATA_FILES.merges, checkMergeLog),
+];
+
+for (const file of Object.values(DATA_FILES)) {
+  const own = issues.filter((i) => i.file === file);
+  console.log(`${file}: ${own.length === 0 ? "ok" : `${own.length} issue(s)`}`);
+  for (const issue of own) console.log(`  ${issue.severity === "error" ? "error" : "warn "}  ${formatIssue(issue)}`);
+}
+
+const errors = issues.filter((i) => i.severity === "error").length;
+if (errors > 0) {
+  console.log(`\n${errors} record error(s); these records are quarantined by the app.`);
+  process.exit(1);
+}